@@ -1,10 +1,121 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { TopBar } from './components/TopBar';
 import { LeftToolPanel } from './components/LeftToolPanel';
 import { Canvas } from './components/Canvas';
 import { RightPropertiesPanel } from './components/RightPropertiesPanel';
+import { ExportDialog } from './components/ExportDialog';
+import { RecoveryDialog } from './components/RecoveryDialog';
+import { HistoryPanel } from './components/HistoryPanel';
+import { LayersPanel } from './components/LayersPanel';
+import { PageSizeDialog, type PageSizeDialogMode } from './components/PageSizeDialog';
+import { SaveAsDialog } from './components/SaveAsDialog';
+import { CanvasContextMenu } from './components/CanvasContextMenu';
+import { CommandPalette, type ObjectTarget } from './components/CommandPalette';
+import { ShortcutsDialog } from './components/ShortcutsDialog';
+import { KeymapDialog } from './components/KeymapDialog';
+import { Toaster } from './components/ui/sonner';
+import { toast } from 'sonner';
+import { downloadDocument, getDocumentName, isDocumentFile, parseDocument } from './utils/documentFile';
+import { importSvg, isSvgFile } from './utils/svgImport';
+import {
+  PASTE_OFFSET,
+  parseClipboard,
+  readClipboardData,
+  readSystemClipboard,
+  serializeClipboard,
+  withFreshIds,
+  writeClipboard,
+  type ClipboardContent
+} from './utils/clipboard';
+import {
+  flipObject,
+  getObjectBounds,
+  getObjectsBounds,
+  getPaintedBounds,
+  mergeBounds,
+  NUDGE_VECTORS,
+  translateObject,
+  type FlipDirection,
+  type NudgeDirection
+} from './utils/geometry';
+import { renderToCanvas } from './utils/rasterExport';
+import { getChildBounds, replaceGroupChildren, ungroupObject, worldToGroup } from './utils/groups';
+import {
+  BOOLEAN_OPERATION_LABELS,
+  combineObjects,
+  isBooleanOperand,
+  type BooleanOperation
+} from './utils/booleanOps';
+import {
+  canRedo,
+  canUndo,
+  createHistory,
+  jumpTo,
+  recordChange,
+  redo,
+  setHistoryLimit,
+  undo,
+  type HistoryTree
+} from './utils/history';
+import { describeChange, getLayerName, getObjectTypeName } from './utils/objectLabels';
+import {
+  changeZOrder,
+  findObjectInTree,
+  isInteractive,
+  reorderLayer,
+  updateObjectInTree,
+  Z_ORDER_LABELS,
+  type StackPlacement,
+  type ZOrderCommand
+} from './utils/layers';
+import {
+  ALIGN_LABELS,
+  alignObjects,
+  DISTRIBUTE_LABELS,
+  distributeObjects,
+  MIN_DISTRIBUTE_COUNT,
+  type AlignEdge,
+  type AlignReference,
+  type DistributeMode
+} from './utils/align';
+import { DEFAULT_PAGE_SIZE, getAnchorOffset, type PageAnchor, type PageSize } from './utils/pageSize';
+import {
+  fitBounds,
+  getPageView,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  screenToWorld,
+  stepZoom,
+  zoomAt,
+  ZOOM_PRESETS,
+  type ViewportSize,
+  type ViewState
+} from './utils/viewport';
+import { DEFAULT_SNAP_SETTINGS, type SnapSettings } from './utils/snapping';
+import { translateGuides, type GuideLine } from './utils/guides';
+import type { CommandRegistry, EditorCommand } from './utils/commands';
+import {
+  getEventShortcut,
+  getShortcutIndex,
+  loadKeymap,
+  NATIVE_PASTE_SHORTCUTS,
+  saveKeymap,
+  type Keymap
+} from './utils/keymap';
+import { createShapeObject, SHAPE_LABELS, type ShapeType } from './utils/shapes';
+import { fitTextBox } from './utils/text';
+import {
+  claimSession,
+  createSessionId,
+  deleteSessions,
+  listSessions,
+  loadSession,
+  releaseSession,
+  saveSession,
+  type RecoverableSession
+} from './utils/autosave';
 
-export type Tool = 'select' | 'brush' | 'eraser' | 'rectangle' | 'circle' | 'triangle' | 'line' | 'polygon' | 'star' | 'merge';
+export type Tool = 'select' | 'directSelect' | 'brush' | 'eraser' | 'pen' | 'text' | 'rectangle' | 'circle' | 'triangle' | 'line' | 'polygon' | 'star' | 'merge';
 
 export interface Transform {
   x: number;
@@ -12,11 +123,30 @@ export interface Transform {
   width: number;
   height: number;
   rotation: number;
+  // Mirrored within the box, before rotation; left out when false
+  flipX?: boolean;
+  flipY?: boolean;
+}
+
+// Anchor of a vector path; coordinates (and handles) are normalized 0-1 within the object's box
+export interface PathNode {
+  x: number;
+  y: number;
+  handleIn?: { x: number; y: number };
+  handleOut?: { x: number; y: number };
+}
+
+export interface SubPath {
+  nodes: PathNode[];
+  closed: boolean;
 }
 
 export interface CanvasObject {
   id: string;
-  type: 'drawn' | 'rectangle' | 'circle' | 'triangle' | 'line' | 'polygon' | 'star' | 'merged' | 'image';
+  type: 'drawn' | 'rectangle' | 'circle' | 'triangle' | 'line' | 'polygon' | 'star' | 'merged' | 'image' | 'path' | 'text';
+  name?: string; // layer name set by the user; the type name is shown otherwise
+  hidden?: boolean; // not drawn or exported
+  locked?: boolean; // drawn but ignored by canvas hit testing
   transform: Transform;
   style: {
     strokeColor: string;
@@ -24,22 +154,128 @@ export interface CanvasObject {
     strokeWidth: number;
     opacity?: number;
   };
-  data: any; // specific to object type
+  data: any; // specific to object type (path objects: { subpaths: SubPath[]; fillRule?: 'nonzero' | 'evenodd' }; text objects: TextData)
   children?: CanvasObject[]; // for merged objects
 }
 
-export interface HistoryState {
-  objects: CanvasObject[];
-}
+// Delay after the last change before the document is autosaved
+const AUTOSAVE_DELAY = 1000;
+
+// Pixels per canvas unit when rasterizing, so the image stays sharp when zoomed in a little
+const RASTERIZE_SCALE = 2;
+
+// An image object showing `imageUrl` in the given box
+const createImageObject = (
+  imageUrl: string,
+  transform: Transform,
+  originalWidth: number,
+  originalHeight: number
+): CanvasObject => ({
+  id: `image-${Date.now()}`,
+  type: 'image',
+  transform,
+  style: {
+    strokeColor: 'transparent',
+    fillColor: 'transparent',
+    strokeWidth: 0,
+    opacity: 1
+  },
+  data: {
+    imageUrl,
+    originalWidth,
+    originalHeight,
+    erasedAreas: []
+  }
+});
+
+// One command per option (a list, or the keys of a labels table), for families of commands like Align Left/Right/...
+const mapCommands = <K extends string | number, Id extends string>(
+  options: readonly K[] | Record<K, unknown>,
+  getId: (key: K) => Id,
+  getCommand: (key: K) => EditorCommand
+) => Object.fromEntries(
+  (Array.isArray(options) ? options : Object.keys(options) as K[]).map(key => [getId(key), getCommand(key)])
+) as Record<Id, EditorCommand>;
+
+// How far the arrow keys move the selection, in page pixels, and with Shift held
+const NUDGE_DISTANCE = 1;
+const BIG_NUDGE_DISTANCE = 10;
+
+const NUDGE_LABELS: Record<NudgeDirection, string> = {
+  left: 'Left',
+  right: 'Right',
+  up: 'Up',
+  down: 'Down'
+};
+
+// Shapes inserted from a command are this big, or as big as the page allows
+const INSERTED_SHAPE_SIZE = 100;
+
+const TOOL_LABELS: Record<Tool, string> = {
+  select: 'Select Tool',
+  directSelect: 'Direct Selection Tool',
+  brush: 'Brush Tool',
+  eraser: 'Eraser Tool',
+  pen: 'Pen Tool',
+  text: 'Text Tool',
+  rectangle: 'Rectangle Tool',
+  circle: 'Circle Tool',
+  triangle: 'Triangle Tool',
+  polygon: 'Polygon Tool',
+  star: 'Star Tool',
+  line: 'Line Tool',
+  merge: 'Merge Tool'
+};
 
 export default function App() {
   const [currentTool, setCurrentTool] = useState<Tool>('select');
   const [objects, setObjects] = useState<CanvasObject[]>([]);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
-  const [zoom, setZoom] = useState(100);
-  const [history, setHistory] = useState<HistoryState[]>([{ objects: [] }]);
-  const [historyIndex, setHistoryIndex] = useState(0);
+  // Merged object entered by double-click; selection then refers to its children
+  const [enteredGroupId, setEnteredGroupId] = useState<string | null>(null);
+  const [view, setView] = useState<ViewState>({ x: 0, y: 0, zoom: 100 });
+  const [viewportSize, setViewportSize] = useState<ViewportSize | null>(null);
+  const [infiniteCanvas, setInfiniteCanvas] = useState(false);
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+  const [preferredAlignReference, setAlignReference] = useState<AlignReference>('selection');
+  const [preferredKeyObjectId, setKeyObjectId] = useState<string | null>(null);
+  const [isPageViewPending, setIsPageViewPending] = useState(true);
+  const [pageSize, setPageSize] = useState<PageSize>(DEFAULT_PAGE_SIZE);
+  const [guides, setGuides] = useState<GuideLine[]>([]);
+  const [pageDialogMode, setPageDialogMode] = useState<PageSizeDialogMode | null>(null);
+  // File name (without extension) the document is saved under
+  const [documentName, setDocumentName] = useState('untitled');
+  const [isSaveAsOpen, setIsSaveAsOpen] = useState(false);
+  const [showRulers, setShowRulers] = useState(true);
+  const [showGuides, setShowGuides] = useState(true);
+  const [showLayersPanel, setShowLayersPanel] = useState(true);
+  const [showPropertiesPanel, setShowPropertiesPanel] = useState(true);
+  const [showHistoryPanel, setShowHistoryPanel] = useState(true);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [savedKeymap, setKeymap] = useState<Keymap>(loadKeymap);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isKeymapOpen, setIsKeymapOpen] = useState(false);
+  const openInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [history, setHistory] = useState<HistoryTree>(() => createHistory());
+  // Latest objects for callbacks that run several times before React re-renders
+  const objectsRef = useRef<CanvasObject[]>([]);
+  // Document state when the current canvas gesture (drag, resize, erase...) began
+  const gestureRef = useRef<{ before: CanvasObject[] } | null>(null);
   const [eraserSize, setEraserSize] = useState(20);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // Region the export dialog starts on when opened for the selection
+  const [exportInitialRegion, setExportInitialRegion] = useState<'canvas' | 'selection' | undefined>(undefined);
+  // Object under the pointer when the canvas context menu last opened
+  const [contextTargetId, setContextTargetId] = useState<string | null>(null);
+  const [recoverableSessions, setRecoverableSessions] = useState<RecoverableSession[]>([]);
+  const sessionIdRef = useRef(createSessionId());
+  // Set once an autosave has failed, so the failure is reported once rather than on every change
+  const autosaveFailedRef = useRef(false);
+  // Last copy made here, a fallback for the system clipboard, and how many times it has been pasted
+  const clipboardRef = useRef<{ text: string; pastes: number } | null>(null);
+  // Set by Ctrl+Shift+V for the paste event that follows
+  const pasteInPlaceRef = useRef(false);
   
   // Brush settings
   const [brushSize, setBrushSize] = useState(5);
@@ -47,65 +283,152 @@ export default function App() {
   const [brushType, setBrushType] = useState<'normal' | 'spray' | 'marker'>('normal');
   const [brushOpacity, setBrushOpacity] = useState(1);
 
-  const addToHistory = useCallback((newObjects: CanvasObject[]) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push({ objects: newObjects });
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
-  }, [history, historyIndex]);
-
   const handleUndo = useCallback(() => {
-    if (historyIndex > 0) {
-      setHistoryIndex(historyIndex - 1);
-      setObjects(history[historyIndex - 1].objects);
-      setSelectedIds([]);
-    }
-  }, [historyIndex, history]);
+    if (!canUndo(history)) return;
+    const result = undo(history, objectsRef.current);
+    objectsRef.current = result.objects;
+    setObjects(result.objects);
+    if (result.page) setPageSize(result.page);
+    if (result.guides) setGuides(result.guides);
+    setHistory(result.tree);
+    setSelectedIds([]);
+  }, [history]);
 
   const handleRedo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
-      setHistoryIndex(historyIndex + 1);
-      setObjects(history[historyIndex + 1].objects);
-      setSelectedIds([]);
-    }
-  }, [historyIndex, history]);
+    if (!canRedo(history)) return;
+    const result = redo(history, objectsRef.current);
+    objectsRef.current = result.objects;
+    setObjects(result.objects);
+    if (result.page) setPageSize(result.page);
+    if (result.guides) setGuides(result.guides);
+    setHistory(result.tree);
+    setSelectedIds([]);
+  }, [history]);
 
-  const handleZoomIn = useCallback(() => {
-    setZoom(prev => Math.min(200, prev + 10));
+  const handleJumpToStep = useCallback((entryId: number) => {
+    const result = jumpTo(history, objectsRef.current, entryId);
+    objectsRef.current = result.objects;
+    setObjects(result.objects);
+    if (result.page) setPageSize(result.page);
+    if (result.guides) setGuides(result.guides);
+    setHistory(result.tree);
+    setSelectedIds([]);
+  }, [history]);
+
+  const handleHistoryLimitChange = useCallback((limit: number) => {
+    setHistory(tree => setHistoryLimit(tree, limit));
   }, []);
 
+  // Zoom buttons keep the middle of the viewport in place
+  const zoomAroundCenter = useCallback((getZoom: (zoom: number) => number) => {
+    if (!viewportSize) return;
+    const center = { x: viewportSize.width / 2, y: viewportSize.height / 2 };
+    setView(prev => zoomAt(prev, getZoom(prev.zoom), center));
+  }, [viewportSize]);
+
+  const handleZoomIn = useCallback(() => {
+    zoomAroundCenter(zoom => stepZoom(zoom, 1));
+  }, [zoomAroundCenter]);
+
   const handleZoomOut = useCallback(() => {
-    setZoom(prev => Math.max(50, prev - 10));
+    zoomAroundCenter(zoom => stepZoom(zoom, -1));
+  }, [zoomAroundCenter]);
+
+  const handleZoomTo = useCallback((zoom: number) => {
+    zoomAroundCenter(() => zoom);
+  }, [zoomAroundCenter]);
+
+  const handleViewportResize = useCallback((size: ViewportSize) => {
+    setViewportSize(size);
   }, []);
 
-  const handleResetZoom = useCallback(() => {
-    setZoom(100);
+  // Show the whole page once the viewport has a size, and again whenever a document replaces it
+  useEffect(() => {
+    if (!isPageViewPending || !viewportSize || viewportSize.width === 0) return;
+    setView(getPageView(pageSize, viewportSize));
+    setIsPageViewPending(false);
+  }, [isPageViewPending, viewportSize, pageSize]);
+
+  // Replace the whole document (new, open, restore) and start a fresh history
+  const replaceDocument = useCallback((newObjects: CanvasObject[], page: PageSize, newGuides: GuideLine[] = []) => {
+    objectsRef.current = newObjects;
+    gestureRef.current = null;
+    setObjects(newObjects);
+    setPageSize(page);
+    setGuides(newGuides);
+    setIsPageViewPending(true);
+    setSelectedIds([]);
+    setEnteredGroupId(null);
+    setHistory(prev => createHistory(prev.limit));
   }, []);
 
   const handleNew = useCallback(() => {
-    setObjects([]);
-    setSelectedIds([]);
-    setHistory([{ objects: [] }]);
-    setHistoryIndex(0);
+    setPageDialogMode('new');
   }, []);
 
-  const updateObjects = useCallback((newObjects: CanvasObject[]) => {
+  const handleCreateDocument = useCallback((size: PageSize) => {
+    replaceDocument([], size);
+    setDocumentName('untitled');
+    setPageDialogMode(null);
+  }, [replaceDocument]);
+
+  // Resize the page, moving all content and guides so they stay pinned to the anchor
+  const handleResizePage = useCallback((size: PageSize, anchor: PageAnchor) => {
+    setPageDialogMode(null);
+    const { dx, dy } = getAnchorOffset(pageSize, size, anchor);
+    const moved = dx !== 0 || dy !== 0;
+    const prev = objectsRef.current;
+    const next = moved ? prev.map(obj => translateObject(obj, dx, dy)) : prev;
+    const nextGuides = moved ? translateGuides(guides, dx, dy) : guides;
+
+    objectsRef.current = next;
+    setObjects(next);
+    setPageSize(size);
+    setGuides(nextGuides);
+    setHistory(tree => recordChange(tree, prev, next, 'Resize Page', undefined, {
+      page: { before: pageSize, after: size },
+      guides: { before: guides, after: nextGuides }
+    }));
+  }, [pageSize, guides]);
+
+  const handleGuidesChange = useCallback((nextGuides: GuideLine[], label: string) => {
+    const current = objectsRef.current;
+    setGuides(nextGuides);
+    setHistory(tree => recordChange(tree, current, current, label, undefined, { guides: { before: guides, after: nextGuides } }));
+  }, [guides]);
+
+  const updateObjects = useCallback((newObjects: CanvasObject[], label?: string, coalesceKey?: string) => {
+    const prev = objectsRef.current;
+    objectsRef.current = newObjects;
     setObjects(newObjects);
-    addToHistory(newObjects);
-  }, [addToHistory]);
 
-  const handleOpenImage = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    // Changes made during a gesture are recorded as one step when it ends
+    if (gestureRef.current) return;
+    setHistory(tree => recordChange(tree, prev, newObjects, label ?? describeChange('Edit', prev, newObjects), coalesceKey));
+  }, []);
 
+  const handleGestureStart = useCallback(() => {
+    gestureRef.current = { before: objectsRef.current };
+  }, []);
+
+  const handleGestureEnd = useCallback((verb: string) => {
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
+    if (!gesture) return;
+
+    const next = objectsRef.current;
+    setHistory(tree => recordChange(tree, gesture.before, next, describeChange(verb, gesture.before, next)));
+  }, []);
+
+  const handleOpenImage = useCallback((file: File) => {
     const reader = new FileReader();
     reader.onload = (event) => {
       const imageUrl = event.target?.result as string;
       const img = new Image();
       img.onload = () => {
         // Calculate dimensions to fit within canvas while maintaining aspect ratio
-        // Default max size 400x400
-        const maxSize = 400;
+        // Default max size 400x400, less on smaller pages
+        const maxSize = Math.min(400, pageSize.width, pageSize.height);
         let width = img.width;
         let height = img.height;
         
@@ -115,40 +438,180 @@ export default function App() {
           height *= ratio;
         }
 
-        const newObject: CanvasObject = {
-          id: `image-${Date.now()}`,
-          type: 'image',
-          transform: {
-            x: (1200 - width) / 2, // Center horizontally (assuming 1200 canvas width)
-            y: (800 - height) / 2, // Center vertically (assuming 800 canvas height)
+        const newObject = createImageObject(
+          imageUrl,
+          {
+            x: (pageSize.width - width) / 2, // Center on the page
+            y: (pageSize.height - height) / 2,
             width,
             height,
             rotation: 0
           },
-          style: {
-            strokeColor: 'transparent',
-            fillColor: 'transparent',
-            strokeWidth: 0,
-            opacity: 1
-          },
-          data: {
-            imageUrl,
-            originalWidth: img.width,
-            originalHeight: img.height,
-            erasedAreas: []
-          }
-        };
+          img.width,
+          img.height
+        );
 
-        updateObjects([...objects, newObject]);
+        updateObjects([...objects, newObject], 'Import Image');
         setSelectedIds([newObject.id]);
       };
       img.src = imageUrl;
     };
     reader.readAsDataURL(file);
-    
+  }, [objects, pageSize, updateObjects]);
+
+  const handleOpenDocument = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const doc = parseDocument(event.target?.result as string);
+        replaceDocument(doc.objects, doc.page, doc.guides);
+        setDocumentName(getDocumentName(file));
+      } catch (error) {
+        toast.error(`Could not open ${file.name}`, {
+          description: error instanceof Error ? error.message : undefined
+        });
+      }
+    };
+    reader.readAsText(file);
+  }, [replaceDocument]);
+
+  // `source` names where the markup came from in error messages
+  const handleInsertSvg = useCallback((markup: string, source: string) => {
+    try {
+      const imported = importSvg(markup);
+
+      // Center the imported artwork on the canvas, like images
+      const bounds = getObjectsBounds(imported)!;
+      const dx = (pageSize.width - bounds.width) / 2 - bounds.x;
+      const dy = (pageSize.height - bounds.height) / 2 - bounds.y;
+      const placed = imported.map(obj => translateObject(obj, dx, dy));
+
+      updateObjects([...objects, ...placed], 'Import SVG');
+      setSelectedIds(placed.map(obj => obj.id));
+    } catch (error) {
+      toast.error(`Could not import ${source}`, {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  }, [objects, pageSize, updateObjects]);
+
+  const handleOpenSvg = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (event) => handleInsertSvg(event.target?.result as string, file.name);
+    reader.readAsText(file);
+  }, [handleInsertSvg]);
+
+  const handleOpen = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (isDocumentFile(file)) {
+      handleOpenDocument(file);
+    } else if (isSvgFile(file)) {
+      handleOpenSvg(file);
+    } else {
+      handleOpenImage(file);
+    }
+
     // Reset input value so same file can be selected again
     e.target.value = '';
-  }, [objects, updateObjects]);
+  }, [handleOpenDocument, handleOpenSvg, handleOpenImage]);
+
+  // Offer to restore documents autosaved by earlier (crashed or closed) tabs, once this tab's own
+  // session is claimed so it isn't among them
+  useEffect(() => {
+    claimSession(sessionIdRef.current)
+      .then(() => listSessions())
+      .then(setRecoverableSessions)
+      // Without storage there is nothing to offer; autosave reports the problem
+      .catch(() => {});
+  }, []);
+
+  // Autosave shortly after the document stops changing
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      saveSession(sessionIdRef.current, objects, pageSize, guides)
+        .catch(error => {
+          if (autosaveFailedRef.current) return;
+          autosaveFailedRef.current = true;
+          toast.error('Could not autosave unsaved work', {
+            description: error instanceof Error ? error.message : undefined
+          });
+        });
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [objects, pageSize, guides]);
+
+  const handleRestoreSession = useCallback(async (sessionId: string) => {
+    try {
+      // Keep autosaving into the restored session instead of starting a new one, unless another
+      // tab has taken it over since it was listed
+      if (!(await claimSession(sessionId))) {
+        throw new Error('It is open in another tab');
+      }
+      const restored = await loadSession(sessionId).catch(error => {
+        releaseSession(sessionId);
+        throw error;
+      });
+      releaseSession(sessionIdRef.current);
+      sessionIdRef.current = sessionId;
+      replaceDocument(restored.objects, restored.page, restored.guides);
+      setRecoverableSessions([]);
+    } catch (error) {
+      toast.error('Could not restore unsaved work', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  }, [replaceDocument]);
+
+  const handleDiscardSessions = useCallback(() => {
+    deleteSessions(recoverableSessions.map(session => session.id))
+      .catch(() => {});
+    setRecoverableSessions([]);
+  }, [recoverableSessions]);
+
+  const handleSave = useCallback(() => {
+    downloadDocument(objects, pageSize, guides, documentName);
+  }, [objects, pageSize, guides, documentName]);
+
+  // Later saves keep the new name
+  const handleSaveAs = useCallback((name: string) => {
+    setDocumentName(name);
+    setIsSaveAsOpen(false);
+    downloadDocument(objects, pageSize, guides, name);
+  }, [objects, pageSize, guides]);
+
+  const enteredGroup = enteredGroupId
+    ? objects.find(obj => obj.id === enteredGroupId && obj.type === 'merged' && obj.children) ?? null
+    : null;
+  // Objects the selection refers to: the entered group's children, or the top level
+  const scopeObjects = enteredGroup ? enteredGroup.children! : objects;
+
+  // Document with the objects in scope replaced
+  const withScopeObjects = useCallback((newScopeObjects: CanvasObject[]) => (
+    enteredGroup ? replaceGroupChildren(objects, enteredGroup.id, newScopeObjects) : newScopeObjects
+  ), [objects, enteredGroup]);
+
+  // Leave isolation if the group disappears (undo, delete of its last child...)
+  useEffect(() => {
+    if (enteredGroupId && !enteredGroup) setEnteredGroupId(null);
+  }, [enteredGroupId, enteredGroup]);
+
+  const handleEnterGroup = useCallback((groupId: string) => {
+    setEnteredGroupId(groupId);
+    setSelectedIds([]);
+  }, []);
+
+  const handleExitGroup = useCallback(() => {
+    setSelectedIds(enteredGroupId ? [enteredGroupId] : []);
+    setEnteredGroupId(null);
+  }, [enteredGroupId]);
+
+  const handleToolChange = useCallback((tool: Tool) => {
+    setCurrentTool(tool);
+    // Only the select tool edits inside a group
+    if (tool !== 'select' && enteredGroupId) handleExitGroup();
+  }, [enteredGroupId, handleExitGroup]);
 
   // Recursively update style for merged objects and all their children
   const updateObjectStyle = useCallback((obj: CanvasObject, styleUpdates: Partial<CanvasObject['style']>): CanvasObject => {
@@ -177,20 +640,32 @@ export default function App() {
   const handleObjectUpdate = useCallback((updates: Partial<CanvasObject>) => {
     if (selectedIds.length !== 1) return;
     
-    const newObjects = objects.map(obj => {
+    const newObjects = scopeObjects.map(obj => {
       if (obj.id === selectedIds[0]) {
         // If updating style and object is merged, recursively update children
         if (updates.style && obj.type === 'merged') {
           return updateObjectStyle(obj, updates.style);
         }
+        // Text boxes follow their text; typing a width in makes the text wrap at it
+        if (obj.type === 'text') {
+          const updated = { ...obj, ...updates };
+          const widthChanged = !!updates.transform && updates.transform.width !== obj.transform.width;
+          return fitTextBox(widthChanged ? { ...updated, data: { ...updated.data, wrap: true } } : updated);
+        }
         // Otherwise, normal update
         return { ...obj, ...updates };
       }
       return obj;
     });
     
-    updateObjects(newObjects);
-  }, [objects, selectedIds, updateObjects, updateObjectStyle]);
+    // Typing in a field or dragging a slider edits the same property many times; keep it one step
+    const target = scopeObjects.find(obj => obj.id === selectedIds[0]);
+    updateObjects(
+      withScopeObjects(newObjects),
+      `Edit ${getObjectTypeName(target ?? null)}`,
+      `edit-${selectedIds[0]}-${Object.keys(updates).join(',')}`
+    );
+  }, [scopeObjects, selectedIds, updateObjects, updateObjectStyle, withScopeObjects]);
 
   const handleMerge = useCallback(() => {
     if (selectedIds.length < 2) return;
@@ -208,11 +683,11 @@ export default function App() {
       maxY = Math.max(maxY, y + height);
     });
 
-    // Ensure merged object stays within canvas bounds
+    // Ensure merged object stays within the page, unless the canvas is infinite
     const mergedWidth = maxX - minX;
     const mergedHeight = maxY - minY;
-    const constrainedX = Math.max(0, Math.min(minX, 1200 - mergedWidth));
-    const constrainedY = Math.max(0, Math.min(minY, 800 - mergedHeight));
+    const constrainedX = infiniteCanvas ? minX : Math.max(0, Math.min(minX, pageSize.width - mergedWidth));
+    const constrainedY = infiniteCanvas ? minY : Math.max(0, Math.min(minY, pageSize.height - mergedHeight));
 
     const mergedObject: CanvasObject = {
       id: `merged-${Date.now()}`,
@@ -267,100 +742,792 @@ export default function App() {
     };
 
     const newObjects = [...remainingObjects, mergedObject];
-    updateObjects(newObjects);
+    updateObjects(newObjects, 'Merge Objects');
     setSelectedIds([mergedObject.id]);
-  }, [objects, selectedIds, updateObjects]);
+  }, [objects, pageSize, infiniteCanvas, selectedIds, updateObjects]);
+
+  const selectedScopeObjects = scopeObjects.filter(obj => selectedIds.includes(obj.id));
+  const canCombineShapes = selectedScopeObjects.length >= 2 && selectedScopeObjects.every(isBooleanOperand);
+
+  // Replace the selected shapes with one path object that combines their outlines
+  const handleBooleanOperation = useCallback((operation: BooleanOperation) => {
+    const operands = scopeObjects.filter(obj => selectedIds.includes(obj.id));
+    if (operands.length < 2 || !operands.every(isBooleanOperand)) return;
+
+    const label = BOOLEAN_OPERATION_LABELS[operation];
+    try {
+      const result = combineObjects(operands, operation);
+
+      // The result takes the stacking position of the topmost operand
+      const topIndex = Math.max(...operands.map(obj => scopeObjects.indexOf(obj)));
+      const newScopeObjects = scopeObjects.flatMap((obj, index) => {
+        if (index === topIndex) return [result];
+        return operands.includes(obj) ? [] : [obj];
+      });
+
+      updateObjects(withScopeObjects(newScopeObjects), label);
+      setSelectedIds([result.id]);
+    } catch (error) {
+      toast.error(`Could not ${label.toLowerCase()} the shapes`, {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  }, [scopeObjects, selectedIds, updateObjects, withScopeObjects]);
+
+  // Align and distribute act on the selected objects that can be edited, in the current scope
+  const alignTargets = useMemo(
+    () => scopeObjects.filter(obj => selectedIds.includes(obj.id) && isInteractive(obj)),
+    [scopeObjects, selectedIds]
+  );
+  // A group's children live in the group's space, not the page's
+  const alignReference = enteredGroup && preferredAlignReference === 'page' ? 'selection' : preferredAlignReference;
+  // The key object is the one picked in the panel, or else the last one added to the selection
+  const keyObjectId = alignTargets.some(obj => obj.id === preferredKeyObjectId)
+    ? preferredKeyObjectId
+    : [...selectedIds].reverse().find(id => alignTargets.some(obj => obj.id === id)) ?? null;
+
+  const replaceAlignTargets = useCallback((moved: CanvasObject[], label: string, coalesceKey?: string) => {
+    const byId = new Map(moved.map(obj => [obj.id, obj]));
+    updateObjects(withScopeObjects(scopeObjects.map(obj => byId.get(obj.id) ?? obj)), label, coalesceKey);
+  }, [scopeObjects, updateObjects, withScopeObjects]);
+
+  const handleAlign = useCallback((edge: AlignEdge) => {
+    const key = alignReference === 'key' ? alignTargets.find(obj => obj.id === keyObjectId) : undefined;
+    const moving = key ? alignTargets.filter(obj => obj !== key) : alignTargets;
+    const target = alignReference === 'page'
+      ? { x: 0, y: 0, width: pageSize.width, height: pageSize.height }
+      : key ? getObjectBounds(key) : getObjectsBounds(alignTargets);
+    if (!target || moving.length === 0 || (alignReference !== 'page' && alignTargets.length < 2)) return;
+
+    replaceAlignTargets(alignObjects(moving, edge, target), `Align ${ALIGN_LABELS[edge]}`);
+  }, [alignTargets, alignReference, keyObjectId, pageSize, replaceAlignTargets]);
+
+  // Spread across the page when aligning to it, otherwise between the outermost selected objects
+  const handleDistribute = useCallback((mode: DistributeMode) => {
+    if (alignTargets.length < MIN_DISTRIBUTE_COUNT) return;
+    const range = alignReference === 'page' ? { x: 0, y: 0, width: pageSize.width, height: pageSize.height } : null;
+    replaceAlignTargets(distributeObjects(alignTargets, mode, range), `Distribute ${DISTRIBUTE_LABELS[mode]}`);
+  }, [alignTargets, alignReference, pageSize, replaceAlignTargets]);
+
+  const handleLayerSelect = useCallback((id: string, additive: boolean) => {
+    // Picking a top-level layer leaves any entered group
+    setEnteredGroupId(null);
+    setSelectedIds(prev => {
+      if (!additive || enteredGroupId) return [id];
+      return prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id];
+    });
+  }, [enteredGroupId]);
+
+  const handleLayerSelectChild = useCallback((groupId: string, childId: string) => {
+    setEnteredGroupId(groupId);
+    setSelectedIds([childId]);
+  }, []);
+
+  const handleLayerRename = useCallback((id: string, name: string) => {
+    const target = findObjectInTree(objects, id);
+    if (!target || name.trim() === getLayerName(target)) return;
+
+    // An empty name goes back to showing the type
+    updateObjects(
+      updateObjectInTree(objects, id, obj => ({ ...obj, name: name.trim() || undefined })),
+      'Rename Layer'
+    );
+  }, [objects, updateObjects]);
+
+  const handleLayerToggleHidden = useCallback((id: string) => {
+    const target = findObjectInTree(objects, id);
+    if (!target) return;
+
+    updateObjects(
+      updateObjectInTree(objects, id, obj => ({ ...obj, hidden: !obj.hidden || undefined })),
+      `${target.hidden ? 'Show' : 'Hide'} ${getLayerName(target)}`
+    );
+    if (!target.hidden) setSelectedIds(prev => prev.filter(selectedId => selectedId !== id));
+  }, [objects, updateObjects]);
+
+  const handleLayerToggleLocked = useCallback((id: string) => {
+    const target = findObjectInTree(objects, id);
+    if (!target) return;
+
+    updateObjects(
+      updateObjectInTree(objects, id, obj => ({ ...obj, locked: !obj.locked || undefined })),
+      `${target.locked ? 'Unlock' : 'Lock'} ${getLayerName(target)}`
+    );
+  }, [objects, updateObjects]);
+
+  const handleLayerReorder = useCallback((
+    parentId: string | null,
+    id: string,
+    targetId: string,
+    placement: StackPlacement
+  ) => {
+    updateObjects(reorderLayer(objects, parentId, id, targetId, placement), 'Reorder Layers');
+  }, [objects, updateObjects]);
+
+  // Restack the selection among its siblings in the current scope
+  const handleZOrder = useCallback((command: ZOrderCommand) => {
+    const reordered = changeZOrder(scopeObjects, selectedIds, command);
+    if (reordered.every((obj, index) => obj === scopeObjects[index])) return;
+    updateObjects(withScopeObjects(reordered), Z_ORDER_LABELS[command]);
+  }, [scopeObjects, selectedIds, updateObjects, withScopeObjects]);
+
+  // Replace selected merged objects with their children, keeping everything where it is on screen
+  const handleUngroup = useCallback(() => {
+    const groups = scopeObjects.filter(obj => selectedIds.includes(obj.id) && obj.type === 'merged' && obj.children);
+    if (groups.length === 0) return;
+
+    const released: CanvasObject[] = [];
+    const newScopeObjects = scopeObjects.flatMap(obj => {
+      if (!groups.includes(obj)) return [obj];
+      const children = ungroupObject(obj);
+      released.push(...children);
+      return children;
+    });
+
+    updateObjects(withScopeObjects(newScopeObjects), 'Ungroup');
+    setSelectedIds(released.map(obj => obj.id));
+  }, [scopeObjects, selectedIds, updateObjects, withScopeObjects]);
 
   const handleDelete = useCallback(() => {
     if (selectedIds.length === 0) return;
     
-    const newObjects = objects.filter(obj => !selectedIds.includes(obj.id));
-    updateObjects(newObjects);
+    const newScopeObjects = scopeObjects.filter(obj => !selectedIds.includes(obj.id));
+    updateObjects(withScopeObjects(newScopeObjects), describeChange('Delete', scopeObjects, newScopeObjects));
+    setSelectedIds([]);
+  }, [scopeObjects, selectedIds, updateObjects, withScopeObjects]);
+
+  // The selection in canvas coordinates, as it goes on the clipboard
+  const getClipboardObjects = useCallback(() => {
+    const selected = scopeObjects.filter(obj => selectedIds.includes(obj.id));
+    return enteredGroup ? ungroupObject({ ...enteredGroup, children: selected }) : selected;
+  }, [scopeObjects, selectedIds, enteredGroup]);
+
+  // Returns whether anything was copied
+  const handleCopy = useCallback(() => {
+    const copied = getClipboardObjects();
+    if (copied.length === 0) return false;
+
+    clipboardRef.current = { text: serializeClipboard(copied), pastes: 0 };
+    // If the browser won't write the system clipboard either, the paste command falls back to clipboardRef
+    writeClipboard(copied).catch(() => {});
+    return true;
+  }, [getClipboardObjects]);
+
+  const handleCut = useCallback(() => {
+    if (!handleCopy()) return;
+
+    const newScopeObjects = scopeObjects.filter(obj => !selectedIds.includes(obj.id));
+    updateObjects(withScopeObjects(newScopeObjects), describeChange('Cut', scopeObjects, newScopeObjects));
+    setSelectedIds([]);
+  }, [handleCopy, scopeObjects, selectedIds, updateObjects, withScopeObjects]);
+
+  // Pasted objects go on top of the page; `inPlace` keeps them exactly where they were copied from
+  const handlePaste = useCallback((content: ClipboardContent | null, inPlace: boolean) => {
+    if (!content) return;
+
+    setEnteredGroupId(null);
+    if (content.kind === 'image') {
+      handleOpenImage(content.file);
+      return;
+    }
+    if (content.kind === 'svg') {
+      handleInsertSvg(content.markup, 'the pasted SVG');
+      return;
+    }
+
+    // Each paste of the same copy lands one step further from the original
+    const text = serializeClipboard(content.objects);
+    const entry = clipboardRef.current?.text === text ? clipboardRef.current : { text, pastes: 0 };
+    clipboardRef.current = entry;
+    const offset = inPlace ? 0 : PASTE_OFFSET * ++entry.pastes;
+
+    const pasted = content.objects.map(obj => translateObject(withFreshIds(obj), offset, offset));
+    const newObjects = [...objects, ...pasted];
+    updateObjects(newObjects, describeChange('Paste', objects, newObjects));
+    setSelectedIds(pasted.map(obj => obj.id));
+  }, [objects, updateObjects, handleOpenImage, handleInsertSvg]);
+
+  // Copies of the selection on top of its scope, offset so they don't hide the originals
+  const handleDuplicate = useCallback(() => {
+    const originals = scopeObjects.filter(obj => selectedIds.includes(obj.id));
+    if (originals.length === 0) return;
+
+    const copies = originals.map(obj => translateObject(withFreshIds(obj), PASTE_OFFSET, PASTE_OFFSET));
+    const newScopeObjects = [...scopeObjects, ...copies];
+    updateObjects(withScopeObjects(newScopeObjects), describeChange('Duplicate', scopeObjects, newScopeObjects));
+    setSelectedIds(copies.map(obj => obj.id));
+  }, [scopeObjects, selectedIds, updateObjects, withScopeObjects]);
+
+  // Paste from a menu, which gets no paste event and reads the system clipboard itself. Only when the
+  // browser won't let it does the last copy made here stand in; a clipboard holding something this
+  // app can't paste pastes nothing.
+  const handlePasteCommand = useCallback((inPlace: boolean) => {
+    readSystemClipboard().then(result => {
+      if (result.readable) {
+        handlePaste(result.content, inPlace);
+        return;
+      }
+      const copied = clipboardRef.current ? parseClipboard(clipboardRef.current.text) : null;
+      handlePaste(copied && { kind: 'objects', objects: copied }, inPlace);
+    });
+  }, [handlePaste]);
+
+  // Mirror the selection within its own bounds
+  const handleFlip = useCallback((direction: FlipDirection) => {
+    const bounds = getObjectsBounds(alignTargets);
+    if (!bounds) return;
+
+    const mirror = direction === 'horizontal' ? bounds.x + bounds.width / 2 : bounds.y + bounds.height / 2;
+    replaceAlignTargets(
+      alignTargets.map(obj => flipObject(obj, direction, mirror)),
+      direction === 'horizontal' ? 'Flip Horizontal' : 'Flip Vertical'
+    );
+  }, [alignTargets, replaceAlignTargets]);
+
+  // Move the selection by screen-aligned page pixels; a run of presses on the same objects is one undo step
+  const handleNudge = useCallback((direction: NudgeDirection, distance: number) => {
+    if (alignTargets.length === 0) return;
+
+    let { x: dx, y: dy } = NUDGE_VECTORS[direction];
+    dx *= distance;
+    dy *= distance;
+    if (enteredGroup) {
+      // Children move in the group's own (possibly rotated or scaled) coordinates
+      const origin = worldToGroup(enteredGroup, { x: 0, y: 0 });
+      const step = worldToGroup(enteredGroup, { x: dx, y: dy });
+      dx = step.x - origin.x;
+      dy = step.y - origin.y;
+    }
+
+    const moved = alignTargets.map(obj => translateObject(obj, dx, dy));
+    replaceAlignTargets(
+      moved,
+      describeChange('Move', alignTargets, moved),
+      `nudge:${alignTargets.map(obj => obj.id).join(',')}`
+    );
+  }, [alignTargets, enteredGroup, replaceAlignTargets]);
+
+  // Lock the selection, or unlock it when all of it is locked already
+  const handleToggleSelectionLocked = useCallback(() => {
+    const selected = scopeObjects.filter(obj => selectedIds.includes(obj.id));
+    if (selected.length === 0) return;
+
+    const locked = !selected.every(obj => obj.locked) || undefined;
+    const newScopeObjects = scopeObjects.map(obj => (selected.includes(obj) ? { ...obj, locked } : obj));
+    updateObjects(withScopeObjects(newScopeObjects), describeChange(locked ? 'Lock' : 'Unlock', scopeObjects, newScopeObjects));
+  }, [scopeObjects, selectedIds, updateObjects, withScopeObjects]);
+
+  const handleHideSelection = useCallback(() => {
+    if (selectedIds.length === 0) return;
+
+    const newScopeObjects = scopeObjects.map(obj => (selectedIds.includes(obj.id) ? { ...obj, hidden: true } : obj));
+    updateObjects(withScopeObjects(newScopeObjects), describeChange('Hide', scopeObjects, newScopeObjects));
     setSelectedIds([]);
-  }, [objects, selectedIds, updateObjects]);
+  }, [scopeObjects, selectedIds, updateObjects, withScopeObjects]);
+
+  // Replace the selection with one image of it, at the topmost selected object's place in the stack
+  const handleRasterize = useCallback(async () => {
+    const selected = scopeObjects.filter(obj => selectedIds.includes(obj.id) && !obj.hidden);
+    const region = getPaintedBounds(selected);
+    if (!region) return;
+
+    const label = selected.length === 1 ? `Rasterize ${getObjectTypeName(selected[0])}` : `Rasterize ${selected.length} Objects`;
+    try {
+      const canvas = await renderToCanvas(selected, region, { scale: RASTERIZE_SCALE, background: 'transparent', format: 'png' });
+      const image = createImageObject(canvas.toDataURL('image/png'), { ...region, rotation: 0 }, canvas.width, canvas.height);
+
+      const topIndex = Math.max(...selected.map(obj => scopeObjects.indexOf(obj)));
+      const newScopeObjects = scopeObjects.flatMap((obj, index) => {
+        if (index === topIndex) return [image];
+        return selected.includes(obj) ? [] : [obj];
+      });
+
+      updateObjects(withScopeObjects(newScopeObjects), label);
+      setSelectedIds([image.id]);
+    } catch (error) {
+      toast.error(`Could not ${label.toLowerCase()}`, {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  }, [scopeObjects, selectedIds, updateObjects, withScopeObjects]);
+
+  const handleSelectAll = useCallback(() => {
+    setSelectedIds(scopeObjects.filter(isInteractive).map(obj => obj.id));
+  }, [scopeObjects]);
+
+  const handleSelectAllOfType = useCallback((type: CanvasObject['type']) => {
+    setSelectedIds(scopeObjects.filter(obj => obj.type === type && isInteractive(obj)).map(obj => obj.id));
+  }, [scopeObjects]);
+
+  const handleOpenExport = useCallback((initialRegion?: 'canvas' | 'selection') => {
+    setExportInitialRegion(initialRegion);
+    setIsExportOpen(true);
+  }, []);
+
+  // Fit the page and everything visible on or around it
+  const handleZoomToFit = useCallback(() => {
+    if (!viewportSize) return;
+    const bounds = mergeBounds([
+      { x: 0, y: 0, width: pageSize.width, height: pageSize.height },
+      ...objects.filter(obj => !obj.hidden).map(getObjectBounds)
+    ])!;
+    setView(fitBounds(bounds, viewportSize));
+  }, [objects, pageSize, viewportSize]);
 
-  // Keyboard shortcuts
-  React.useEffect(() => {
+  const handleZoomToSelection = useCallback(() => {
+    const selected = scopeObjects.filter(obj => selectedIds.includes(obj.id));
+    if (!viewportSize || selected.length === 0) return;
+    const bounds = mergeBounds(
+      selected.map(obj => (enteredGroup ? getChildBounds(enteredGroup, obj) : getObjectBounds(obj)))
+    );
+    if (bounds) setView(fitBounds(bounds, viewportSize));
+  }, [scopeObjects, selectedIds, enteredGroup, viewportSize]);
+
+  // Add a shape of the default size in the middle of the view, kept on the page unless the canvas is infinite
+  const handleInsertShape = useCallback((type: ShapeType) => {
+    if (!viewportSize) return;
+    const size = Math.min(INSERTED_SHAPE_SIZE, pageSize.width, pageSize.height);
+    const center = screenToWorld(view, { x: viewportSize.width / 2, y: viewportSize.height / 2 });
+    let x = center.x - size / 2;
+    let y = center.y - size / 2;
+    if (!infiniteCanvas) {
+      x = Math.max(0, Math.min(x, pageSize.width - size));
+      y = Math.max(0, Math.min(y, pageSize.height - size));
+    }
+
+    const shape = createShapeObject(type, { x, y, width: size, height: size, rotation: 0 });
+    setEnteredGroupId(null);
+    updateObjects([...objects, shape], `Add ${SHAPE_LABELS[type]}`);
+    setSelectedIds([shape.id]);
+  }, [objects, view, viewportSize, pageSize, infiniteCanvas, updateObjects]);
+
+  // Select an object picked by name and bring it into view, zooming out only if it doesn't fit
+  const handleGoToObject = useCallback(({ groupId, id }: ObjectTarget) => {
+    if (groupId) {
+      handleLayerSelectChild(groupId, id);
+    } else {
+      handleLayerSelect(id, false);
+    }
+
+    const group = groupId ? objects.find(obj => obj.id === groupId) : null;
+    const target = findObjectInTree(objects, id);
+    if (!target || !viewportSize) return;
+    const bounds = group ? getChildBounds(group, target) : getObjectBounds(target);
+    setView(fitBounds(bounds, viewportSize, view.zoom));
+  }, [objects, view.zoom, viewportSize, handleLayerSelect, handleLayerSelectChild]);
+
+  const hasSelection = selectedScopeObjects.length > 0;
+  const canAlign = alignReference === 'page' ? alignTargets.length >= 1 : alignTargets.length >= 2;
+  const guidesLocked = guides.length > 0 && guides.every(guide => guide.locked);
+
+  // Every editor command with its current state, for the menubar, toolbar and command palette
+  const commandList: CommandRegistry = {
+    'file.new': { label: 'New…', run: handleNew },
+    'file.open': { label: 'Open…', run: () => openInputRef.current?.click() },
+    'file.import': { label: 'Import Image or SVG…', run: () => importInputRef.current?.click() },
+    'file.save': { label: 'Save', run: handleSave },
+    'file.saveAs': { label: 'Save As…', run: () => setIsSaveAsOpen(true) },
+    'file.export': { label: 'Export…', run: () => handleOpenExport() },
+    'file.exportSelection': {
+      label: 'Export Selection…',
+      disabled: !hasSelection || !!enteredGroup,
+      run: () => handleOpenExport('selection')
+    },
+    'file.pageSize': { label: 'Page Size…', run: () => setPageDialogMode('resize') },
+    'edit.undo': { label: 'Undo', disabled: !canUndo(history), run: handleUndo },
+    'edit.redo': { label: 'Redo', disabled: !canRedo(history), run: handleRedo },
+    'edit.cut': { label: 'Cut', disabled: !hasSelection, run: handleCut },
+    'edit.copy': { label: 'Copy', disabled: !hasSelection, run: handleCopy },
+    'edit.paste': { label: 'Paste', run: () => handlePasteCommand(false) },
+    'edit.pasteInPlace': { label: 'Paste in Place', run: () => handlePasteCommand(true) },
+    'edit.duplicate': { label: 'Duplicate', disabled: !hasSelection, run: handleDuplicate },
+    'edit.delete': { label: 'Delete', disabled: !hasSelection, run: handleDelete },
+    'edit.selectAll': { label: 'Select All', disabled: !scopeObjects.some(isInteractive), run: handleSelectAll },
+    'object.group': { label: 'Group', disabled: !!enteredGroup || selectedIds.length < 2, run: handleMerge },
+    'object.ungroup': {
+      label: 'Ungroup',
+      disabled: !selectedScopeObjects.some(obj => obj.type === 'merged' && obj.children),
+      run: handleUngroup
+    },
+    'object.exitGroup': { label: 'Exit Group', disabled: !enteredGroup, run: handleExitGroup },
+    ...mapCommands(Z_ORDER_LABELS, command => `object.arrange.${command}` as const, command => ({
+      label: Z_ORDER_LABELS[command],
+      disabled: !hasSelection,
+      run: () => handleZOrder(command)
+    })),
+    ...mapCommands(ALIGN_LABELS, edge => `object.align.${edge}` as const, edge => ({
+      label: `Align ${ALIGN_LABELS[edge]}`,
+      disabled: !canAlign,
+      run: () => handleAlign(edge)
+    })),
+    ...mapCommands(DISTRIBUTE_LABELS, mode => `object.distribute.${mode}` as const, mode => ({
+      label: `Distribute ${DISTRIBUTE_LABELS[mode]}`,
+      disabled: alignTargets.length < MIN_DISTRIBUTE_COUNT,
+      run: () => handleDistribute(mode)
+    })),
+    'object.flip.horizontal': { label: 'Flip Horizontal', disabled: alignTargets.length === 0, run: () => handleFlip('horizontal') },
+    'object.flip.vertical': { label: 'Flip Vertical', disabled: alignTargets.length === 0, run: () => handleFlip('vertical') },
+    ...mapCommands(NUDGE_LABELS, direction => `object.nudge.${direction}` as const, direction => ({
+      label: `Nudge ${NUDGE_LABELS[direction]}`,
+      disabled: alignTargets.length === 0,
+      run: () => handleNudge(direction, NUDGE_DISTANCE)
+    })),
+    ...mapCommands(NUDGE_LABELS, direction => `object.bigNudge.${direction}` as const, direction => ({
+      label: `Nudge ${NUDGE_LABELS[direction]} ${BIG_NUDGE_DISTANCE}px`,
+      disabled: alignTargets.length === 0,
+      run: () => handleNudge(direction, BIG_NUDGE_DISTANCE)
+    })),
+    ...mapCommands(BOOLEAN_OPERATION_LABELS, operation => `object.combine.${operation}` as const, operation => ({
+      label: BOOLEAN_OPERATION_LABELS[operation],
+      disabled: !canCombineShapes,
+      run: () => handleBooleanOperation(operation)
+    })),
+    'object.lock': {
+      label: hasSelection && selectedScopeObjects.every(obj => obj.locked) ? 'Unlock' : 'Lock',
+      disabled: !hasSelection,
+      run: handleToggleSelectionLocked
+    },
+    'object.hide': { label: 'Hide', disabled: !hasSelection, run: handleHideSelection },
+    'object.rasterize': { label: 'Rasterize', disabled: !hasSelection, run: handleRasterize },
+    ...mapCommands(SHAPE_LABELS, type => `insert.${type}` as const, type => ({
+      label: `Insert ${SHAPE_LABELS[type]}`,
+      run: () => handleInsertShape(type)
+    })),
+    ...mapCommands(TOOL_LABELS, tool => `tool.${tool}` as const, tool => ({
+      label: TOOL_LABELS[tool],
+      run: () => handleToolChange(tool)
+    })),
+    'view.zoomIn': { label: 'Zoom In', disabled: view.zoom >= MAX_ZOOM, run: handleZoomIn },
+    'view.zoomOut': { label: 'Zoom Out', disabled: view.zoom <= MIN_ZOOM, run: handleZoomOut },
+    ...mapCommands(ZOOM_PRESETS, zoom => `view.zoomTo.${zoom}` as const, zoom => ({
+      label: `Zoom to ${zoom}%`,
+      run: () => handleZoomTo(zoom)
+    })),
+    'view.zoomToFit': { label: 'Zoom to Fit', run: handleZoomToFit },
+    'view.zoomToSelection': { label: 'Zoom to Selection', disabled: !hasSelection, run: handleZoomToSelection },
+    'view.infiniteCanvas': { label: 'Infinite Canvas', checked: infiniteCanvas, run: () => setInfiniteCanvas(prev => !prev) },
+    'view.grid': {
+      label: 'Show Grid',
+      checked: snapSettings.showGrid,
+      run: () => setSnapSettings(prev => ({ ...prev, showGrid: !prev.showGrid }))
+    },
+    'view.snapToGrid': {
+      label: 'Snap to Grid',
+      checked: snapSettings.snapToGrid,
+      run: () => setSnapSettings(prev => ({ ...prev, snapToGrid: !prev.snapToGrid }))
+    },
+    'view.smartGuides': {
+      label: 'Smart Guides',
+      checked: snapSettings.smartGuides,
+      run: () => setSnapSettings(prev => ({ ...prev, smartGuides: !prev.smartGuides }))
+    },
+    'view.rulers': { label: 'Show Rulers', checked: showRulers, run: () => setShowRulers(prev => !prev) },
+    'view.guides': { label: 'Show Guides', checked: showGuides, run: () => setShowGuides(prev => !prev) },
+    'view.lockGuides': {
+      label: 'Lock Guides',
+      checked: guidesLocked,
+      disabled: guides.length === 0,
+      run: () => handleGuidesChange(guides.map(guide => ({ ...guide, locked: !guidesLocked })), guidesLocked ? 'Unlock Guides' : 'Lock Guides')
+    },
+    'view.clearGuides': { label: 'Clear Guides', disabled: guides.length === 0, run: () => handleGuidesChange([], 'Clear Guides') },
+    'view.layersPanel': { label: 'Layers Panel', checked: showLayersPanel, run: () => setShowLayersPanel(prev => !prev) },
+    'view.propertiesPanel': { label: 'Properties Panel', checked: showPropertiesPanel, run: () => setShowPropertiesPanel(prev => !prev) },
+    'view.historyPanel': { label: 'History Panel', checked: showHistoryPanel, run: () => setShowHistoryPanel(prev => !prev) },
+    'help.commandPalette': { label: 'Command Palette…', run: () => setIsPaletteOpen(true) },
+    'help.shortcuts': { label: 'Keyboard Shortcuts', run: () => setIsShortcutsOpen(true) },
+    'help.keymap': { label: 'Customize Shortcuts…', run: () => setIsKeymapOpen(true) },
+    'help.about': {
+      label: 'About ShapeCanvas Editor',
+      run: () => toast('ShapeCanvas Editor', { description: 'A vector and raster drawing editor built with React components.' })
+    }
+  };
+
+  // Saved bindings can name commands this version doesn't have; only the registry's own are used, and
+  // saved again on the next change. The registry always has the same ids, so it isn't a dependency.
+  const keymap = useMemo(
+    () => Object.fromEntries(Object.entries(savedKeymap).filter(([id]) => id in commandList)) as Keymap,
+    [savedKeymap]
+  );
+
+  // Each command shows the first shortcut the keymap binds to it
+  const commands = mapCommands(
+    commandList,
+    id => id,
+    id => ({ ...commandList[id], shortcut: keymap[id]?.[0] })
+  );
+
+  // Shortcuts for the toolbar and align buttons' tooltips
+  const toolShortcuts = Object.fromEntries(
+    (Object.keys(TOOL_LABELS) as Tool[]).map(tool => [tool, commands[`tool.${tool}`].shortcut])
+  ) as Partial<Record<Tool, string>>;
+  const alignShortcuts = Object.fromEntries([
+    ...(Object.keys(ALIGN_LABELS) as AlignEdge[]).map(edge => [edge, commands[`object.align.${edge}`].shortcut]),
+    ...(Object.keys(DISTRIBUTE_LABELS) as DistributeMode[]).map(mode => [mode, commands[`object.distribute.${mode}`].shortcut])
+  ]) as Partial<Record<AlignEdge | DistributeMode, string>>;
+
+  const handleKeymapChange = useCallback((next: Keymap) => {
+    setKeymap(next);
+    saveKeymap(next);
+  }, []);
+
+  // Shortcuts run whatever the keymap binds them to, as the registry has it at the time of the key press
+  const commandsRef = useRef(commands);
+  commandsRef.current = commands;
+  const shortcutIndex = useMemo(() => getShortcutIndex(keymap), [keymap]);
+  const shortcutIndexRef = useRef(shortcutIndex);
+  shortcutIndexRef.current = shortcutIndex;
+
+  useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIds.length > 0) {
-        // Don't delete if user is typing in an input
-        if (document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA') {
-          return;
-        }
-        handleDelete();
+      // Keys belong to whatever is being typed in, and to open dialogs and menus
+      const target = e.target instanceof HTMLElement ? e.target : null;
+      if (
+        target &&
+        (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) ||
+          target.isContentEditable ||
+          target.closest('[role="dialog"], [role="menu"], [role="menubar"]'))
+      ) {
+        return;
       }
+
+      const shortcut = getEventShortcut(e);
+      const id = shortcut && shortcutIndexRef.current.get(shortcut);
+      if (!id) return;
+
+      if ((id === 'edit.paste' || id === 'edit.pasteInPlace') && NATIVE_PASTE_SHORTCUTS.includes(shortcut)) {
+        // The paste itself comes in the paste event that follows
+        pasteInPlaceRef.current = id === 'edit.pasteInPlace';
+        return;
+      }
+
+      // A disabled command leaves the key to the browser, so e.g. Ctrl+C still copies page text
+      const command = commandsRef.current[id];
+      if (!command || command.disabled) return;
+      e.preventDefault();
+      command.run();
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedIds, handleDelete]);
+  }, []);
+
+  // Paste arrives as an event, which can read what other applications put on the clipboard
+  useEffect(() => {
+    const handlePasteEvent = (e: ClipboardEvent) => {
+      if (document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA') {
+        return;
+      }
+      if (!e.clipboardData) return;
+
+      e.preventDefault();
+      const inPlace = pasteInPlaceRef.current;
+      pasteInPlaceRef.current = false;
+      readClipboardData(e.clipboardData).then(content => handlePaste(content, inPlace));
+    };
+
+    window.addEventListener('paste', handlePasteEvent);
+    return () => window.removeEventListener('paste', handlePasteEvent);
+  }, [handlePaste]);
 
   const selectedObject = selectedIds.length === 1 
-    ? objects.find(obj => obj.id === selectedIds[0]) 
+    ? scopeObjects.find(obj => obj.id === selectedIds[0]) 
     : null;
 
   return (
     <div className="flex flex-col h-screen bg-gray-100">
       <TopBar
-        onNew={handleNew}
-        onOpen={handleOpenImage}
-        onUndo={handleUndo}
-        onRedo={handleRedo}
-        onZoomIn={handleZoomIn}
-        onZoomOut={handleZoomOut}
-        onResetZoom={handleResetZoom}
-        zoom={zoom}
-        canUndo={historyIndex > 0}
-        canRedo={historyIndex < history.length - 1}
+        commands={commands}
+        zoom={view.zoom}
+        snapSettings={snapSettings}
+        onSnapSettingsChange={setSnapSettings}
+      />
+      <input
+        type="file"
+        ref={openInputRef}
+        onChange={handleOpen}
+        accept=".json,application/json,image/*"
+        style={{ display: 'none' }}
+      />
+      <input
+        type="file"
+        ref={importInputRef}
+        onChange={handleOpen}
+        accept="image/*,.svg"
+        style={{ display: 'none' }}
       />
       
       <div className="flex flex-1 overflow-hidden">
         <LeftToolPanel
           currentTool={currentTool}
-          onToolChange={setCurrentTool}
+          onToolChange={handleToolChange}
+          shortcuts={toolShortcuts}
         />
-        
-        <div className="flex-1 overflow-auto">
-          <Canvas
-            currentTool={currentTool}
+
+        {showLayersPanel && (
+          <LayersPanel
             objects={objects}
             selectedIds={selectedIds}
-            zoom={zoom}
-            eraserSize={eraserSize}
-            brushSize={brushSize}
-            brushColor={brushColor}
-            brushType={brushType}
-            brushOpacity={brushOpacity}
-            onObjectsChange={updateObjects}
-            onSelectedIdsChange={setSelectedIds}
+            enteredGroupId={enteredGroup ? enteredGroup.id : null}
+            onSelect={handleLayerSelect}
+            onSelectChild={handleLayerSelectChild}
+            onRename={handleLayerRename}
+            onToggleHidden={handleLayerToggleHidden}
+            onToggleLocked={handleLayerToggleLocked}
+            onReorder={handleLayerReorder}
           />
-        </div>
+        )}
         
-        <div className="w-64 border-l border-gray-200 bg-white overflow-auto">
-          <RightPropertiesPanel
-            currentTool={currentTool}
-            selectedObject={selectedObject}
-            selectedCount={selectedIds.length}
-            eraserSize={eraserSize}
-            onEraserSizeChange={setEraserSize}
-            onObjectUpdate={handleObjectUpdate}
-            onMerge={handleMerge}
-            onDelete={handleDelete}
-            brushSize={brushSize}
-            onBrushSizeChange={setBrushSize}
-            brushColor={brushColor}
-            onBrushColorChange={setBrushColor}
-            brushType={brushType}
-            onBrushTypeChange={setBrushType}
-            brushOpacity={brushOpacity}
-            onBrushOpacityChange={setBrushOpacity}
-          />
-        </div>
+        <CanvasContextMenu
+          target={scopeObjects.find(obj => obj.id === contextTargetId) ?? null}
+          selectionCount={selectedScopeObjects.length}
+          commands={commands}
+          onSelectAllOfType={handleSelectAllOfType}
+        >
+          <div className="flex-1 overflow-hidden">
+            <Canvas
+              currentTool={currentTool}
+              objects={objects}
+              selectedIds={selectedIds}
+              view={view}
+              pageSize={pageSize}
+              infiniteCanvas={infiniteCanvas}
+              snapSettings={snapSettings}
+              guides={guides}
+              showRulers={showRulers}
+              showGuides={showGuides}
+              eraserSize={eraserSize}
+              enteredGroupId={enteredGroup ? enteredGroup.id : null}
+              brushSize={brushSize}
+              brushColor={brushColor}
+              brushType={brushType}
+              brushOpacity={brushOpacity}
+              onObjectsChange={updateObjects}
+              onGestureStart={handleGestureStart}
+              onGestureEnd={handleGestureEnd}
+              onSelectedIdsChange={setSelectedIds}
+              onEnterGroup={handleEnterGroup}
+              onExitGroup={handleExitGroup}
+              onViewChange={setView}
+              onViewportResize={handleViewportResize}
+              onGuidesChange={handleGuidesChange}
+              onContextTargetChange={setContextTargetId}
+            />
+          </div>
+        </CanvasContextMenu>
+        
+        {(showPropertiesPanel || showHistoryPanel) && (
+          <div className="w-64 border-l border-gray-200 bg-white flex flex-col">
+            {showPropertiesPanel && (
+              <div className="flex-1 overflow-auto">
+                <RightPropertiesPanel
+                  currentTool={currentTool}
+                  selectedObject={selectedObject}
+                  selectedCount={selectedIds.length}
+                  eraserSize={eraserSize}
+                  onEraserSizeChange={setEraserSize}
+                  onObjectUpdate={handleObjectUpdate}
+                  onMerge={handleMerge}
+                  canCombineShapes={canCombineShapes}
+                  onBooleanOperation={handleBooleanOperation}
+                  onUngroup={handleUngroup}
+                  onDelete={handleDelete}
+                  shortcuts={{ ungroup: commands['object.ungroup'].shortcut, delete: commands['edit.delete'].shortcut }}
+                  align={{
+                    selectedObjects: alignTargets,
+                    reference: alignReference,
+                    onReferenceChange: setAlignReference,
+                    canAlignToPage: !enteredGroup,
+                    keyObjectId,
+                    onKeyObjectChange: setKeyObjectId,
+                    onAlign: handleAlign,
+                    onDistribute: handleDistribute,
+                    shortcuts: alignShortcuts
+                  }}
+                  brushSize={brushSize}
+                  onBrushSizeChange={setBrushSize}
+                  brushColor={brushColor}
+                  onBrushColorChange={setBrushColor}
+                  brushType={brushType}
+                  onBrushTypeChange={setBrushType}
+                  brushOpacity={brushOpacity}
+                  onBrushOpacityChange={setBrushOpacity}
+                />
+              </div>
+            )}
+            {showHistoryPanel && (
+              <HistoryPanel
+                history={history}
+                onJumpToStep={handleJumpToStep}
+                onLimitChange={handleHistoryLimitChange}
+              />
+            )}
+          </div>
+        )}
       </div>
 
       <div className="px-4 py-2 bg-white border-t border-gray-200 text-xs text-gray-500">
         Canvas rendered via React components • CanvasObject, SelectionBox, ToolsBar, PropertiesPanel
       </div>
+
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        initialRegion={exportInitialRegion}
+        objects={objects}
+        selectedIds={selectedIds}
+        pageSize={pageSize}
+      />
+
+      <PageSizeDialog
+        mode={pageDialogMode}
+        pageSize={pageSize}
+        onClose={() => setPageDialogMode(null)}
+        onCreate={handleCreateDocument}
+        onResize={handleResizePage}
+      />
+
+      <CommandPalette
+        open={isPaletteOpen}
+        onOpenChange={setIsPaletteOpen}
+        commands={commands}
+        objects={objects}
+        onGoToObject={handleGoToObject}
+      />
+
+      <ShortcutsDialog
+        open={isShortcutsOpen}
+        commands={commands}
+        keymap={keymap}
+        onClose={() => setIsShortcutsOpen(false)}
+        onCustomize={() => {
+          setIsShortcutsOpen(false);
+          setIsKeymapOpen(true);
+        }}
+      />
+
+      <KeymapDialog
+        open={isKeymapOpen}
+        commands={commands}
+        keymap={keymap}
+        onChange={handleKeymapChange}
+        onClose={() => setIsKeymapOpen(false)}
+      />
+
+      <SaveAsDialog
+        open={isSaveAsOpen}
+        documentName={documentName}
+        onClose={() => setIsSaveAsOpen(false)}
+        onSave={handleSaveAs}
+      />
+
+      <RecoveryDialog
+        sessions={recoverableSessions}
+        onRestore={handleRestoreSession}
+        onDiscard={handleDiscardSessions}
+        onClose={() => setRecoverableSessions([])}
+      />
+
+      <Toaster />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,142 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignHorizontalSpaceBetween,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  AlignVerticalSpaceBetween,
+  type LucideIcon
+} from 'lucide-react';
+import type { CanvasObject } from '../App';
+import { getLayerName } from '../utils/objectLabels';
+import {
+  ALIGN_LABELS,
+  DISTRIBUTE_LABELS,
+  MIN_DISTRIBUTE_COUNT,
+  type AlignEdge,
+  type AlignReference,
+  type DistributeMode
+} from '../utils/align';
+
+export interface AlignControlsProps {
+  selectedObjects: CanvasObject[];
+  reference: AlignReference;
+  onReferenceChange: (reference: AlignReference) => void;
+  canAlignToPage: boolean; // false inside a group, whose children don't share the page's space
+  keyObjectId: string | null;
+  onKeyObjectChange: (id: string) => void;
+  onAlign: (edge: AlignEdge) => void;
+  onDistribute: (mode: DistributeMode) => void;
+  shortcuts: Partial<Record<AlignEdge | DistributeMode, string>>; // from the keymap, for the button titles
+}
+
+const ALIGN_BUTTONS: { edge: AlignEdge; icon: LucideIcon }[] = [
+  { edge: 'left', icon: AlignStartVertical },
+  { edge: 'center', icon: AlignCenterVertical },
+  { edge: 'right', icon: AlignEndVertical },
+  { edge: 'top', icon: AlignStartHorizontal },
+  { edge: 'middle', icon: AlignCenterHorizontal },
+  { edge: 'bottom', icon: AlignEndHorizontal },
+];
+
+const DISTRIBUTE_BUTTONS: { mode: DistributeMode; icon: LucideIcon }[] = [
+  { mode: 'horizontal-centers', icon: AlignHorizontalDistributeCenter },
+  { mode: 'vertical-centers', icon: AlignVerticalDistributeCenter },
+  { mode: 'horizontal-gaps', icon: AlignHorizontalSpaceBetween },
+  { mode: 'vertical-gaps', icon: AlignVerticalSpaceBetween },
+];
+
+export function AlignControls({
+  selectedObjects,
+  reference,
+  onReferenceChange,
+  canAlignToPage,
+  keyObjectId,
+  onKeyObjectChange,
+  onAlign,
+  onDistribute,
+  shortcuts
+}: AlignControlsProps) {
+  const count = selectedObjects.length;
+  // A single object can only be aligned to the page
+  const canAlign = reference === 'page' ? count >= 1 : count >= 2;
+  const canDistribute = count >= MIN_DISTRIBUTE_COUNT;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-xs">Align to</Label>
+        <select
+          value={reference}
+          onChange={(e) => onReferenceChange(e.target.value as AlignReference)}
+          className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="selection">Selection</option>
+          <option value="page" disabled={!canAlignToPage}>Page</option>
+          <option value="key">Key object</option>
+        </select>
+      </div>
+
+      {reference === 'key' && count >= 2 && (
+        <div>
+          <Label className="text-xs">Key object (stays in place)</Label>
+          <select
+            value={keyObjectId ?? ''}
+            onChange={(e) => onKeyObjectChange(e.target.value)}
+            className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {selectedObjects.map(obj => (
+              <option key={obj.id} value={obj.id}>{getLayerName(obj)}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div>
+        <Label className="text-xs">Align</Label>
+        <div className="flex gap-1 mt-2">
+          {ALIGN_BUTTONS.map(({ edge, icon: Icon }) => (
+            <Button
+              key={edge}
+              variant="outline"
+              size="icon"
+              disabled={!canAlign}
+              onClick={() => onAlign(edge)}
+              title={`Align ${ALIGN_LABELS[edge]}${shortcuts[edge] ? ` (${shortcuts[edge]})` : ''}`}
+            >
+              <Icon className="size-4" />
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <Label className="text-xs">Distribute</Label>
+        <div className="flex gap-1 mt-2">
+          {DISTRIBUTE_BUTTONS.map(({ mode, icon: Icon }) => (
+            <Button
+              key={mode}
+              variant="outline"
+              size="icon"
+              disabled={!canDistribute}
+              onClick={() => onDistribute(mode)}
+              title={`Distribute ${DISTRIBUTE_LABELS[mode]}${shortcuts[mode] ? ` (${shortcuts[mode]})` : ''}`}
+            >
+              <Icon className="size-4" />
+            </Button>
+          ))}
+        </div>
+        {!canDistribute && (
+          <p className="text-xs text-gray-500 mt-2">Select at least {MIN_DISTRIBUTE_COUNT} objects to distribute them.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,105 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import type { CanvasObject, Tool } from '../App';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import type { CanvasObject, PathNode, SubPath, Tool, Transform } from '../App';
+import { drawObject as drawCanvasObject, type ImageCache } from '../utils/drawObject';
+import { getObjectTypeName } from '../utils/objectLabels';
+import {
+  applyGroupTransform,
+  getChildBounds,
+  getGroupMatrix,
+  getGroupScale,
+  replaceGroupChildren,
+  worldToGroup
+} from '../utils/groups';
+import { isInteractive } from '../utils/layers';
+import { createShapeObject, type ShapeType } from '../utils/shapes';
+import { mapSubPaths, traceSubPaths } from '../utils/pathGeometry';
+import {
+  convertNode,
+  createPathObject,
+  deleteNode,
+  findPathPartAt,
+  findSegmentAt,
+  fromPathSpace,
+  getLocalSubPaths,
+  insertNode,
+  moveAnchor,
+  moveHandle,
+  setLocalSubPaths,
+  toPathSpace,
+  type NodeRef,
+  type PathPart
+} from '../utils/pathEditing';
+import { createTextObject, fitTextBox, getTextFont, type TextData } from '../utils/text';
+import {
+  getFlipScale,
+  getObjectBounds,
+  getObjectsBounds,
+  getSelectionBox,
+  isPointInBounds,
+  mergeBounds,
+  rotateObjectAbout,
+  scaleObjectBetween,
+  translateObject,
+  type Bounds
+} from '../utils/geometry';
+import { createGuide, findGuideAt, type GuideLine } from '../utils/guides';
+import {
+  getGridStep,
+  snapBoxToGuides,
+  snapEdgeToGuides,
+  snapPointToGrid,
+  snapValueToGrid,
+  SNAP_THRESHOLD,
+  type SnapGuide,
+  type SnapSettings,
+  type SnapTargets
+} from '../utils/snapping';
+import type { PageSize } from '../utils/pageSize';
+import {
+  getVisibleBounds,
+  screenToWorld,
+  zoomAt,
+  type ViewportSize,
+  type ViewState
+} from '../utils/viewport';
+import { Rulers, RULER_SIZE } from './Rulers';
+import { GuidesPopover } from './GuidesPopover';
 
 interface CanvasProps {
   currentTool: Tool;
   objects: CanvasObject[];
   selectedIds: string[];
-  zoom: number;
+  view: ViewState;
+  pageSize: PageSize;
+  infiniteCanvas: boolean; // objects may be placed outside the page
+  snapSettings: SnapSettings;
+  guides: GuideLine[];
+  showRulers: boolean;
+  showGuides: boolean; // hidden guides are neither drawn nor snapped to
   eraserSize: number;
-  onObjectsChange: (objects: CanvasObject[]) => void;
+  enteredGroupId: string | null; // merged object whose children are being edited in isolation
+  onObjectsChange: (objects: CanvasObject[], label?: string) => void;
+  onGestureStart: () => void;
+  onGestureEnd: (verb: string) => void;
   onSelectedIdsChange: (ids: string[]) => void;
+  onEnterGroup: (groupId: string) => void;
+  onExitGroup: () => void;
+  onViewChange: (view: ViewState) => void;
+  onViewportResize: (size: ViewportSize) => void;
+  onGuidesChange: (guides: GuideLine[], label: string) => void;
+  onContextTargetChange: (id: string | null) => void; // object under the pointer when the context menu opens
   brushSize?: number;
   brushColor?: string;
   brushType?: 'normal' | 'spray' | 'marker';
   brushOpacity?: number;
 }
 
-const CANVAS_WIDTH = 1200;
-const CANVAS_HEIGHT = 800;
+// Text being typed in the overlay editor; it is only written to the document when editing ends
+interface TextEdit {
+  object: CanvasObject;
+  isNew: boolean;
+  groupId: string | null; // group the text is a child of
+}
 
 // Generate spray particles for a path (called once when creating the object)
 const generateSprayParticles = (
@@ -58,59 +141,490 @@ const generateSprayParticles = (
   return particles;
 };
 
+// Selection handle geometry in screen pixels; it keeps this size at any zoom
+const HANDLE_SIZE = 8;
+const ROTATE_HANDLE_OFFSET = 30;
+const ROTATE_HANDLE_RADIUS = 6;
+
+// Path anchor size, and how close the pointer must come to an anchor, handle or segment to pick it, in screen pixels
+const PATH_POINT_SIZE = 7;
+const PATH_HIT_TOLERANCE = 6;
+// Screen pixels a pen click must be dragged before it pulls out handles rather than placing a corner
+const PEN_DRAG_THRESHOLD = 3;
+
+// What a click does with tools that aren't obvious, shown above the canvas while they are picked
+const TOOL_HINTS: Partial<Record<Tool, string>> = {
+  pen: 'Click to add corners, drag to pull out curves • Click the first point to close • Enter or Esc to finish',
+  directSelect: 'Drag points and handles (Alt breaks a smooth point) • Click a segment to add a point • Alt+click a point to convert it • Del removes it'
+};
+
+// Grid lines closer together than this many screen pixels are not drawn
+const MIN_GRID_SPACING = 6;
+
+// Major and minor grid lines over `area`, beneath the objects
+const drawGrid = (ctx: CanvasRenderingContext2D, area: Bounds, settings: SnapSettings, screenUnit: number) => {
+  const minorStep = getGridStep(settings);
+  const levels = [
+    { step: minorStep, color: 'rgba(15, 23, 42, 0.05)' },
+    { step: settings.gridSize, color: 'rgba(15, 23, 42, 0.12)' }
+  ];
+
+  ctx.save();
+  ctx.lineWidth = screenUnit;
+  levels.forEach(({ step, color }) => {
+    if (step / screenUnit < MIN_GRID_SPACING) return;
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    for (let x = Math.ceil(area.x / step) * step; x <= area.x + area.width; x += step) {
+      ctx.moveTo(x, area.y);
+      ctx.lineTo(x, area.y + area.height);
+    }
+    for (let y = Math.ceil(area.y / step) * step; y <= area.y + area.height; y += step) {
+      ctx.moveTo(area.x, y);
+      ctx.lineTo(area.x + area.width, y);
+    }
+    ctx.stroke();
+  });
+  ctx.restore();
+};
+
+// Smart guides: alignment lines, and equal-spacing marks labelled with the gap
+const drawSnapGuides = (ctx: CanvasRenderingContext2D, guides: SnapGuide[], screenUnit: number) => {
+  ctx.save();
+  ctx.strokeStyle = '#ec4899';
+  ctx.fillStyle = '#ec4899';
+  ctx.lineWidth = screenUnit;
+  ctx.font = `${11 * screenUnit}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+
+  // Points are given along the guide's axis; flip them for vertical spacing marks
+  const point = (axis: 'x' | 'y', along: number, across: number) =>
+    axis === 'x' ? { x: along, y: across } : { x: across, y: along };
+
+  guides.forEach(guide => {
+    ctx.beginPath();
+    if (guide.type === 'line') {
+      const start = point(guide.axis === 'x' ? 'y' : 'x', guide.from, guide.position);
+      const end = point(guide.axis === 'x' ? 'y' : 'x', guide.to, guide.position);
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+      return;
+    }
+
+    const tick = 4 * screenUnit;
+    guide.segments.forEach(segment => {
+      const start = point(guide.axis, segment.from, segment.at);
+      const end = point(guide.axis, segment.to, segment.at);
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      [segment.from, segment.to].forEach(along => {
+        const a = point(guide.axis, along, segment.at - tick);
+        const b = point(guide.axis, along, segment.at + tick);
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+      });
+      const label = point(guide.axis, (segment.from + segment.to) / 2, segment.at - tick);
+      ctx.fillText(String(Math.round(segment.to - segment.from)), label.x, label.y);
+    });
+    ctx.stroke();
+  });
+  ctx.restore();
+};
+
+// Screen pixels from a guide within which it can be grabbed
+const GUIDE_HIT_TOLERANCE = 4;
+
+// Ruler guides, across the visible area
+const drawRulerGuides = (ctx: CanvasRenderingContext2D, guides: GuideLine[], area: Bounds, screenUnit: number) => {
+  ctx.save();
+  ctx.lineWidth = screenUnit;
+  guides.forEach(guide => {
+    ctx.strokeStyle = guide.locked ? 'rgba(6, 182, 212, 0.5)' : '#06b6d4';
+    ctx.beginPath();
+    if (guide.axis === 'x') {
+      ctx.moveTo(guide.position, area.y);
+      ctx.lineTo(guide.position, area.y + area.height);
+    } else {
+      ctx.moveTo(area.x, guide.position);
+      ctx.lineTo(area.x + area.width, guide.position);
+    }
+    ctx.stroke();
+  });
+  ctx.restore();
+};
+
+// Path anchors as squares (the active one filled) over their handles, drawn as dots on stalks
+const drawPathPoints = (
+  ctx: CanvasRenderingContext2D,
+  subpaths: SubPath[],
+  unit: number,
+  active: NodeRef | null = null
+) => {
+  const size = PATH_POINT_SIZE * unit;
+  ctx.save();
+  ctx.strokeStyle = '#3b82f6';
+  ctx.fillStyle = '#3b82f6';
+  ctx.lineWidth = unit;
+  subpaths.forEach(subpath => {
+    subpath.nodes.forEach(node => {
+      [node.handleIn, node.handleOut].forEach(handle => {
+        if (!handle) return;
+        ctx.beginPath();
+        ctx.moveTo(node.x, node.y);
+        ctx.lineTo(handle.x, handle.y);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(handle.x, handle.y, size / 2, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    });
+  });
+  subpaths.forEach((subpath, i) => {
+    subpath.nodes.forEach((node, j) => {
+      ctx.fillStyle = active?.subpath === i && active.node === j ? '#3b82f6' : '#ffffff';
+      ctx.fillRect(node.x - size / 2, node.y - size / 2, size, size);
+      ctx.strokeRect(node.x - size / 2, node.y - size / 2, size, size);
+    });
+  });
+  ctx.restore();
+};
+
+// Ctrl+wheel and pinch zoom speed, per pixel of wheel delta
+const WHEEL_ZOOM_SPEED = 0.002;
+// Wheel deltas reported in lines (Firefox) are converted to pixels
+const WHEEL_LINE_HEIGHT = 16;
+
 export function Canvas({
   currentTool,
   objects,
   selectedIds,
-  zoom,
+  view,
+  pageSize,
+  infiniteCanvas,
+  snapSettings,
+  guides,
+  showRulers,
+  showGuides,
   eraserSize,
+  enteredGroupId,
   brushSize,
   brushColor,
   brushType,
   brushOpacity,
   onObjectsChange,
-  onSelectedIdsChange
+  onGestureStart,
+  onGestureEnd,
+  onSelectedIdsChange,
+  onEnterGroup,
+  onExitGroup,
+  onViewChange,
+  onViewportResize,
+  onGuidesChange,
+  onContextTargetChange
 }: CanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewportSize, setViewportSize] = useState<ViewportSize>({ width: 0, height: 0 });
+  const [pixelRatio, setPixelRatio] = useState(() => window.devicePixelRatio || 1);
+  // Space held down turns the next drag into a pan
+  const [isSpaceDown, setIsSpaceDown] = useState(false);
+  // Pointer and view offset when a pan began
+  const [panStart, setPanStart] = useState<{ screenX: number; screenY: number; viewX: number; viewY: number } | null>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [currentPath, setCurrentPath] = useState<{ x: number; y: number }[]>([]);
   const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
-  const [dragOffset, setDragOffset] = useState<{ x: number; y: number } | null>(null);
   const [resizeHandle, setResizeHandle] = useState<string | null>(null);
-  const [rotateStart, setRotateStart] = useState<{ x: number; y: number } | null>(null);
-  const [initialRotation, setInitialRotation] = useState(0);
+  // Selection box, pointer and selected objects (in scope coordinates) when a move, resize or
+  // rotation began; the gesture is applied to these, so snapping doesn't accumulate drift
+  const [transformOrigin, setTransformOrigin] = useState<{ box: Transform; pointer: { x: number; y: number }; objects: CanvasObject[] } | null>(null);
+  // The selection box as a resize or rotation has left it, so its handles follow the pointer
+  const [gestureBox, setGestureBox] = useState<Transform | null>(null);
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
+  // Ruler guide being dragged (id null for a new one pulled out of a ruler); `removing` while it is over a ruler
+  const [guideDrag, setGuideDrag] = useState<{ id: string | null; axis: 'x' | 'y'; position: number; removing: boolean } | null>(null);
+  const [hoveredGuideAxis, setHoveredGuideAxis] = useState<'x' | 'y' | null>(null);
   const [marqueeStart, setMarqueeStart] = useState<{ x: number; y: number } | null>(null);
   const [marqueeCurrent, setMarqueeCurrent] = useState<{ x: number; y: number } | null>(null);
   const [mousePosition, setMousePosition] = useState<{ x: number; y: number } | null>(null); // Track mouse for custom cursor
   const [shapeStart, setShapeStart] = useState<{ x: number; y: number } | null>(null);
   const [shapeCurrent, setShapeCurrent] = useState<{ x: number; y: number } | null>(null);
+  const [textEdit, setTextEdit] = useState<TextEdit | null>(null);
+  // The same, updated synchronously so editing ends only once when a click and a blur both end it
+  const textEditRef = useRef<TextEdit | null>(null);
+  const textInputRef = useRef<HTMLTextAreaElement>(null);
+  // Path the pen tool is laying down, in document coordinates, and the anchor a drag is pulling handles out of
+  const [penPath, setPenPath] = useState<SubPath | null>(null);
+  const [penDragIndex, setPenDragIndex] = useState<number | null>(null);
+  // Anchor the direct selection tool last picked, which Delete removes
+  const [activeNode, setActiveNode] = useState<(NodeRef & { objectId: string }) | null>(null);
+  // Anchor or handle being dragged, and its path as it was when the drag began
+  const [nodeDrag, setNodeDrag] = useState<(NodeRef & { part: PathPart; origin: CanvasObject }) | null>(null);
   const [, setForceUpdate] = useState(0); // To force re-render when images load
   
   // Cache for loaded images
-  const imageCache = useRef<Map<string, HTMLImageElement>>(new Map());
+  const imageCache = useRef<ImageCache>(new Map());
+  // Verb ("Move", "Erase"...) of the gesture in progress; its changes become one undo step
+  const gestureVerb = useRef<string | null>(null);
+
+  // While a group is entered, the select tool works on its children in the group's own coordinates
+  const enteredGroup = enteredGroupId
+    ? objects.find(obj => obj.id === enteredGroupId && obj.type === 'merged' && obj.children) ?? null
+    : null;
+  const scopeObjects = enteredGroup ? enteredGroup.children! : objects;
+  const toScope = (point: { x: number; y: number }) => (enteredGroup ? worldToGroup(enteredGroup, point) : point);
+  const commitScope = (newScopeObjects: CanvasObject[], label?: string) => {
+    onObjectsChange(enteredGroup ? replaceGroupChildren(objects, enteredGroup.id, newScopeObjects) : newScopeObjects, label);
+  };
 
-  const getCanvasCoords = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+  const visibleGuides = useMemo(() => (showGuides ? guides : []), [showGuides, guides]);
+
+  // Text being edited is shown by the overlay editor instead
+  const editingTextId = textEdit?.object.id ?? null;
+  const renderedObjects = useMemo(() => {
+    if (!editingTextId) return objects;
+    const hideEditing = (list: CanvasObject[]): CanvasObject[] =>
+      list.map(obj => {
+        if (obj.id === editingTextId) return { ...obj, hidden: true };
+        return obj.children ? { ...obj, children: hideEditing(obj.children) } : obj;
+      });
+    return hideEditing(objects);
+  }, [objects, editingTextId]);
+
+  const updateTextEdit = (edit: TextEdit | null) => {
+    textEditRef.current = edit;
+    setTextEdit(edit);
+  };
+
+  // Top-level text is edited from the text tool; a group's text by double-clicking it inside the group
+  const startTextEdit = (object: CanvasObject, isNew: boolean, groupId: string | null = null) => {
+    updateTextEdit({ object, isNew, groupId });
+  };
+
+  // Write the edited text back: new text is added, emptied text removed, changed text replaced
+  const commitTextEdit = () => {
+    const edit = textEditRef.current;
+    if (!edit) return;
+    updateTextEdit(null);
+
+    const edited = edit.object;
+    const group = edit.groupId ? objects.find(obj => obj.id === edit.groupId && obj.children) : null;
+    const list = group ? group.children! : objects;
+    const commit = (newList: CanvasObject[], label: string) =>
+      onObjectsChange(group ? replaceGroupChildren(objects, group.id, newList) : newList, label);
+    const isEmpty = edited.data.text.trim() === '';
+
+    if (edit.isNew) {
+      if (isEmpty) return;
+      commit([...list, edited], 'Add Text');
+      if (!enteredGroup) onSelectedIdsChange([edited.id]);
+    } else if (isEmpty) {
+      commit(list.filter(obj => obj.id !== edited.id), 'Delete Text');
+      onSelectedIdsChange(selectedIds.filter(id => id !== edited.id));
+    } else {
+      const original = list.find(obj => obj.id === edited.id);
+      if (!original || original.data.text === edited.data.text) return;
+      commit(list.map(obj => (obj.id === edited.id ? edited : obj)), 'Edit Text');
+    }
+  };
+
+  const handleTextInput = (text: string) => {
+    const edit = textEditRef.current;
+    if (!edit) return;
+    updateTextEdit({ ...edit, object: fitTextBox({ ...edit.object, data: { ...edit.object.data, text } }) });
+  };
+
+  // Existing text starts out selected, so typing replaces it
+  useEffect(() => {
+    if (!editingTextId) return;
+    textInputRef.current?.focus();
+    textInputRef.current?.select();
+  }, [editingTextId]);
+
+  // Selected objects the select tool can move, resize and rotate together, and the box that carries their handles
+  const transformableObjects = useMemo(
+    () => scopeObjects.filter(obj => selectedIds.includes(obj.id) && isInteractive(obj)),
+    [scopeObjects, selectedIds]
+  );
+  const selectionBox = useMemo(
+    () => gestureBox ?? getSelectionBox(transformableObjects),
+    [gestureBox, transformableObjects]
+  );
+  // The path the direct selection tool shows the anchors and handles of
+  const editedPath =
+    currentTool === 'directSelect' && transformableObjects.length === 1 && transformableObjects[0].type === 'path'
+      ? transformableObjects[0]
+      : null;
+
+  // Document units per screen pixel, for anything that should keep its on-screen size at every zoom
+  const screenUnit = 100 / view.zoom;
+  // The same in the coordinates of the objects being edited, which a group scales
+  const scopeUnit = enteredGroup ? screenUnit / getGroupScale(enteredGroup) : screenUnit;
+
+  // Document coordinates -> backing store pixels. The backing store has devicePixelRatio pixels
+  // per CSS pixel, so drawing through this stays sharp on HiDPI screens and at any zoom.
+  const viewMatrix = useMemo(() => {
+    const scale = (view.zoom / 100) * pixelRatio;
+    return new DOMMatrix([scale, 0, 0, scale, view.x * pixelRatio, view.y * pixelRatio]);
+  }, [view, pixelRatio]);
+
+  const startGesture = useCallback((verb: string) => {
+    gestureVerb.current = verb;
+    onGestureStart();
+  }, [onGestureStart]);
+
+  const endGesture = useCallback(() => {
+    if (!gestureVerb.current) return;
+    onGestureEnd(gestureVerb.current);
+    gestureVerb.current = null;
+  }, [onGestureEnd]);
+
+  // Add the pen's path to the document; a lone anchor isn't a path and is dropped
+  const finishPenPath = () => {
+    if (penPath && penPath.nodes.length >= 2) {
+      const newObject = createPathObject(penPath);
+      if (newObject) {
+        onObjectsChange([...objects, newObject], `Add ${getObjectTypeName(newObject)}`);
+        onSelectedIdsChange([newObject.id]);
+      }
+    }
+    setPenPath(null);
+    setPenDragIndex(null);
+  };
+
+  // Remove the picked anchor from the edited path, and the path once it has no segments left
+  const deleteActiveNode = () => {
+    if (!editedPath || activeNode?.objectId !== editedPath.id) return;
+    const subpaths = deleteNode(getLocalSubPaths(editedPath), activeNode);
+    setActiveNode(null);
+    if (subpaths.length === 0) {
+      commitScope(scopeObjects.filter(obj => obj.id !== editedPath.id), `Delete ${getObjectTypeName(editedPath)}`);
+      onSelectedIdsChange([]);
+    } else {
+      const updated = setLocalSubPaths(editedPath, subpaths);
+      commitScope(scopeObjects.map(obj => (obj.id === updated.id ? updated : obj)), 'Delete Anchor Point');
+    }
+  };
+
+  // Switching tools finishes the pen's path and lets go of the picked anchor
+  useEffect(() => {
+    if (currentTool !== 'pen') finishPenPath();
+    if (currentTool !== 'directSelect') setActiveNode(null);
+  }, [currentTool]);
+
+  // Keys for the path being drawn or edited; true when the key was used. Read through a ref so the
+  // listener below always sees the current path.
+  const pathKeyHandlerRef = useRef<(e: KeyboardEvent) => boolean>(() => false);
+  pathKeyHandlerRef.current = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return false;
+    const isDelete = e.key === 'Delete' || e.key === 'Backspace';
+
+    if (currentTool === 'pen' && penPath) {
+      if (e.key === 'Enter' || e.key === 'Escape') {
+        finishPenPath();
+        return true;
+      }
+      if (isDelete) {
+        // Take back the last anchor
+        const nodes = penPath.nodes.slice(0, -1);
+        setPenPath(nodes.length > 0 ? { nodes, closed: false } : null);
+        setPenDragIndex(null);
+        return true;
+      }
+    }
+    if (currentTool === 'directSelect' && isDelete && editedPath && activeNode?.objectId === editedPath.id) {
+      deleteActiveNode();
+      return true;
+    }
+    return false;
+  };
+
+  // Listens in the capture phase so Enter, Esc and Delete reach the path before the editor's
+  // shortcuts (which would leave a group or delete the whole object)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || target?.isContentEditable) return;
+      if (pathKeyHandlerRef.current(e)) {
+        e.preventDefault();
+        e.stopPropagation();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, []);
+
+  // Snapping only applies at the top level: a group's children are positioned in the group's own
+  // (possibly rotated or scaled) space, which the grid and page don't line up with. Alt turns it off.
+  const canSnap = (e: React.MouseEvent) => !enteredGroup && !e.altKey;
+  const snapThreshold = SNAP_THRESHOLD * screenUnit;
+  const pageBounds: Bounds = { x: 0, y: 0, width: pageSize.width, height: pageSize.height };
+  // Shown ruler guides are always snapped to; visible objects that aren't being dragged and the page
+  // only when smart guides are on
+  const getSnapTargets = (): SnapTargets => ({
+    objects: snapSettings.smartGuides
+      ? objects.filter(obj => !obj.hidden && !selectedIds.includes(obj.id)).map(getObjectBounds)
+      : [],
+    page: snapSettings.smartGuides ? pageBounds : null,
+    guides: visibleGuides
+  });
+
+  const snapShapePoint = (point: { x: number; y: number }, e: React.MouseEvent) =>
+    canSnap(e) && snapSettings.snapToGrid ? snapPointToGrid(point, getGridStep(snapSettings)) : point;
+
+  // Snap one resized edge to guides, then the grid; `crossStart`/`crossSize` place its guide line
+  const snapEdge = (
+    value: number,
+    axis: 'x' | 'y',
+    crossStart: number,
+    crossSize: number,
+    shown: SnapGuide[]
+  ) => {
+    const snapped = snapEdgeToGuides(value, axis, crossStart, crossSize, getSnapTargets(), snapThreshold);
+    if (snapped) {
+      shown.push(...snapped.guides);
+      return snapped.value;
+    }
+    return snapSettings.snapToGrid ? snapValueToGrid(value, getGridStep(snapSettings)) : value;
+  };
+
+  // Pointer position in the viewport, in screen pixels
+  const getScreenCoords = useCallback((e: { clientX: number; clientY: number }) => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
-    
+
     const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    
-    return {
-      x: (e.clientX - rect.left) * scaleX,
-      y: (e.clientY - rect.top) * scaleY
-    };
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
   }, []);
 
+  // Pointer position in document coordinates, mapped back through the view transform used for drawing
+  const getCanvasCoords = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return { x: 0, y: 0 };
+
+    const rect = canvas.getBoundingClientRect();
+    const device = new DOMPoint(
+      (e.clientX - rect.left) * (canvas.width / (rect.width || 1)),
+      (e.clientY - rect.top) * (canvas.height / (rect.height || 1))
+    );
+    const point = viewMatrix.inverse().transformPoint(device);
+    return { x: point.x, y: point.y };
+  }, [viewMatrix]);
+
+  const isOnPage = (point: { x: number; y: number }) =>
+    point.x >= 0 && point.x <= pageSize.width && point.y >= 0 && point.y <= pageSize.height;
+
   const constrainToCanvas = useCallback((x: number, y: number, width: number, height: number) => {
+    if (infiniteCanvas) return { x, y, width, height };
     return {
-      x: Math.max(0, Math.min(x, CANVAS_WIDTH - width)),
-      y: Math.max(0, Math.min(y, CANVAS_HEIGHT - height)),
-      width: Math.min(width, CANVAS_WIDTH),
-      height: Math.min(height, CANVAS_HEIGHT)
+      x: Math.max(0, Math.min(x, pageSize.width - width)),
+      y: Math.max(0, Math.min(y, pageSize.height - height)),
+      width: Math.min(width, pageSize.width),
+      height: Math.min(height, pageSize.height)
     };
-  }, []);
+  }, [pageSize, infiniteCanvas]);
 
   const isPointInObject = useCallback((x: number, y: number, obj: CanvasObject): boolean => {
     const { x: ox, y: oy, width, height, rotation } = obj.transform;
@@ -118,7 +632,7 @@ export function Canvas({
     // For drawn objects, check if point is near the path
     if (obj.type === 'drawn' && obj.data.path) {
       const path = obj.data.path as { x: number; y: number }[];
-      const threshold = 15; // pixels threshold for selecting drawn paths
+      const threshold = 15 * scopeUnit; // screen pixels threshold for selecting drawn paths
       
       // Check distance to each line segment in the path
       for (let i = 0; i < path.length - 1; i++) {
@@ -184,11 +698,11 @@ export function Canvas({
     const rotatedY = dx * sin + dy * cos + centerY;
     
     return rotatedX >= ox && rotatedX <= ox + width && rotatedY >= oy && rotatedY <= oy + height;
-  }, []);
+  }, [scopeUnit]);
 
-  // Transform point from canvas space to object's local rotated space
-  const transformPointToObjectSpace = useCallback((x: number, y: number, obj: CanvasObject) => {
-    const { x: ox, y: oy, width, height, rotation } = obj.transform;
+  // Transform point from canvas space to a (possibly rotated) box's local space
+  const transformPointToBoxSpace = useCallback((x: number, y: number, box: Transform) => {
+    const { x: ox, y: oy, width, height, rotation } = box;
     const centerX = ox + width / 2;
     const centerY = oy + height / 2;
     
@@ -223,8 +737,10 @@ export function Canvas({
       const { x, y, width, height, rotation } = obj.transform;
       const originalWidth = obj.data.originalWidth || width;
       const originalHeight = obj.data.originalHeight || height;
-      const scaleX = width / originalWidth;
-      const scaleY = height / originalHeight;
+      // A flipped group mirrors its children, so its scale is negative on that axis
+      const flip = getFlipScale(obj.transform);
+      const scaleX = (width / originalWidth) * flip.x;
+      const scaleY = (height / originalHeight) * flip.y;
       
       // Calculate absolute transform considering parent
       let absX = x, absY = y, absRotation = rotation, absScaleX = scaleX, absScaleY = scaleY;
@@ -257,8 +773,8 @@ export function Canvas({
       const newChildren = obj.children.map(child => {
         const { x: cx, y: cy, width: cw, height: ch } = child.transform;
         
-        // Check if eraser is over this child (in local coordinates)
-        if (localX >= cx && localX <= cx + cw && localY >= cy && localY <= cy + ch) {
+        // Check if eraser is over this child (in local coordinates); hidden and locked children are left alone
+        if (isInteractive(child) && localX >= cx && localX <= cx + cw && localY >= cy && localY <= cy + ch) {
           // Recursively apply eraser (in case child is also a merged object)
           return applyEraserToObject(
             child,
@@ -311,7 +827,7 @@ export function Canvas({
         return {
           x: localX / ow,
           y: localY / oh,
-          size: eraserSize / Math.min(ow, oh) / psx
+          size: eraserSize / Math.min(ow, oh) / Math.abs(psx)
         };
       });
       
@@ -326,7 +842,7 @@ export function Canvas({
       localPath.push({
         x: localX / ow,
         y: localY / oh,
-        size: eraserSize / Math.min(ow, oh) / psx
+        size: eraserSize / Math.min(ow, oh) / Math.abs(psx)
       });
     } else {
       // No parent transform, use simple calculation
@@ -343,6 +859,16 @@ export function Canvas({
         size: eraserSize / Math.min(width, height)
       });
     }
+
+    // Erased areas are stored unflipped, like the rest of the object's contents
+    const flip = getFlipScale(obj.transform);
+    if (flip.x < 0 || flip.y < 0) {
+      localPath = localPath.map(point => ({
+        ...point,
+        x: flip.x < 0 ? 1 - point.x : point.x,
+        y: flip.y < 0 ? 1 - point.y : point.y
+      }));
+    }
     
     return {
       ...obj,
@@ -354,363 +880,16 @@ export function Canvas({
   }, []);
 
   const drawObject = useCallback((ctx: CanvasRenderingContext2D, obj: CanvasObject) => {
-    const { x, y, width, height, rotation } = obj.transform;
-    const { strokeColor, fillColor, strokeWidth, opacity } = obj.style;
-
-    // Handle merged objects - draw children in parent's coordinate space
-    if (obj.type === 'merged' && obj.children) {
-      ctx.save();
-      ctx.globalAlpha = opacity ?? 1;
-      
-      // Calculate scale based on current size vs original size
-      const originalWidth = obj.data.originalWidth || width;
-      const originalHeight = obj.data.originalHeight || height;
-      const scaleX = width / originalWidth;
-      const scaleY = height / originalHeight;
-      
-      // Apply parent's transform: translate -> rotate -> scale
-      ctx.translate(x + width / 2, y + height / 2);
-      ctx.rotate((rotation * Math.PI) / 180);
-      ctx.scale(scaleX, scaleY);
-      ctx.translate(-originalWidth / 2, -originalHeight / 2);
-      
-      // Draw each child with relative coordinates (in original scale)
-      obj.children.forEach(child => {
-        drawObject(ctx, child);
-      });
-      
-      ctx.restore();
-      return;
-    }
-
-    ctx.save();
-    ctx.translate(x + width / 2, y + height / 2);
-    ctx.rotate((rotation * Math.PI) / 180);
-    ctx.translate(-width / 2, -height / 2);
-
-    // Create a temporary canvas for this object to handle erasing
-    if (obj.data.erasedAreas && obj.data.erasedAreas.length > 0) {
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = width + 20;
-      tempCanvas.height = height + 20;
-      const tempCtx = tempCanvas.getContext('2d');
-      
-      if (tempCtx) {
-        tempCtx.translate(10, 10);
-        
-        // Draw the object on temp canvas
-        tempCtx.strokeStyle = strokeColor;
-        tempCtx.fillStyle = fillColor;
-        tempCtx.lineWidth = strokeWidth;
-        tempCtx.lineCap = 'round';
-        tempCtx.lineJoin = 'round';
-
-        if (obj.type === 'drawn' && obj.data.path) {
-          const path = obj.data.path as { x: number; y: number }[];
-          const brushType = obj.data.brushType || 'normal';
-          
-          if (brushType === 'spray' && obj.data.sprayParticles) {
-            // Spray effect: use pre-generated particles (NO random generation!)
-            tempCtx.fillStyle = strokeColor;
-            const particles = obj.data.sprayParticles as { x: number; y: number; size: number; alpha: number }[];
-            
-            particles.forEach(particle => {
-              tempCtx.globalAlpha = particle.alpha;
-              tempCtx.beginPath();
-              tempCtx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
-              tempCtx.fill();
-            });
-            tempCtx.globalAlpha = 1;
-          } else if (brushType === 'marker') {
-            // Marker effect: semi-transparent smooth stroke
-            tempCtx.globalAlpha = 0.6;
-            tempCtx.beginPath();
-            if (path.length > 0) {
-              const firstPoint = path[0];
-              tempCtx.moveTo(firstPoint.x - x, firstPoint.y - y);
-              for (let i = 1; i < path.length; i++) {
-                tempCtx.lineTo(path[i].x - x, path[i].y - y);
-              }
-              tempCtx.stroke();
-            }
-            tempCtx.globalAlpha = 1;
-          } else {
-            // Normal brush: regular stroke
-            tempCtx.beginPath();
-            if (path.length > 0) {
-              const firstPoint = path[0];
-              tempCtx.moveTo(firstPoint.x - x, firstPoint.y - y);
-              for (let i = 1; i < path.length; i++) {
-                tempCtx.lineTo(path[i].x - x, path[i].y - y);
-              }
-              tempCtx.stroke();
-            }
-          }
-        } else if (obj.type === 'rectangle') {
-          if (fillColor !== 'transparent') {
-            tempCtx.fillRect(0, 0, width, height);
-          }
-          tempCtx.strokeRect(0, 0, width, height);
-        } else if (obj.type === 'image') {
-          const imageUrl = obj.data.imageUrl;
-          const img = imageCache.current.get(imageUrl);
-          if (img && img.complete && img.naturalWidth > 0) {
-            tempCtx.drawImage(img, 0, 0, width, height);
-          }
-        } else if (obj.type === 'circle') {
-          tempCtx.beginPath();
-          tempCtx.arc(width / 2, height / 2, Math.min(width, height) / 2, 0, Math.PI * 2);
-          if (fillColor !== 'transparent') {
-            tempCtx.fill();
-          }
-          tempCtx.stroke();
-        } else if (obj.type === 'triangle') {
-          tempCtx.beginPath();
-          tempCtx.moveTo(width / 2, 0);
-          tempCtx.lineTo(width, height);
-          tempCtx.lineTo(0, height);
-          tempCtx.closePath();
-          if (fillColor !== 'transparent') {
-            tempCtx.fill();
-          }
-          tempCtx.stroke();
-        } else if (obj.type === 'polygon') {
-          const sides = 6;
-          const radius = Math.min(width, height) / 2;
-          const centerX = width / 2;
-          const centerY = height / 2;
-          
-          tempCtx.beginPath();
-          for (let i = 0; i < sides; i++) {
-            const angle = (i * 2 * Math.PI) / sides - Math.PI / 2;
-            const px = centerX + radius * Math.cos(angle);
-            const py = centerY + radius * Math.sin(angle);
-            if (i === 0) tempCtx.moveTo(px, py);
-            else tempCtx.lineTo(px, py);
-          }
-          tempCtx.closePath();
-          if (fillColor !== 'transparent') {
-            tempCtx.fill();
-          }
-          tempCtx.stroke();
-        } else if (obj.type === 'star') {
-          const spikes = 5;
-          const outerRadius = Math.min(width, height) / 2;
-          const innerRadius = outerRadius / 2;
-          const centerX = width / 2;
-          const centerY = height / 2;
-          
-          tempCtx.beginPath();
-          for (let i = 0; i < spikes * 2; i++) {
-            const radius = i % 2 === 0 ? outerRadius : innerRadius;
-            const angle = (i * Math.PI) / spikes - Math.PI / 2;
-            const px = centerX + radius * Math.cos(angle);
-            const py = centerY + radius * Math.sin(angle);
-            if (i === 0) tempCtx.moveTo(px, py);
-            else tempCtx.lineTo(px, py);
-          }
-          tempCtx.closePath();
-          if (fillColor !== 'transparent') {
-            tempCtx.fill();
-          }
-          tempCtx.stroke();
-        } else if (obj.type === 'line') {
-          tempCtx.beginPath();
-          tempCtx.moveTo(0, height / 2);
-          tempCtx.lineTo(width, height / 2);
-          tempCtx.stroke();
-        } else if (obj.type === 'image') {
-          const imageUrl = obj.data.imageUrl;
-          const img = imageCache.current.get(imageUrl);
-          if (img && img.complete && img.naturalWidth > 0) {
-            tempCtx.drawImage(img, 0, 0, width, height);
-          }
-        }
-
-        // Apply eraser using destination-out
-        tempCtx.globalCompositeOperation = 'destination-out';
-        obj.data.erasedAreas.forEach((area: { x: number; y: number; size: number }[]) => {
-          area.forEach(point => {
-            tempCtx.beginPath();
-            // Convert normalized coordinates (0-1) back to actual pixel coordinates
-            const actualX = point.x * width;
-            const actualY = point.y * height;
-            const actualSize = point.size * Math.min(width, height);
-            tempCtx.arc(actualX, actualY, actualSize / 2, 0, Math.PI * 2);
-            tempCtx.fillStyle = 'rgba(0,0,0,1)';
-            tempCtx.fill();
-          });
-        });
-
-        // Draw the temp canvas onto main canvas
-        ctx.globalAlpha = opacity ?? 1;
-        ctx.drawImage(tempCanvas, -10, -10);
-        ctx.globalAlpha = 1;
-      }
-    } else {
-      // Draw normally without eraser
-      ctx.strokeStyle = strokeColor;
-      ctx.fillStyle = fillColor;
-      ctx.lineWidth = strokeWidth;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      
-      // Apply object opacity
-      const objectOpacity = opacity ?? 1;
-
-      if (obj.type === 'drawn' && obj.data.path) {
-        const path = obj.data.path as { x: number; y: number }[];
-        const brushType = obj.data.brushType || 'normal';
-        
-        if (brushType === 'spray' && obj.data.sprayParticles) {
-          // Spray effect: use pre-generated particles (NO random generation!)
-          ctx.fillStyle = strokeColor;
-          const particles = obj.data.sprayParticles as { x: number; y: number; size: number; alpha: number }[];
-          
-          particles.forEach(particle => {
-            ctx.globalAlpha = particle.alpha * objectOpacity;
-            ctx.beginPath();
-            ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
-            ctx.fill();
-          });
-          ctx.globalAlpha = 1;
-        } else if (brushType === 'marker') {
-          // Marker effect: semi-transparent smooth stroke
-          ctx.globalAlpha = 0.6 * objectOpacity;
-          ctx.beginPath();
-          if (path.length > 0) {
-            const firstPoint = path[0];
-            ctx.moveTo(firstPoint.x - x, firstPoint.y - y);
-            for (let i = 1; i < path.length; i++) {
-              ctx.lineTo(path[i].x - x, path[i].y - y);
-            }
-            ctx.stroke();
-          }
-          ctx.globalAlpha = 1;
-        } else {
-          // Normal brush: regular stroke
-          ctx.globalAlpha = objectOpacity;
-          ctx.beginPath();
-          if (path.length > 0) {
-            const firstPoint = path[0];
-            ctx.moveTo(firstPoint.x - x, firstPoint.y - y);
-            for (let i = 1; i < path.length; i++) {
-              ctx.lineTo(path[i].x - x, path[i].y - y);
-            }
-            ctx.stroke();
-          }
-          ctx.globalAlpha = 1;
-        }
-      } else if (obj.type === 'rectangle') {
-        ctx.globalAlpha = objectOpacity;
-        if (fillColor !== 'transparent') {
-          ctx.fillRect(0, 0, width, height);
-        }
-        ctx.strokeRect(0, 0, width, height);
-        ctx.globalAlpha = 1;
-      } else if (obj.type === 'circle') {
-        ctx.globalAlpha = objectOpacity;
-        ctx.beginPath();
-        ctx.arc(width / 2, height / 2, Math.min(width, height) / 2, 0, Math.PI * 2);
-        if (fillColor !== 'transparent') {
-          ctx.fill();
-        }
-        ctx.stroke();
-        ctx.globalAlpha = 1;
-      } else if (obj.type === 'triangle') {
-        ctx.globalAlpha = objectOpacity;
-        ctx.beginPath();
-        ctx.moveTo(width / 2, 0);
-        ctx.lineTo(width, height);
-        ctx.lineTo(0, height);
-        ctx.closePath();
-        if (fillColor !== 'transparent') {
-          ctx.fill();
-        }
-        ctx.stroke();
-        ctx.globalAlpha = 1;
-      } else if (obj.type === 'polygon') {
-        ctx.globalAlpha = objectOpacity;
-        const sides = 6;
-        const radius = Math.min(width, height) / 2;
-        const centerX = width / 2;
-        const centerY = height / 2;
-        
-        ctx.beginPath();
-        for (let i = 0; i < sides; i++) {
-          const angle = (i * 2 * Math.PI) / sides - Math.PI / 2;
-          const px = centerX + radius * Math.cos(angle);
-          const py = centerY + radius * Math.sin(angle);
-          if (i === 0) ctx.moveTo(px, py);
-          else ctx.lineTo(px, py);
-        }
-        ctx.closePath();
-        if (fillColor !== 'transparent') {
-          ctx.fill();
-        }
-        ctx.stroke();
-        ctx.globalAlpha = 1;
-      } else if (obj.type === 'star') {
-        ctx.globalAlpha = objectOpacity;
-        const spikes = 5;
-        const outerRadius = Math.min(width, height) / 2;
-        const innerRadius = outerRadius / 2;
-        const centerX = width / 2;
-        const centerY = height / 2;
-        
-        ctx.beginPath();
-        for (let i = 0; i < spikes * 2; i++) {
-          const radius = i % 2 === 0 ? outerRadius : innerRadius;
-          const angle = (i * Math.PI) / spikes - Math.PI / 2;
-          const px = centerX + radius * Math.cos(angle);
-          const py = centerY + radius * Math.sin(angle);
-          if (i === 0) ctx.moveTo(px, py);
-          else ctx.lineTo(px, py);
-        }
-        ctx.closePath();
-        if (fillColor !== 'transparent') {
-          ctx.fill();
-        }
-        ctx.stroke();
-        ctx.globalAlpha = 1;
-      } else if (obj.type === 'line') {
-        ctx.globalAlpha = objectOpacity;
-        ctx.beginPath();
-        ctx.moveTo(0, height / 2);
-        ctx.lineTo(width, height / 2);
-        ctx.stroke();
-        ctx.globalAlpha = 1;
-      } else if (obj.type === 'image') {
-        ctx.globalAlpha = objectOpacity;
-        const imageUrl = obj.data.imageUrl;
-        
-        // Check if image is in cache
-        let img = imageCache.current.get(imageUrl);
-        
-        if (!img) {
-          // Load image if not in cache
-          img = new Image();
-          img.src = imageUrl;
-          imageCache.current.set(imageUrl, img);
-          
-          // Force re-render when image loads
-          img.onload = () => {
-            setForceUpdate(prev => prev + 1);
-          };
-        }
-        
-        if (img.complete && img.naturalWidth > 0) {
-          ctx.drawImage(img, 0, 0, width, height);
-        }
-        ctx.globalAlpha = 1;
-      }
-    }
-
-    ctx.restore();
+    // Force re-render when an image finishes loading
+    drawCanvasObject(ctx, obj, imageCache.current, () => setForceUpdate(prev => prev + 1));
   }, []);
 
-  const drawSelectionBox = useCallback((ctx: CanvasRenderingContext2D, obj: CanvasObject) => {
-    const { x, y, width, height, rotation } = obj.transform;
+  // `unit` is the length of one screen pixel in the coordinates the box is drawn in. Objects in a
+  // multi-selection are outlined without handles; the box around them all carries the handles.
+  const drawSelectionBox = useCallback((ctx: CanvasRenderingContext2D, box: Transform, unit: number, withHandles = true) => {
+    const { x, y, width, height, rotation } = box;
+    const handleSize = HANDLE_SIZE * unit;
+    const rotateOffset = ROTATE_HANDLE_OFFSET * unit;
 
     ctx.save();
     ctx.translate(x + width / 2, y + height / 2);
@@ -719,13 +898,17 @@ export function Canvas({
 
     // Selection outline
     ctx.strokeStyle = '#3b82f6';
-    ctx.lineWidth = 2;
-    ctx.setLineDash([5, 5]);
+    ctx.lineWidth = 2 * unit;
+    ctx.setLineDash([5 * unit, 5 * unit]);
     ctx.strokeRect(0, 0, width, height);
     ctx.setLineDash([]);
 
+    if (!withHandles) {
+      ctx.restore();
+      return;
+    }
+
     // Resize handles
-    const handleSize = 8;
     const handles = [
       { x: -handleSize / 2, y: -handleSize / 2, cursor: 'nw-resize', id: 'nw' },
       { x: width / 2 - handleSize / 2, y: -handleSize / 2, cursor: 'n-resize', id: 'n' },
@@ -739,7 +922,7 @@ export function Canvas({
 
     ctx.fillStyle = '#ffffff';
     ctx.strokeStyle = '#3b82f6';
-    ctx.lineWidth = 2;
+    ctx.lineWidth = 2 * unit;
     handles.forEach(handle => {
       ctx.fillRect(handle.x, handle.y, handleSize, handleSize);
       ctx.strokeRect(handle.x, handle.y, handleSize, handleSize);
@@ -748,17 +931,17 @@ export function Canvas({
     // Rotation handle
     ctx.beginPath();
     ctx.moveTo(width / 2, 0);
-    ctx.lineTo(width / 2, -30);
+    ctx.lineTo(width / 2, -rotateOffset);
     ctx.strokeStyle = '#3b82f6';
-    ctx.lineWidth = 2;
+    ctx.lineWidth = 2 * unit;
     ctx.stroke();
 
     ctx.beginPath();
-    ctx.arc(width / 2, -30, 6, 0, Math.PI * 2);
+    ctx.arc(width / 2, -rotateOffset, ROTATE_HANDLE_RADIUS * unit, 0, Math.PI * 2);
     ctx.fillStyle = '#ffffff';
     ctx.fill();
     ctx.strokeStyle = '#3b82f6';
-    ctx.lineWidth = 2;
+    ctx.lineWidth = 2 * unit;
     ctx.stroke();
 
     ctx.restore();
@@ -771,24 +954,61 @@ export function Canvas({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Clear
+    // Clear; the viewport background shows through around the page
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    // Draw canvas background
+    // Everything below is drawn in document coordinates; sizes multiplied by
+    // screenUnit (selection chrome, cursors) stay the same on screen at any zoom
+    ctx.setTransform(viewMatrix);
+
+    // Draw the page
+    ctx.save();
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.25)';
+    // Shadows ignore the transform and are measured in backing store pixels
+    ctx.shadowBlur = 24 * pixelRatio;
+    ctx.shadowOffsetY = 8 * pixelRatio;
     ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.fillRect(0, 0, pageSize.width, pageSize.height);
+    ctx.restore();
+
+    if (snapSettings.showGrid) {
+      const visible = getVisibleBounds(view, viewportSize);
+      if (infiniteCanvas) {
+        drawGrid(ctx, visible, snapSettings, screenUnit);
+      } else {
+        // Only the page, clipped to what is on screen
+        const x = Math.max(0, visible.x);
+        const y = Math.max(0, visible.y);
+        const area = {
+          x,
+          y,
+          width: Math.min(pageSize.width, visible.x + visible.width) - x,
+          height: Math.min(pageSize.height, visible.y + visible.height) - y
+        };
+        if (area.width > 0 && area.height > 0) drawGrid(ctx, area, snapSettings, screenUnit);
+      }
+    }
 
     // Draw objects
-    objects.forEach(obj => {
+    renderedObjects.forEach(obj => {
       drawObject(ctx, obj);
     });
 
+    // Dim everything else so the entered group's children stand out
+    if (enteredGroup) {
+      const visible = getVisibleBounds(view, viewportSize);
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+      ctx.fillRect(visible.x, visible.y, visible.width, visible.height);
+      drawObject(ctx, renderedObjects.find(obj => obj.id === enteredGroup.id) ?? enteredGroup);
+    }
+
     // Draw current drawing path
     if (currentTool === 'brush' && currentPath.length > 0) {
       ctx.save();
       ctx.globalAlpha = brushOpacity ?? 1;
       ctx.strokeStyle = brushColor;
-      ctx.lineWidth = brushSize;
+      ctx.lineWidth = brushSize * screenUnit;
       ctx.lineCap = 'round';
       ctx.lineJoin = 'round';
       ctx.beginPath();
@@ -809,8 +1029,8 @@ export function Canvas({
 
       ctx.strokeStyle = '#3b82f6';
       ctx.fillStyle = 'rgba(59, 130, 246, 0.1)';
-      ctx.lineWidth = 2;
-      ctx.setLineDash([5, 5]);
+      ctx.lineWidth = 2 * screenUnit;
+      ctx.setLineDash([5 * screenUnit, 5 * screenUnit]);
 
       if (currentTool === 'rectangle') {
         ctx.fillRect(x, y, width, height);
@@ -874,6 +1094,42 @@ export function Canvas({
       ctx.setLineDash([]);
     }
 
+    // Draw the box a text tool drag sets the wrapping width of
+    if (currentTool === 'text' && shapeStart && shapeCurrent) {
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = screenUnit;
+      ctx.setLineDash([5 * screenUnit, 5 * screenUnit]);
+      ctx.strokeRect(
+        Math.min(shapeStart.x, shapeCurrent.x),
+        Math.min(shapeStart.y, shapeCurrent.y),
+        Math.abs(shapeCurrent.x - shapeStart.x),
+        Math.abs(shapeCurrent.y - shapeStart.y)
+      );
+      ctx.setLineDash([]);
+    }
+
+    // Draw the path the pen is laying down, and the segment the next click would add
+    if (currentTool === 'pen' && penPath) {
+      ctx.save();
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = 1.5 * screenUnit;
+      traceSubPaths(ctx, [penPath], 1, 1);
+      ctx.stroke();
+
+      const last = penPath.nodes[penPath.nodes.length - 1];
+      if (mousePosition && penDragIndex === null && !penPath.closed) {
+        const control = last.handleOut ?? last;
+        ctx.setLineDash([4 * screenUnit, 4 * screenUnit]);
+        ctx.beginPath();
+        ctx.moveTo(last.x, last.y);
+        ctx.bezierCurveTo(control.x, control.y, mousePosition.x, mousePosition.y, mousePosition.x, mousePosition.y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+      ctx.restore();
+      drawPathPoints(ctx, [penPath], screenUnit, { subpath: 0, node: penPath.nodes.length - 1 });
+    }
+
     // Draw marquee selection
     if (currentTool === 'select' && marqueeStart && marqueeCurrent && !resizeHandle) {
       const x = Math.min(marqueeStart.x, marqueeCurrent.x);
@@ -883,75 +1139,123 @@ export function Canvas({
 
       ctx.strokeStyle = '#3b82f6';
       ctx.fillStyle = 'rgba(59, 130, 246, 0.1)';
-      ctx.lineWidth = 1;
-      ctx.setLineDash([5, 5]);
+      ctx.lineWidth = screenUnit;
+      ctx.setLineDash([5 * screenUnit, 5 * screenUnit]);
       ctx.fillRect(x, y, width, height);
       ctx.strokeRect(x, y, width, height);
       ctx.setLineDash([]);
     }
 
+    // Ruler guides, with the one being dragged at its new position
+    const shownGuides = visibleGuides
+      .map(guide => (guide.id === guideDrag?.id ? { ...guide, position: guideDrag.position } : guide))
+      .filter(guide => !(guide.id === guideDrag?.id && guideDrag.removing));
+    if (guideDrag && guideDrag.id === null && !guideDrag.removing) {
+      shownGuides.push({ id: '', axis: guideDrag.axis, position: guideDrag.position });
+    }
+    drawRulerGuides(ctx, shownGuides, getVisibleBounds(view, viewportSize), screenUnit);
+
     // Draw selection boxes
-    objects.forEach(obj => {
-      if (selectedIds.includes(obj.id)) {
-        drawSelectionBox(ctx, obj);
+    if (enteredGroup) {
+      // Outline the group being edited, then its selected children in the group's space
+      const { x, y, width, height, rotation } = enteredGroup.transform;
+      ctx.save();
+      ctx.translate(x + width / 2, y + height / 2);
+      ctx.rotate((rotation * Math.PI) / 180);
+      ctx.strokeStyle = '#9ca3af';
+      ctx.lineWidth = screenUnit;
+      ctx.setLineDash([4 * screenUnit, 4 * screenUnit]);
+      ctx.strokeRect(-width / 2, -height / 2, width, height);
+      ctx.setLineDash([]);
+      ctx.restore();
+
+      ctx.save();
+      applyGroupTransform(ctx, enteredGroup);
+    }
+    // The selection box of a lone object is its own outline
+    const ownBox = transformableObjects.length === 1 ? transformableObjects[0] : null;
+    scopeObjects.forEach(obj => {
+      if (selectedIds.includes(obj.id) && !obj.hidden && obj !== ownBox) {
+        drawSelectionBox(ctx, obj.transform, scopeUnit, false);
       }
     });
+    if (editedPath) {
+      // The direct selection tool edits the path's points, not its box
+      const subpaths = mapSubPaths(getLocalSubPaths(editedPath), point => fromPathSpace(editedPath.transform, point));
+      ctx.save();
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = scopeUnit;
+      traceSubPaths(ctx, subpaths, 1, 1);
+      ctx.stroke();
+      ctx.restore();
+      drawPathPoints(ctx, subpaths, scopeUnit, activeNode?.objectId === editedPath.id ? activeNode : null);
+    } else if (selectionBox) {
+      drawSelectionBox(ctx, selectionBox, scopeUnit, currentTool !== 'directSelect');
+    }
+    if (enteredGroup) {
+      ctx.restore();
+    }
+
+    if (snapGuides.length > 0) {
+      drawSnapGuides(ctx, snapGuides, screenUnit);
+    }
+
+    // Draw custom cursor. Brush and eraser sizes are screen pixels, so their cursors keep a
+    // constant size on screen and match what a stroke will cover.
+    if (mousePosition && !panStart && !isSpaceDown && (infiniteCanvas || isOnPage(mousePosition))) {
+      const brushRadius = (brushSize * screenUnit) / 2;
 
-    // Draw custom cursor
-    if (mousePosition && mousePosition.x >= 0 && mousePosition.x <= CANVAS_WIDTH && 
-        mousePosition.y >= 0 && mousePosition.y <= CANVAS_HEIGHT) {
-      
       if (currentTool === 'brush') {
         // Brush cursor
         if (brushType === 'normal') {
           // Normal brush: solid circle outline
           ctx.strokeStyle = brushColor;
-          ctx.lineWidth = 2;
+          ctx.lineWidth = 2 * screenUnit;
           ctx.beginPath();
-          ctx.arc(mousePosition.x, mousePosition.y, brushSize / 2, 0, Math.PI * 2);
+          ctx.arc(mousePosition.x, mousePosition.y, brushRadius, 0, Math.PI * 2);
           ctx.stroke();
         } else if (brushType === 'spray') {
           // Spray brush: double dashed circles (inner + outer spread)
           ctx.strokeStyle = brushColor;
-          ctx.lineWidth = 1;
+          ctx.lineWidth = screenUnit;
           
           // Inner circle
-          ctx.setLineDash([3, 3]);
+          ctx.setLineDash([3 * screenUnit, 3 * screenUnit]);
           ctx.beginPath();
-          ctx.arc(mousePosition.x, mousePosition.y, brushSize / 2, 0, Math.PI * 2);
+          ctx.arc(mousePosition.x, mousePosition.y, brushRadius, 0, Math.PI * 2);
           ctx.stroke();
           
           // Outer spread circle
           ctx.globalAlpha = 0.5;
           ctx.beginPath();
-          ctx.arc(mousePosition.x, mousePosition.y, (brushSize * 1.5) / 2, 0, Math.PI * 2);
+          ctx.arc(mousePosition.x, mousePosition.y, brushRadius * 1.5, 0, Math.PI * 2);
           ctx.stroke();
           ctx.globalAlpha = 1;
           ctx.setLineDash([]);
         } else if (brushType === 'marker') {
           // Marker brush: semi-transparent circle
           ctx.strokeStyle = brushColor;
-          ctx.lineWidth = 2;
+          ctx.lineWidth = 2 * screenUnit;
           ctx.globalAlpha = 0.5;
           ctx.beginPath();
-          ctx.arc(mousePosition.x, mousePosition.y, brushSize / 2, 0, Math.PI * 2);
+          ctx.arc(mousePosition.x, mousePosition.y, brushRadius, 0, Math.PI * 2);
           ctx.stroke();
           ctx.globalAlpha = 1;
         }
       } else if (currentTool === 'eraser') {
         // Eraser cursor: red dashed circle
         ctx.strokeStyle = '#ef4444';
-        ctx.lineWidth = 2;
-        ctx.setLineDash([5, 5]);
+        ctx.lineWidth = 2 * screenUnit;
+        ctx.setLineDash([5 * screenUnit, 5 * screenUnit]);
         ctx.beginPath();
-        ctx.arc(mousePosition.x, mousePosition.y, eraserSize / 2, 0, Math.PI * 2);
+        ctx.arc(mousePosition.x, mousePosition.y, (eraserSize * screenUnit) / 2, 0, Math.PI * 2);
         ctx.stroke();
         ctx.setLineDash([]);
       } else if (['rectangle', 'circle', 'triangle', 'polygon', 'star', 'line'].includes(currentTool)) {
         // Shape tools: crosshair (always show, even while drawing)
         ctx.strokeStyle = '#666666';
-        ctx.lineWidth = 1;
-        const crossSize = 10;
+        ctx.lineWidth = screenUnit;
+        const crossSize = 10 * screenUnit;
         
         // Horizontal line
         ctx.beginPath();
@@ -966,17 +1270,170 @@ export function Canvas({
         ctx.stroke();
       }
     }
-  }, [objects, selectedIds, currentPath, currentTool, dragStart, marqueeCurrent, marqueeStart, resizeHandle, eraserSize, drawObject, drawSelectionBox, brushSize, brushColor, mousePosition, brushType, shapeStart, shapeCurrent]);
+  }, [renderedObjects, view, viewportSize, viewMatrix, pixelRatio, screenUnit, scopeUnit, pageSize, infiniteCanvas, snapSettings, snapGuides, visibleGuides, guideDrag, panStart, isSpaceDown, enteredGroup, scopeObjects, selectedIds, transformableObjects, selectionBox, currentPath, currentTool, dragStart, marqueeCurrent, marqueeStart, resizeHandle, eraserSize, drawObject, drawSelectionBox, brushSize, brushColor, mousePosition, brushType, shapeStart, shapeCurrent, penPath, penDragIndex, editedPath, activeNode]);
 
   useEffect(() => {
     render();
   }, [render]);
 
+  // The canvas fills the viewport; report its size so views can be fitted to it
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const size = {
+        width: Math.floor(entry.contentRect.width),
+        height: Math.floor(entry.contentRect.height)
+      };
+      setViewportSize(size);
+      onViewportResize(size);
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [onViewportResize]);
+
+  // Follow devicePixelRatio as the window moves between screens or the browser zoom changes
+  useEffect(() => {
+    const media = window.matchMedia(`(resolution: ${pixelRatio}dppx)`);
+    const handleChange = () => setPixelRatio(window.devicePixelRatio || 1);
+    media.addEventListener('change', handleChange);
+    return () => media.removeEventListener('change', handleChange);
+  }, [pixelRatio]);
+
+  // Hold space to pan with the left mouse button
+  useEffect(() => {
+    const isTyping = () =>
+      document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA';
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping()) return;
+      e.preventDefault(); // don't scroll the page or press a focused button
+      setIsSpaceDown(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceDown(false);
+    };
+    const handleBlur = () => setIsSpaceDown(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // Wheel scrolls the view; Ctrl+wheel (and trackpad pinch, which browsers report the same way)
+  // zooms around the cursor. Registered natively because React wheel listeners are passive, and on
+  // the container so it works over the rulers too.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const unit = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : 1;
+      const deltaX = e.deltaX * unit;
+      const deltaY = e.deltaY * unit;
+
+      if (e.ctrlKey || e.metaKey) {
+        onViewChange(zoomAt(view, view.zoom * Math.exp(-deltaY * WHEEL_ZOOM_SPEED), getScreenCoords(e)));
+      } else if (e.shiftKey && deltaX === 0) {
+        // Shift+wheel scrolls sideways on mice without a horizontal wheel
+        onViewChange({ ...view, x: view.x - deltaY });
+      } else {
+        onViewChange({ ...view, x: view.x - deltaX, y: view.y - deltaY });
+      }
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [view, onViewChange, getScreenCoords]);
+
+  // Where a guide being dragged would go, and whether it is back over its ruler (or out of the viewport)
+  const getGuideDrop = useCallback((axis: 'x' | 'y', e: MouseEvent | React.MouseEvent) => {
+    const screen = getScreenCoords(e);
+    const point = screenToWorld(view, screen);
+    const value = axis === 'x' ? point.x : point.y;
+    const position = snapSettings.snapToGrid && !e.altKey
+      ? snapValueToGrid(value, getGridStep(snapSettings))
+      : Math.round(value);
+    const removing =
+      (axis === 'x' ? screen.x : screen.y) < RULER_SIZE ||
+      screen.x < 0 || screen.y < 0 || screen.x > viewportSize.width || screen.y > viewportSize.height;
+    return { position, removing };
+  }, [view, viewportSize, snapSettings, getScreenCoords]);
+
+  // Extent of the selection in document coordinates, for the rulers
+  const selectionBounds = useMemo(() => mergeBounds(
+    scopeObjects
+      .filter(obj => selectedIds.includes(obj.id) && !obj.hidden)
+      .map(obj => (enteredGroup ? getChildBounds(enteredGroup, obj) : getObjectBounds(obj)))
+  ), [scopeObjects, selectedIds, enteredGroup]);
+
+  const handleRulerMouseDown = (axis: 'x' | 'y', e: React.MouseEvent) => {
+    if (e.button !== 0 || !showGuides) return;
+    e.preventDefault();
+    setGuideDrag({ id: null, axis, ...getGuideDrop(axis, e) });
+  };
+
+  // Guide drags follow the pointer over the whole window, since they start on a ruler or end on one
+  useEffect(() => {
+    if (!guideDrag) return;
+
+    const handleMove = (e: MouseEvent) => {
+      const drop = getGuideDrop(guideDrag.axis, e);
+      setGuideDrag(prev => prev && { ...prev, ...drop });
+    };
+    const handleUp = (e: MouseEvent) => {
+      const { position, removing } = getGuideDrop(guideDrag.axis, e);
+      const guide = guides.find(g => g.id === guideDrag.id);
+      if (!guide) {
+        if (!removing) onGuidesChange([...guides, createGuide(guideDrag.axis, position)], 'Add Guide');
+      } else if (removing) {
+        onGuidesChange(guides.filter(g => g.id !== guide.id), 'Delete Guide');
+      } else if (position !== guide.position) {
+        onGuidesChange(guides.map(g => (g.id === guide.id ? { ...g, position } : g)), 'Move Guide');
+      }
+      setGuideDrag(null);
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [guideDrag, guides, getGuideDrop, onGuidesChange]);
+
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    // Middle button, or left button with space held, pans the view
+    if (e.button === 1 || (e.button === 0 && isSpaceDown)) {
+      e.preventDefault();
+      const screen = getScreenCoords(e);
+      setPanStart({ screenX: screen.x, screenY: screen.y, viewX: view.x, viewY: view.y });
+      return;
+    }
+    if (e.button !== 0) return;
+
+    // A click while text is being edited only ends the editing
+    if (textEditRef.current) {
+      e.preventDefault();
+      commitTextEdit();
+      return;
+    }
+
     const pos = getCanvasCoords(e);
+    // Guides reach past the page, so they can be grabbed off it
+    const guideUnderPointer = currentTool === 'select'
+      ? findGuideAt(visibleGuides, pos, GUIDE_HIT_TOLERANCE * screenUnit)
+      : null;
     
     // Check if outside canvas bounds
-    if (pos.x < 0 || pos.x > CANVAS_WIDTH || pos.y < 0 || pos.y > CANVAS_HEIGHT) {
+    if (!infiniteCanvas && !isOnPage(pos) && !guideUnderPointer) {
       return;
     }
 
@@ -986,27 +1443,104 @@ export function Canvas({
     } else if (currentTool === 'eraser') {
       setIsDrawing(true);
       setCurrentPath([pos]);
+      startGesture('Erase');
+    } else if (currentTool === 'text') {
+      // Clicking text edits it; anywhere else starts new text, as wide as the pointer is then dragged
+      const clickedObj = [...objects].reverse().find(obj => isInteractive(obj) && isPointInObject(pos.x, pos.y, obj));
+      if (clickedObj?.type === 'text') {
+        startTextEdit(clickedObj, false);
+      } else {
+        const textPos = snapShapePoint(pos, e);
+        setShapeStart(textPos);
+        setShapeCurrent(textPos);
+      }
+    } else if (currentTool === 'pen') {
+      const tolerance = PATH_HIT_TOLERANCE * screenUnit;
+      const nodes = penPath?.nodes ?? [];
+      const isNear = (node: PathNode) => Math.hypot(pos.x - node.x, pos.y - node.y) <= tolerance;
+
+      // Clicking the first anchor closes the path (a drag there makes it smooth), and
+      // clicking the last one again, as a double-click does, ends it open
+      if (nodes.length >= 2 && isNear(nodes[0])) {
+        setPenPath({ nodes, closed: true });
+        setPenDragIndex(0);
+      } else if (nodes.length > 0 && isNear(nodes[nodes.length - 1])) {
+        finishPenPath();
+      } else {
+        const anchor = snapShapePoint(pos, e);
+        setPenPath({ nodes: [...nodes, { x: anchor.x, y: anchor.y }], closed: false });
+        setPenDragIndex(nodes.length);
+      }
+    } else if (currentTool === 'directSelect') {
+      const scopePos = toScope(pos);
+
+      if (editedPath) {
+        const point = toPathSpace(editedPath.transform, scopePos);
+        const subpaths = getLocalSubPaths(editedPath);
+        const tolerance = PATH_HIT_TOLERANCE * scopeUnit;
+        const commitPath = (edited: SubPath[], label: string) => {
+          const updated = setLocalSubPaths(editedPath, edited);
+          commitScope(scopeObjects.map(obj => (obj.id === updated.id ? updated : obj)), label);
+        };
+
+        // Alt+click converts an anchor between smooth and corner; otherwise anchors and handles are dragged
+        const hit = findPathPartAt(subpaths, point, tolerance);
+        if (hit) {
+          const ref = { subpath: hit.subpath, node: hit.node };
+          setActiveNode({ ...ref, objectId: editedPath.id });
+          if (hit.part === 'anchor' && e.altKey) {
+            commitPath(convertNode(subpaths, ref), 'Convert Anchor Point');
+          } else {
+            setNodeDrag({ ...hit, origin: editedPath });
+            startGesture('Edit');
+          }
+          return;
+        }
+
+        // Clicking a segment adds an anchor there
+        const segment = findSegmentAt(subpaths, point, tolerance);
+        if (segment) {
+          const inserted = insertNode(subpaths, segment.subpath, segment.segment, segment.t);
+          commitPath(inserted.subpaths, 'Add Anchor Point');
+          setActiveNode({ ...inserted.ref, objectId: editedPath.id });
+          return;
+        }
+      }
+
+      // Anywhere else picks the object to edit the points of
+      const clickedObj = [...scopeObjects].reverse().find(obj => isInteractive(obj) && isPointInObject(scopePos.x, scopePos.y, obj));
+      onSelectedIdsChange(clickedObj ? [clickedObj.id] : []);
+      setActiveNode(null);
     } else if (['rectangle', 'circle', 'triangle', 'polygon', 'star', 'line'].includes(currentTool)) {
-      setShapeStart(pos);
-      setShapeCurrent(pos);
+      const shapePos = snapShapePoint(pos, e);
+      setShapeStart(shapePos);
+      setShapeCurrent(shapePos);
     } else if (currentTool === 'select') {
+      const scopePos = toScope(pos);
+
+      // Every gesture on the selection works from where it started
+      const beginTransform = (verb: string) => {
+        setDragStart(pos);
+        setTransformOrigin({ box: selectionBox!, pointer: scopePos, objects: transformableObjects });
+        startGesture(verb);
+      };
+
       // Check if clicking on a handle
-      const selected = objects.find(obj => selectedIds.includes(obj.id));
-      if (selected) {
-        const { x, y, width, height } = selected.transform;
-        const handleSize = 8;
+      if (selectionBox) {
+        const { width, height } = selectionBox;
+        // Handles keep their on-screen size, so their size here depends on the zoom
+        const handleSize = HANDLE_SIZE * scopeUnit;
         
-        // Transform click point to object's local space (accounting for rotation)
-        const localPos = transformPointToObjectSpace(pos.x, pos.y, selected);
+        // Transform click point to the box's local space (accounting for rotation)
+        const localPos = transformPointToBoxSpace(scopePos.x, scopePos.y, selectionBox);
         
         // Check rotation handle (in local space coordinates)
         const rotHandleLocalX = width / 2;
-        const rotHandleLocalY = -30;
-        if (Math.abs(localPos.x - rotHandleLocalX) < 10 && Math.abs(localPos.y - rotHandleLocalY) < 10) {
+        const rotHandleLocalY = -ROTATE_HANDLE_OFFSET * scopeUnit;
+        const rotHandleTolerance = 10 * scopeUnit;
+        if (Math.abs(localPos.x - rotHandleLocalX) < rotHandleTolerance && Math.abs(localPos.y - rotHandleLocalY) < rotHandleTolerance) {
           setResizeHandle('rotate');
-          setRotateStart(pos);
-          setDragStart(pos);
-          setInitialRotation(selected.transform.rotation);
+          beginTransform('Rotate');
           return;
         }
 
@@ -1025,21 +1559,29 @@ export function Canvas({
         for (const handle of handles) {
           if (Math.abs(localPos.x - handle.x) < handleSize * 1.5 && Math.abs(localPos.y - handle.y) < handleSize * 1.5) {
             setResizeHandle(handle.id);
-            setDragStart(pos);
+            beginTransform('Resize');
             return;
           }
         }
+      }
 
-        // Check if clicking inside selected object to drag
-        if (isPointInObject(pos.x, pos.y, selected)) {
-          setDragStart(pos);
-          setDragOffset({ x: pos.x - x, y: pos.y - y });
-          return;
-        }
+      // Guides come after handles, which often sit on them once snapped, but before objects
+      if (guideUnderPointer) {
+        setGuideDrag({ id: guideUnderPointer.id, axis: guideUnderPointer.axis, position: guideUnderPointer.position, removing: false });
+        return;
+      }
+
+      // Clicking inside a selected object, or anywhere in the box around several, drags them all
+      const insideSelection = transformableObjects.length > 1
+        ? isPointInBounds(scopePos, selectionBox!)
+        : transformableObjects.some(obj => isPointInObject(scopePos.x, scopePos.y, obj));
+      if (!e.ctrlKey && !e.metaKey && insideSelection) {
+        beginTransform('Move');
+        return;
       }
 
       // Check if clicking on an object
-      const clickedObj = [...objects].reverse().find(obj => isPointInObject(pos.x, pos.y, obj));
+      const clickedObj = [...scopeObjects].reverse().find(obj => isInteractive(obj) && isPointInObject(scopePos.x, scopePos.y, obj));
       if (clickedObj) {
         if (e.ctrlKey || e.metaKey) {
           // Ctrl+Click: Multi-select (toggle selection)
@@ -1052,8 +1594,12 @@ export function Canvas({
           // Normal click: Select single object
           onSelectedIdsChange([clickedObj.id]);
           setDragStart(pos);
-          setDragOffset({ x: pos.x - clickedObj.transform.x, y: pos.y - clickedObj.transform.y });
+          setTransformOrigin({ box: clickedObj.transform, pointer: scopePos, objects: [clickedObj] });
+          startGesture('Move');
         }
+      } else if (enteredGroup && !isPointInObject(pos.x, pos.y, enteredGroup)) {
+        // Clicking outside the entered group leaves it
+        onExitGroup();
       } else {
         // Start marquee selection
         if (!e.ctrlKey && !e.metaKey) {
@@ -1066,159 +1612,170 @@ export function Canvas({
   };
 
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (panStart) {
+      const screen = getScreenCoords(e);
+      onViewChange({
+        ...view,
+        x: panStart.viewX + screen.x - panStart.screenX,
+        y: panStart.viewY + screen.y - panStart.screenY
+      });
+      return;
+    }
+
     const pos = getCanvasCoords(e);
     setMarqueeCurrent(pos);
     setMousePosition(pos);
+    setHoveredGuideAxis(
+      currentTool === 'select' && !dragStart && !marqueeStart
+        ? findGuideAt(visibleGuides, pos, GUIDE_HIT_TOLERANCE * screenUnit)?.axis ?? null
+        : null
+    );
 
     // Update shape preview
     if (shapeStart) {
-      setShapeCurrent(pos);
+      setShapeCurrent(snapShapePoint(pos, e));
     }
 
     if (currentTool === 'brush' && isDrawing) {
       setCurrentPath(prev => [...prev, pos]);
+    } else if (currentTool === 'pen' && penPath && penDragIndex !== null) {
+      // Dragging pulls out a smooth anchor's handles, the outgoing one under the pointer;
+      // Alt leaves the incoming handle where it was, for a corner between two curves
+      const node = penPath.nodes[penDragIndex];
+      if (Math.hypot(pos.x - node.x, pos.y - node.y) > PEN_DRAG_THRESHOLD * screenUnit) {
+        const handleIn = e.altKey ? node.handleIn : { x: 2 * node.x - pos.x, y: 2 * node.y - pos.y };
+        const updated: PathNode = { x: node.x, y: node.y, handleOut: pos, ...(handleIn ? { handleIn } : {}) };
+        setPenPath({ ...penPath, nodes: penPath.nodes.map((n, i) => (i === penDragIndex ? updated : n)) });
+      }
+    } else if (currentTool === 'directSelect' && nodeDrag) {
+      // The drag is applied to the path as it was when it began, then its box is refitted
+      const { origin, part } = nodeDrag;
+      const point = toPathSpace(origin.transform, toScope(pos));
+      const subpaths = getLocalSubPaths(origin);
+      const edited = part === 'anchor'
+        ? moveAnchor(subpaths, nodeDrag, point)
+        : moveHandle(subpaths, nodeDrag, part, point, e.altKey);
+      const updated = setLocalSubPaths(origin, edited);
+      commitScope(scopeObjects.map(obj => (obj.id === updated.id ? updated : obj)));
     } else if (currentTool === 'eraser' && isDrawing) {
       // Apply eraser using the recursive function
       const newObjects = objects.map(obj => {
-        if (isPointInObject(pos.x, pos.y, obj)) {
-          return applyEraserToObject(obj, currentPath, pos, eraserSize);
+        if (isInteractive(obj) && isPointInObject(pos.x, pos.y, obj)) {
+          return applyEraserToObject(obj, currentPath, pos, eraserSize * screenUnit);
         }
         return obj;
       });
       
       onObjectsChange(newObjects);
       setCurrentPath([pos]);
-    } else if (currentTool === 'select' && dragStart && selectedIds.length > 0 && !marqueeStart) {
-      const selected = objects.find(obj => selectedIds.includes(obj.id));
-      if (!selected) return;
+    } else if (currentTool === 'select' && dragStart && transformOrigin && !marqueeStart) {
+      // Positions in the coordinates of the objects being edited (a group's children use the group's)
+      const scopePos = toScope(pos);
+      const origin = transformOrigin;
+      // Every selected object is transformed from where it started, then written back in place
+      const commitTransformed = (transformed: CanvasObject[]) => {
+        const byId = new Map(transformed.map(obj => [obj.id, obj]));
+        commitScope(scopeObjects.map(obj => byId.get(obj.id) ?? obj));
+      };
 
       if (resizeHandle) {
         if (resizeHandle === 'rotate') {
-          const centerX = selected.transform.x + selected.transform.width / 2;
-          const centerY = selected.transform.y + selected.transform.height / 2;
-          const angle = Math.atan2(pos.y - centerY, pos.x - centerX) * (180 / Math.PI) + 90;
-          
-          const newObjects = objects.map(obj =>
-            obj.id === selected.id
-              ? { ...obj, transform: { ...obj.transform, rotation: angle } }
-              : obj
-          );
-          onObjectsChange(newObjects);
+          // Turn the selection by the angle the pointer has swept around the box's center
+          const centerX = origin.box.x + origin.box.width / 2;
+          const centerY = origin.box.y + origin.box.height / 2;
+          const startAngle = Math.atan2(origin.pointer.y - centerY, origin.pointer.x - centerX);
+          const angle = Math.atan2(scopePos.y - centerY, scopePos.x - centerX);
+          const delta = (angle - startAngle) * (180 / Math.PI);
+
+          setGestureBox({ ...origin.box, rotation: origin.box.rotation + delta });
+          commitTransformed(origin.objects.map(obj => rotateObjectAbout(obj, { x: centerX, y: centerY }, delta)));
         } else {
-          // Resize
-          let newTransform = { ...selected.transform };
-          const dx = pos.x - dragStart.x;
-          const dy = pos.y - dragStart.y;
-          
-          const oldTransform = { ...selected.transform };
-
-          if (resizeHandle.includes('n')) {
-            newTransform.y += dy;
-            newTransform.height -= dy;
-          }
-          if (resizeHandle.includes('s')) {
-            newTransform.height += dy;
+          const dx = scopePos.x - origin.pointer.x;
+          const dy = scopePos.y - origin.pointer.y;
+
+          // Edges of the box; the dragged ones follow the pointer
+          let left = origin.box.x;
+          let top = origin.box.y;
+          let right = left + origin.box.width;
+          let bottom = top + origin.box.height;
+          if (resizeHandle.includes('n')) top += dy;
+          if (resizeHandle.includes('s')) bottom += dy;
+          if (resizeHandle.includes('w')) left += dx;
+          if (resizeHandle.includes('e')) right += dx;
+
+          // Rotated boxes' edges don't run along the grid or guides, so they aren't snapped
+          const guides: SnapGuide[] = [];
+          if (canSnap(e) && origin.box.rotation === 0) {
+            if (resizeHandle.includes('n')) top = snapEdge(top, 'y', left, right - left, guides);
+            if (resizeHandle.includes('s')) bottom = snapEdge(bottom, 'y', left, right - left, guides);
+            if (resizeHandle.includes('w')) left = snapEdge(left, 'x', top, bottom - top, guides);
+            if (resizeHandle.includes('e')) right = snapEdge(right, 'x', top, bottom - top, guides);
           }
-          if (resizeHandle.includes('w')) {
-            newTransform.x += dx;
-            newTransform.width -= dx;
+          setSnapGuides(guides);
+
+          // Constrain, keeping the opposite edge in place
+          if (right - left < 10) {
+            if (resizeHandle.includes('w')) left = right - 10;
+            else right = left + 10;
           }
-          if (resizeHandle.includes('e')) {
-            newTransform.width += dx;
+          if (bottom - top < 10) {
+            if (resizeHandle.includes('n')) top = bottom - 10;
+            else bottom = top + 10;
           }
 
-          // Constrain
-          if (newTransform.width < 10) newTransform.width = 10;
-          if (newTransform.height < 10) newTransform.height = 10;
+          let newBox = { ...origin.box, x: left, y: top, width: right - left, height: bottom - top };
           
-          const constrained = constrainToCanvas(
-            newTransform.x,
-            newTransform.y,
-            newTransform.width,
-            newTransform.height
-          );
-          newTransform = { ...newTransform, ...constrained };
-
-          const newObjects = objects.map(obj => {
-            if (obj.id === selected.id) {
-              // For drawn objects, we need to scale the path points (but NOT erasedAreas anymore!)
-              if (obj.type === 'drawn' && obj.data.path) {
-                const scaleX = newTransform.width / oldTransform.width;
-                const scaleY = newTransform.height / oldTransform.height;
-                const offsetX = newTransform.x - oldTransform.x;
-                const offsetY = newTransform.y - oldTransform.y;
-                
-                const newPath = (obj.data.path as { x: number; y: number }[]).map(point => ({
-                  x: oldTransform.x + (point.x - oldTransform.x) * scaleX + offsetX,
-                  y: oldTransform.y + (point.y - oldTransform.y) * scaleY + offsetY
-                }));
-                
-                // erasedAreas are now normalized (0-1), so they don't need to be scaled!
-                return {
-                  ...obj,
-                  transform: newTransform,
-                  data: {
-                    ...obj.data,
-                    path: newPath
-                  }
-                };
-              }
-              
-              // For other object types, erasedAreas are normalized (0-1), so they don't need scaling!
-              return { ...obj, transform: newTransform };
-            }
-            return obj;
-          });
-          onObjectsChange(newObjects);
-          setDragStart(pos);
+          // A group's children may extend it, so only top-level objects are kept on the canvas
+          if (!enteredGroup) {
+            newBox = { ...newBox, ...constrainToCanvas(newBox.x, newBox.y, newBox.width, newBox.height) };
+          }
+
+          setGestureBox(newBox);
+          // Drawn paths scale with their objects; erasedAreas are normalized (0-1), so they don't need to
+          commitTransformed(origin.objects.map(obj => scaleObjectBetween(obj, origin.box, newBox)));
         }
       } else {
-        // Move object
-        const newX = pos.x - dragOffset.x;
-        const newY = pos.y - dragOffset.y;
-        const constrained = constrainToCanvas(newX, newY, selected.transform.width, selected.transform.height);
-
-        // Calculate the movement delta
-        const deltaX = constrained.x - selected.transform.x;
-        const deltaY = constrained.y - selected.transform.y;
-
-        const newObjects = objects.map(obj => {
-          if (obj.id === selected.id) {
-            // For merged objects, children are in relative coordinates, so just move the parent
-            if (obj.type === 'merged' && obj.children) {
-              return {
-                ...obj,
-                transform: { ...obj.transform, x: constrained.x, y: constrained.y }
-              };
-            }
-            
-            // For drawn objects, also move the path points
-            if (obj.type === 'drawn' && obj.data.path) {
-              const newPath = (obj.data.path as { x: number; y: number }[]).map(point => ({
-                x: point.x + deltaX,
-                y: point.y + deltaY
-              }));
-              
-              return {
-                ...obj,
-                transform: { ...obj.transform, x: constrained.x, y: constrained.y },
-                data: {
-                  ...obj.data,
-                  path: newPath
-                }
-              };
-            }
-            
-            return { ...obj, transform: { ...obj.transform, x: constrained.x, y: constrained.y } };
-          }
-          return obj;
-        });
-        onObjectsChange(newObjects);
+        // Move the selection by the pointer's travel, snapping the box around all of it
+        const bounds = getObjectsBounds(origin.objects);
+        if (!bounds) return;
+        let deltaX = scopePos.x - origin.pointer.x;
+        let deltaY = scopePos.y - origin.pointer.y;
+
+        if (canSnap(e)) {
+          // Guides win; an axis they leave alone falls back to the grid
+          const snap = snapBoxToGuides(
+            { ...bounds, x: bounds.x + deltaX, y: bounds.y + deltaY },
+            getSnapTargets(),
+            snapThreshold
+          );
+          const step = getGridStep(snapSettings);
+          if (snap.snappedX) deltaX += snap.dx;
+          else if (snapSettings.snapToGrid) deltaX = snapValueToGrid(origin.box.x + deltaX, step) - origin.box.x;
+          if (snap.snappedY) deltaY += snap.dy;
+          else if (snapSettings.snapToGrid) deltaY = snapValueToGrid(origin.box.y + deltaY, step) - origin.box.y;
+          setSnapGuides(snap.guides);
+        } else {
+          setSnapGuides([]);
+        }
+
+        if (!enteredGroup) {
+          const constrained = constrainToCanvas(bounds.x + deltaX, bounds.y + deltaY, bounds.width, bounds.height);
+          deltaX = constrained.x - bounds.x;
+          deltaY = constrained.y - bounds.y;
+        }
+
+        // Merged children are relative to their parent and drawn paths are absolute; translateObject handles both
+        commitTransformed(origin.objects.map(obj => translateObject(obj, deltaX, deltaY)));
       }
     }
   };
 
   const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (panStart) {
+      setPanStart(null);
+      return;
+    }
+
     const pos = getCanvasCoords(e);
 
     if (currentTool === 'brush' && isDrawing && currentPath.length > 1) {
@@ -1231,13 +1788,15 @@ export function Canvas({
         maxY = Math.max(maxY, p.y);
       });
 
-      const padding = brushSize;
+      // Brush size is in screen pixels; the stroke keeps the width it had on screen
+      const strokeWidth = (brushSize ?? 5) * screenUnit;
+      const padding = strokeWidth;
       const objectX = minX - padding;
       const objectY = minY - padding;
       
       // Pre-generate spray particles if using spray brush
       const sprayParticles = brushType === 'spray' 
-        ? generateSprayParticles(currentPath, brushSize, objectX, objectY)
+        ? generateSprayParticles(currentPath, strokeWidth, objectX, objectY)
         : undefined;
       
       const newObject: CanvasObject = {
@@ -1253,7 +1812,7 @@ export function Canvas({
         style: {
           strokeColor: brushColor,
           fillColor: 'transparent',
-          strokeWidth: brushSize,
+          strokeWidth,
           opacity: brushOpacity
         },
         data: {
@@ -1264,7 +1823,7 @@ export function Canvas({
         }
       };
 
-      onObjectsChange([...objects, newObject]);
+      onObjectsChange([...objects, newObject], 'Brush Stroke');
       setCurrentPath([]);
     } else if (['rectangle', 'circle', 'triangle', 'polygon', 'star', 'line'].includes(currentTool) && shapeStart && shapeCurrent) {
       const x = Math.min(shapeStart.x, shapeCurrent.x);
@@ -1275,28 +1834,30 @@ export function Canvas({
       if (width > 10 && height > 10) {
         const constrained = constrainToCanvas(x, y, width, height);
         
-        const newObject: CanvasObject = {
-          id: `${currentTool}-${Date.now()}`,
-          type: currentTool as any,
-          transform: {
-            ...constrained,
-            rotation: 0
-          },
-          style: {
-            strokeColor: '#000000',
-            fillColor: currentTool === 'line' ? 'transparent' : '#e0e0e0',
-            strokeWidth: 2
-          },
-          data: {
-            erasedAreas: []
-          }
-        };
+        const newObject = createShapeObject(currentTool as ShapeType, { ...constrained, rotation: 0 });
 
-        onObjectsChange([...objects, newObject]);
+        onObjectsChange([...objects, newObject], `Add ${getObjectTypeName(newObject)}`);
       }
 
       setShapeStart(null);
       setShapeCurrent(null);
+    } else if (currentTool === 'text' && shapeStart && shapeCurrent) {
+      // A drag sets the width the text wraps at; a click makes text that widens as it is typed
+      const width = Math.abs(shapeCurrent.x - shapeStart.x);
+      startTextEdit(
+        createTextObject(
+          Math.min(shapeStart.x, shapeCurrent.x),
+          Math.min(shapeStart.y, shapeCurrent.y),
+          width > 10 ? width : undefined
+        ),
+        true
+      );
+
+      setShapeStart(null);
+      setShapeCurrent(null);
+    } else if (currentTool === 'pen' && penPath && penDragIndex !== null) {
+      setPenDragIndex(null);
+      if (penPath.closed) finishPenPath();
     } else if ((currentTool === 'select' || currentTool === 'merge') && marqueeStart && marqueeCurrent) {
       // Marquee selection
       const x1 = Math.min(marqueeStart.x, marqueeCurrent.x);
@@ -1304,8 +1865,9 @@ export function Canvas({
       const x2 = Math.max(marqueeStart.x, marqueeCurrent.x);
       const y2 = Math.max(marqueeStart.y, marqueeCurrent.y);
 
-      const selectedObjects = objects.filter(obj => {
-        const { x, y, width, height } = obj.transform;
+      const selectedObjects = scopeObjects.filter(obj => {
+        if (!isInteractive(obj)) return false;
+        const { x, y, width, height } = enteredGroup ? getChildBounds(enteredGroup, obj) : obj.transform;
         return x >= x1 && y >= y1 && x + width <= x2 && y + height <= y2;
       });
 
@@ -1325,37 +1887,189 @@ export function Canvas({
     setIsDrawing(false);
     setDragStart(null);
     setResizeHandle(null);
-    setRotateStart(null);
+    setTransformOrigin(null);
+    setGestureBox(null);
+    setNodeDrag(null);
+    setSnapGuides([]);
+    endGesture();
+  };
+
+  // Right-clicking an object selects it unless it already is, and empty space clears the
+  // selection, so the context menu acts on what was clicked
+  const handleContextMenu = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (currentTool !== 'select') {
+      onContextTargetChange(null);
+      return;
+    }
+
+    const scopePos = toScope(getCanvasCoords(e));
+    const clickedObj = [...scopeObjects].reverse().find(obj => isInteractive(obj) && isPointInObject(scopePos.x, scopePos.y, obj));
+    onContextTargetChange(clickedObj ? clickedObj.id : null);
+    if (!clickedObj) {
+      onSelectedIdsChange([]);
+    } else if (!selectedIds.includes(clickedObj.id)) {
+      onSelectedIdsChange([clickedObj.id]);
+    }
+  };
+
+  // Double-clicking text edits it, and a merged object enters it so its children can be edited one by one
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (currentTool !== 'select') return;
+
+    const scopePos = toScope(getCanvasCoords(e));
+    const clickedObj = [...scopeObjects].reverse().find(obj => isInteractive(obj) && isPointInObject(scopePos.x, scopePos.y, obj));
+    if (clickedObj?.type === 'text') {
+      startTextEdit(clickedObj, false, enteredGroup?.id ?? null);
+    } else if (!enteredGroup && clickedObj?.type === 'merged' && clickedObj.children) {
+      onEnterGroup(clickedObj.id);
+    }
+  };
+
+  // The overlay editor sits over the text's box through the same transforms the canvas draws it with
+  const getTextEditorStyle = ({ object, groupId }: TextEdit): React.CSSProperties => {
+    const data = object.data as TextData;
+    const { x, y, width, height, rotation } = object.transform;
+    const { strokeColor, fillColor, strokeWidth, opacity } = object.style;
+    const flip = getFlipScale(object.transform);
+    const group = groupId ? objects.find(obj => obj.id === groupId) : null;
+
+    let matrix = new DOMMatrix([view.zoom / 100, 0, 0, view.zoom / 100, view.x, view.y]);
+    if (group) matrix = matrix.multiply(getGroupMatrix(group));
+    matrix = matrix
+      .translate(x + width / 2, y + height / 2)
+      .rotate(rotation)
+      .scale(flip.x, flip.y)
+      .translate(-width / 2, -height / 2);
+
+    return {
+      left: 0,
+      top: 0,
+      transformOrigin: '0 0',
+      transform: matrix.toString(),
+      // Auto-width text gets room for the caret after its longest line
+      width: data.wrap ? width : width + 2,
+      height,
+      font: getTextFont(data),
+      lineHeight: data.lineHeight,
+      letterSpacing: data.letterSpacing,
+      textAlign: data.align,
+      whiteSpace: data.wrap ? 'pre-wrap' : 'pre',
+      overflowWrap: 'break-word',
+      color: fillColor,
+      caretColor: fillColor === 'transparent' ? strokeColor : fillColor,
+      WebkitTextStroke: strokeColor !== 'transparent' && strokeWidth > 0 ? `${strokeWidth}px ${strokeColor}` : undefined,
+      opacity: opacity ?? 1,
+      background: 'transparent',
+      border: 'none',
+      outline: '1px solid #3b82f6',
+      padding: 0,
+      margin: 0,
+      resize: 'none',
+      overflow: 'hidden'
+    };
   };
 
   return (
-    <div className="w-full h-full bg-gray-300 flex items-center justify-center p-8 overflow-auto">
-      <div className="relative" style={{ transform: `scale(${zoom / 100})`, transformOrigin: 'center' }}>
-        <div className="absolute -top-8 left-0 right-0 text-center text-xs text-gray-600 bg-yellow-50 py-1 px-2 rounded border border-yellow-200">
-          Objects cannot go beyond this canvas area
+    <div ref={containerRef} className="w-full h-full bg-gray-300 relative overflow-hidden">
+      {enteredGroup ? (
+        <div className="absolute left-0 right-0 flex justify-center pointer-events-none" style={{ top: RULER_SIZE + 12 }}>
+          <div className="text-xs text-blue-700 bg-blue-50 py-1 px-2 rounded border border-blue-200">
+            Editing group • Click outside it or press Esc to exit
+          </div>
         </div>
-        
-        <div className="relative shadow-2xl">
-          <canvas
-            ref={canvasRef}
-            width={CANVAS_WIDTH}
-            height={CANVAS_HEIGHT}
-            onMouseDown={handleMouseDown}
-            onMouseMove={handleMouseMove}
-            onMouseUp={handleMouseUp}
-            onMouseLeave={() => {
-              setMarqueeCurrent(null);
-              setMousePosition(null);
-            }}
-            className="bg-white"
-            style={{ cursor: currentTool === 'select' ? 'default' : 'none' }}
-          />
+      ) : TOOL_HINTS[currentTool] ? (
+        <div className="absolute left-0 right-0 flex justify-center pointer-events-none" style={{ top: RULER_SIZE + 12 }}>
+          <div className="text-xs text-blue-700 bg-blue-50 py-1 px-2 rounded border border-blue-200">
+            {TOOL_HINTS[currentTool]}
+          </div>
         </div>
-
-        <div className="absolute -bottom-8 left-0 right-0 text-center text-[10px] text-gray-400">
-          CanvasObject component • SelectionBox component
+      ) : !infiniteCanvas && (
+        <div className="absolute left-0 right-0 flex justify-center pointer-events-none" style={{ top: RULER_SIZE + 12 }}>
+          <div className="text-xs text-gray-600 bg-yellow-50 py-1 px-2 rounded border border-yellow-200">
+            Objects cannot go beyond this canvas area
+          </div>
         </div>
+      )}
+
+      <canvas
+        ref={canvasRef}
+        width={Math.round(viewportSize.width * pixelRatio)}
+        height={Math.round(viewportSize.height * pixelRatio)}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onDoubleClick={handleDoubleClick}
+        onContextMenu={handleContextMenu}
+        onMouseLeave={() => {
+          setMarqueeCurrent(null);
+          setMousePosition(null);
+          setPanStart(null);
+          // Mouseup may happen outside the canvas; finish any object gesture here
+          if (gestureVerb.current) {
+            setIsDrawing(false);
+            setDragStart(null);
+            setResizeHandle(null);
+            setTransformOrigin(null);
+            setGestureBox(null);
+            setNodeDrag(null);
+            setSnapGuides([]);
+            endGesture();
+          }
+          // A closing drag that leaves the canvas still closes the path
+          if (penPath?.closed) finishPenPath();
+          setPenDragIndex(null);
+        }}
+        className="block"
+        style={{
+          width: viewportSize.width,
+          height: viewportSize.height,
+          cursor: panStart
+            ? 'grabbing'
+            : isSpaceDown
+              ? 'grab'
+              : (guideDrag?.axis ?? hoveredGuideAxis) === 'x'
+                ? 'col-resize'
+                : (guideDrag?.axis ?? hoveredGuideAxis) === 'y'
+                  ? 'row-resize'
+                  : currentTool === 'select' || currentTool === 'directSelect'
+                    ? 'default'
+                    : currentTool === 'text' ? 'text' : currentTool === 'pen' ? 'crosshair' : 'none'
+        }}
+      />
+
+      {textEdit && (
+        <textarea
+          ref={textInputRef}
+          value={textEdit.object.data.text}
+          onChange={(e) => handleTextInput(e.target.value)}
+          onBlur={commitTextEdit}
+          onKeyDown={(e) => {
+            // Enter starts a new line; Esc or Ctrl+Enter finish
+            if (e.key === 'Escape' || (e.key === 'Enter' && (e.ctrlKey || e.metaKey))) {
+              e.preventDefault();
+              commitTextEdit();
+            }
+          }}
+          spellCheck={false}
+          className="absolute"
+          style={getTextEditorStyle(textEdit)}
+        />
+      )}
+
+      {showRulers && (
+        <Rulers
+          view={view}
+          viewportSize={viewportSize}
+          pixelRatio={pixelRatio}
+          selection={selectionBounds}
+          onRulerMouseDown={handleRulerMouseDown}
+          corner={<GuidesPopover guides={guides} onChange={onGuidesChange} />}
+        />
+      )}
+
+      <div className="absolute left-0 right-0 text-center text-[10px] text-gray-400 pointer-events-none" style={{ bottom: 8 }}>
+        CanvasObject component • SelectionBox component
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
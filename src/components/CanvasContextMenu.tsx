@@ -0,0 +1,100 @@
+import React from 'react';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger
+} from './ui/context-menu';
+import type { CanvasObject } from '../App';
+import { getObjectTypeName } from '../utils/objectLabels';
+import type { CommandId, CommandRegistry } from '../utils/commands';
+
+interface CanvasContextMenuProps {
+  children: React.ReactNode; // the area that opens the menu on right-click
+  target: CanvasObject | null; // object under the pointer when the menu opened
+  selectionCount: number;
+  commands: CommandRegistry;
+  onSelectAllOfType: (type: CanvasObject['type']) => void;
+}
+
+const ARRANGE_COMMANDS: CommandId[] = [
+  'object.arrange.front',
+  'object.arrange.forward',
+  'object.arrange.backward',
+  'object.arrange.back'
+];
+
+export function CanvasContextMenu({
+  children,
+  target,
+  selectionCount,
+  commands,
+  onSelectAllOfType
+}: CanvasContextMenuProps) {
+  const hasSelection = selectionCount > 0;
+
+  const renderCommand = (id: CommandId) => {
+    const command = commands[id];
+    return (
+      <ContextMenuItem key={id} disabled={command.disabled} onSelect={command.run}>
+        {command.label}
+        {command.shortcut && <ContextMenuShortcut>{command.shortcut}</ContextMenuShortcut>}
+      </ContextMenuItem>
+    );
+  };
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+      <ContextMenuContent className="w-64 bg-white">
+        {hasSelection && (
+          <>
+            {renderCommand('edit.cut')}
+            {renderCommand('edit.copy')}
+          </>
+        )}
+        {renderCommand('edit.paste')}
+        {renderCommand('edit.pasteInPlace')}
+
+        {hasSelection && (
+          <>
+            {renderCommand('edit.duplicate')}
+            {renderCommand('edit.delete')}
+
+            <ContextMenuSeparator />
+            <ContextMenuSub>
+              <ContextMenuSubTrigger>Arrange</ContextMenuSubTrigger>
+              <ContextMenuSubContent className="w-56 bg-white">
+                {ARRANGE_COMMANDS.map(renderCommand)}
+              </ContextMenuSubContent>
+            </ContextMenuSub>
+            {renderCommand('object.group')}
+            {renderCommand('object.ungroup')}
+            {renderCommand('object.flip.horizontal')}
+            {renderCommand('object.flip.vertical')}
+
+            <ContextMenuSeparator />
+            {renderCommand('object.lock')}
+            {renderCommand('object.hide')}
+            {renderCommand('object.rasterize')}
+            {renderCommand('file.exportSelection')}
+          </>
+        )}
+
+        {target && (
+          <>
+            <ContextMenuSeparator />
+            <ContextMenuItem onSelect={() => onSelectAllOfType(target.type)}>
+              Select All {getObjectTypeName(target)}s
+            </ContextMenuItem>
+          </>
+        )}
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+}
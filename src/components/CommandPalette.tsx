@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { defaultFilter } from 'cmdk';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut
+} from './ui/command';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import type { CanvasObject } from '../App';
+import { getLayerName } from '../utils/objectLabels';
+import {
+  COMMAND_GROUPS,
+  getCommandGroup,
+  loadRecentCommands,
+  rememberRecentCommand,
+  type CommandId,
+  type CommandRegistry
+} from '../utils/commands';
+
+// Where choosing an object in the palette takes the selection; see LayersPanel for the same rule
+export type ObjectTarget = { groupId: string | null; id: string };
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  commands: CommandRegistry;
+  objects: CanvasObject[];
+  onGoToObject: (target: ObjectTarget) => void;
+}
+
+interface ObjectEntry {
+  obj: CanvasObject;
+  path: string; // names of the groups it is in, outermost first
+  target: ObjectTarget;
+}
+
+// Every object in the tree, top of the stack first. Only children of top-level groups can be
+// selected on the canvas, so deeper objects go to their ancestor there.
+const listObjects = (
+  list: CanvasObject[],
+  parent: { groupId: string; path: string } | null = null,
+  ancestor: ObjectTarget | null = null
+): ObjectEntry[] =>
+  [...list].reverse().flatMap(obj => {
+    const target = ancestor ?? { groupId: parent?.groupId ?? null, id: obj.id };
+    const entry = { obj, path: parent?.path ?? '', target };
+    if (!obj.children) return [entry];
+
+    const path = parent ? `${parent.path} › ${getLayerName(obj)}` : getLayerName(obj);
+    return [entry, ...listObjects(obj.children, { groupId: parent?.groupId ?? obj.id, path }, parent ? target : null)];
+  });
+
+// How much a recently used command's match score is raised, so it sorts above equally good matches
+const RECENT_BOOST = 1.5;
+
+export function CommandPalette({ open, onOpenChange, commands, objects, onGoToObject }: CommandPaletteProps) {
+  const [recent, setRecent] = useState(loadRecentCommands);
+
+  const recentIds = recent.filter((id): id is CommandId => id in commands);
+  const groups = Object.values(COMMAND_GROUPS).map(heading => ({
+    heading,
+    ids: (Object.keys(commands) as CommandId[]).filter(
+      id => getCommandGroup(id) === heading && !recentIds.includes(id)
+    )
+  }));
+  const objectEntries = useMemo(() => (open ? listObjects(objects) : []), [open, objects]);
+
+  const filter = (value: string, search: string, keywords?: string[]) => {
+    const score = defaultFilter(value, search, keywords);
+    return recentIds.includes(value as CommandId) ? Math.min(1, score * RECENT_BOOST) : score;
+  };
+
+  const runCommand = (id: CommandId) => {
+    setRecent(prev => rememberRecentCommand(prev, id));
+    onOpenChange(false);
+    commands[id].run();
+  };
+
+  const renderCommand = (id: CommandId) => {
+    const command = commands[id];
+    return (
+      <CommandItem
+        key={id}
+        value={id}
+        keywords={[command.label, getCommandGroup(id)]}
+        disabled={command.disabled}
+        onSelect={() => runCommand(id)}
+      >
+        <span className="flex-1">
+          {command.label}
+          {command.checked !== undefined && (
+            <span className="text-xs text-gray-400"> · {command.checked ? 'On' : 'Off'}</span>
+          )}
+        </span>
+        {command.shortcut && <CommandShortcut>{command.shortcut}</CommandShortcut>}
+      </CommandItem>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden bg-white" style={{ padding: 0 }}>
+        {/* Named for screen readers; the search field speaks for itself */}
+        <DialogHeader style={{ display: 'none' }}>
+          <DialogTitle>Command Palette</DialogTitle>
+          <DialogDescription>Search for a command to run or an object to go to</DialogDescription>
+        </DialogHeader>
+        <Command filter={filter}>
+          <CommandInput placeholder="Type a command or object name…" />
+          <CommandList>
+            <CommandEmpty>No matching commands or objects.</CommandEmpty>
+            {recentIds.length > 0 && (
+              <CommandGroup heading="Recently Used">{recentIds.map(renderCommand)}</CommandGroup>
+            )}
+            {groups.map(group => group.ids.length > 0 && (
+              <CommandGroup key={group.heading} heading={group.heading}>{group.ids.map(renderCommand)}</CommandGroup>
+            ))}
+            {objectEntries.length > 0 && (
+              <CommandGroup heading="Go to Object">
+                {objectEntries.map(({ obj, path, target }) => (
+                  <CommandItem
+                    key={obj.id}
+                    value={`goto:${obj.id}`}
+                    keywords={[getLayerName(obj), path]}
+                    onSelect={() => {
+                      onOpenChange(false);
+                      onGoToObject(target);
+                    }}
+                  >
+                    <span className="flex-1">{getLayerName(obj)}</span>
+                    {path && <span className="text-xs text-gray-400">{path}</span>}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
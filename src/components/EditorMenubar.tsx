@@ -0,0 +1,70 @@
+import React from 'react';
+import {
+  Menubar,
+  MenubarCheckboxItem,
+  MenubarContent,
+  MenubarItem,
+  MenubarMenu,
+  MenubarSeparator,
+  MenubarShortcut,
+  MenubarSub,
+  MenubarSubContent,
+  MenubarSubTrigger,
+  MenubarTrigger
+} from './ui/menubar';
+import { EDITOR_MENUS, type CommandRegistry, type MenuEntry } from '../utils/commands';
+
+interface EditorMenubarProps {
+  commands: CommandRegistry;
+}
+
+export function EditorMenubar({ commands }: EditorMenubarProps) {
+  const renderEntry = (entry: MenuEntry, index: number): React.ReactNode => {
+    if (entry === '-') return <MenubarSeparator key={index} />;
+
+    if (typeof entry === 'object') {
+      return (
+        <MenubarSub key={entry.label}>
+          <MenubarSubTrigger>{entry.label}</MenubarSubTrigger>
+          <MenubarSubContent className="w-64 bg-white">{entry.entries.map(renderEntry)}</MenubarSubContent>
+        </MenubarSub>
+      );
+    }
+
+    const command = commands[entry];
+    const shortcut = command.shortcut && <MenubarShortcut>{command.shortcut}</MenubarShortcut>;
+    // Toggles keep their checkmark column; the menu stays open so several can be flipped in a row
+    if (command.checked !== undefined) {
+      return (
+        <MenubarCheckboxItem
+          key={entry}
+          checked={command.checked}
+          disabled={command.disabled}
+          onSelect={(e) => e.preventDefault()}
+          onCheckedChange={command.run}
+        >
+          {command.label}
+          {shortcut}
+        </MenubarCheckboxItem>
+      );
+    }
+
+    return (
+      <MenubarItem key={entry} disabled={command.disabled} onSelect={command.run}>
+        {command.label}
+        {shortcut}
+      </MenubarItem>
+    );
+  };
+
+  return (
+    <Menubar>
+      {EDITOR_MENUS.map(menu => (
+        <MenubarMenu key={menu.label}>
+          <MenubarTrigger>{menu.label}</MenubarTrigger>
+          <MenubarContent className="w-64 bg-white">{menu.entries.map(renderEntry)}</MenubarContent>
+        </MenubarMenu>
+      ))}
+    </Menubar>
+  );
+}
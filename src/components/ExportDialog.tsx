@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Slider } from './ui/slider';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import type { CanvasObject } from '../App';
+import { exportRaster, RASTER_EXTENSIONS, type RasterFormat } from '../utils/rasterExport';
+import { exportSvg } from '../utils/svgExport';
+import { getPaintedBounds, type Bounds } from '../utils/geometry';
+import { downloadBlob } from '../utils/documentFile';
+import type { PageSize } from '../utils/pageSize';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  objects: CanvasObject[];
+  selectedIds: string[];
+  pageSize: PageSize;
+  initialRegion?: 'canvas' | 'selection'; // region picked when the dialog opens; otherwise the last one is kept
+}
+
+type ExportFormat = RasterFormat | 'svg';
+
+export function ExportDialog({ open, onOpenChange, objects, selectedIds, pageSize, initialRegion }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [scale, setScale] = useState(1);
+  const [background, setBackground] = useState<'transparent' | 'white'>('white');
+  const [quality, setQuality] = useState(0.92);
+  const [region, setRegion] = useState<'canvas' | 'selection'>('canvas');
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (open && initialRegion) setRegion(initialRegion);
+  }, [open, initialRegion]);
+
+  const selectedObjects = objects.filter(obj => selectedIds.includes(obj.id));
+  const hasSelection = selectedObjects.length > 0;
+  const exportSelection = region === 'selection' && hasSelection;
+
+  const getRegion = (): Bounds => {
+    if (exportSelection) {
+      return getPaintedBounds(selectedObjects)!;
+    }
+    return { x: 0, y: 0, width: pageSize.width, height: pageSize.height };
+  };
+
+  const exportRegion = getRegion();
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const exported = exportSelection ? selectedObjects : objects;
+      const filename = exportSelection ? 'selection' : 'canvas';
+
+      if (format === 'svg') {
+        const svg = exportSvg(exported, exportRegion, { background });
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${filename}.svg`);
+      } else {
+        const blob = await exportRaster(exported, exportRegion, { format, scale, background, quality });
+        downloadBlob(blob, `${filename}.${RASTER_EXTENSIONS[format]}`);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Export failed', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-white">
+        <DialogHeader>
+          <DialogTitle>Export</DialogTitle>
+          <DialogDescription>
+            Renders the document without selection handles or cursors.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label className="text-xs">Format</Label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="png">PNG</option>
+              <option value="jpeg">JPEG</option>
+              <option value="webp">WebP</option>
+              <option value="svg">SVG (vector)</option>
+            </select>
+          </div>
+
+          {format !== 'svg' && (
+            <div>
+              <Label className="text-xs">Scale</Label>
+              <select
+                value={scale}
+                onChange={(e) => setScale(Number(e.target.value))}
+                className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value={1}>1x</option>
+                <option value={2}>2x</option>
+                <option value={4}>4x</option>
+              </select>
+            </div>
+          )}
+
+          <div>
+            <Label className="text-xs">Background</Label>
+            <select
+              value={format === 'jpeg' ? 'white' : background}
+              onChange={(e) => setBackground(e.target.value as 'transparent' | 'white')}
+              disabled={format === 'jpeg'}
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="white">White</option>
+              <option value="transparent">Transparent</option>
+            </select>
+            {format === 'jpeg' && (
+              <div className="text-xs text-gray-500 mt-1">JPEG does not support transparency</div>
+            )}
+          </div>
+
+          {(format === 'jpeg' || format === 'webp') && (
+            <div>
+              <Label className="text-xs">Quality</Label>
+              <Slider
+                value={[quality * 100]}
+                onValueChange={([value]) => setQuality(value / 100)}
+                min={10}
+                max={100}
+                step={1}
+                className="mt-2"
+              />
+              <div className="text-xs text-gray-500 mt-1">{Math.round(quality * 100)}%</div>
+            </div>
+          )}
+
+          <div>
+            <Label className="text-xs">Area</Label>
+            <select
+              value={exportSelection ? 'selection' : 'canvas'}
+              onChange={(e) => setRegion(e.target.value as 'canvas' | 'selection')}
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="canvas">Whole canvas</option>
+              <option value="selection" disabled={!hasSelection}>
+                Selection only{hasSelection ? ` (${selectedObjects.length})` : ''}
+              </option>
+            </select>
+          </div>
+
+          <div className="text-xs text-gray-500">
+            {format === 'svg'
+              ? `Document size: ${Math.round(exportRegion.width)} × ${Math.round(exportRegion.height)}`
+              : `Output size: ${Math.round(exportRegion.width * scale)} × ${Math.round(exportRegion.height * scale)} px`}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            <Download className="size-4 mr-1" />
+            {isExporting ? 'Exporting…' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
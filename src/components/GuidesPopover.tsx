@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Lock, LockOpen, Ruler, Trash2 } from 'lucide-react';
+import type { GuideLine } from '../utils/guides';
+
+interface GuidesPopoverProps {
+  guides: GuideLine[];
+  onChange: (guides: GuideLine[], label: string) => void;
+}
+
+interface GuideRowProps {
+  guide: GuideLine;
+  onMove: (position: number) => void;
+  onToggleLocked: () => void;
+  onDelete: () => void;
+}
+
+// The position is committed on Enter or blur, so typing a number is one undo step
+function GuideRow({ guide, onMove, onToggleLocked, onDelete }: GuideRowProps) {
+  const [draft, setDraft] = useState(String(guide.position));
+
+  useEffect(() => {
+    setDraft(String(guide.position));
+  }, [guide.position]);
+
+  const commit = () => {
+    const position = Number(draft);
+    if (draft.trim() !== '' && Number.isFinite(position) && position !== guide.position) {
+      onMove(position);
+    } else {
+      setDraft(String(guide.position));
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-16 shrink-0 text-xs text-gray-500">{guide.axis === 'x' ? 'Vertical' : 'Horizontal'}</span>
+      <Input
+        type="number"
+        value={draft}
+        disabled={guide.locked}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setDraft(String(guide.position));
+        }}
+        title={guide.axis === 'x' ? 'X position (px)' : 'Y position (px)'}
+      />
+      <Button variant="ghost" size="icon" onClick={onToggleLocked} title={guide.locked ? 'Unlock' : 'Lock'}>
+        {guide.locked ? <Lock className="size-4" /> : <LockOpen className="size-4" />}
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onDelete} title="Delete">
+        <Trash2 className="size-4" />
+      </Button>
+    </div>
+  );
+}
+
+export function GuidesPopover({ guides, onChange }: GuidesPopoverProps) {
+  const allLocked = guides.length > 0 && guides.every(guide => guide.locked);
+
+  const updateGuide = (id: string, updates: Partial<GuideLine>, label: string) => {
+    onChange(guides.map(guide => (guide.id === id ? { ...guide, ...updates } : guide)), label);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="flex items-center justify-center text-gray-500" title="Guides">
+          <Ruler className="size-3.5" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 bg-white space-y-4">
+        <h3 className="text-sm font-medium">Guides</h3>
+
+        {guides.length === 0 ? (
+          <p className="text-xs text-gray-500">Drag from a ruler onto the canvas to add a guide.</p>
+        ) : (
+          <div className="flex flex-col gap-2 overflow-y-auto" style={{ maxHeight: 240 }}>
+            {guides.map(guide => (
+              <GuideRow
+                key={guide.id}
+                guide={guide}
+                onMove={(position) => updateGuide(guide.id, { position }, 'Move Guide')}
+                onToggleLocked={() =>
+                  updateGuide(guide.id, { locked: !guide.locked }, guide.locked ? 'Unlock Guide' : 'Lock Guide')
+                }
+                onDelete={() => onChange(guides.filter(g => g.id !== guide.id), 'Delete Guide')}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-between gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={guides.length === 0}
+            onClick={() =>
+              onChange(guides.map(guide => ({ ...guide, locked: !allLocked })), allLocked ? 'Unlock Guides' : 'Lock Guides')
+            }
+          >
+            {allLocked ? 'Unlock all' : 'Lock all'}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={guides.length === 0}
+            onClick={() => onChange([], 'Clear Guides')}
+          >
+            Clear guides
+          </Button>
+        </div>
+
+        <p className="text-xs text-gray-500">Drag a guide back onto its ruler to remove it.</p>
+      </PopoverContent>
+    </Popover>
+  );
+}
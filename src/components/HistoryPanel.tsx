@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Label } from './ui/label';
+import {
+  AlignHorizontalSpaceBetween,
+  AlignStartVertical,
+  ArrowUpDown,
+  Blend,
+  ChevronDown,
+  ChevronRight,
+  CircleDot,
+  ClipboardPaste,
+  Combine,
+  Copy,
+  Diff,
+  Eraser,
+  Eye,
+  FileInput,
+  FlipHorizontal2,
+  GitBranch,
+  ImageIcon,
+  Layers,
+  Lock,
+  Move,
+  Paintbrush,
+  Pencil,
+  Plus,
+  RotateCw,
+  Scaling,
+  Scissors,
+  SlidersHorizontal,
+  SquareMinus,
+  Trash2,
+  Ungroup,
+  type LucideIcon
+} from 'lucide-react';
+import {
+  getActiveBranch,
+  getAlternateChildren,
+  getBranchFrom,
+  getStepCount,
+  type HistoryEntry,
+  type HistoryTree
+} from '../utils/history';
+
+interface HistoryPanelProps {
+  history: HistoryTree;
+  onJumpToStep: (entryId: number) => void;
+  onLimitChange: (limit: number) => void;
+}
+
+const LIMIT_OPTIONS = [25, 50, 100, 200, 500];
+
+// Step labels start with the action's verb ("Move Rectangle", "Brush Stroke", ...)
+const getStepIcon = (entry: HistoryEntry): LucideIcon => {
+  if (entry.parentId === null) return CircleDot;
+  switch (entry.label.split(' ')[0]) {
+    case 'Brush': return Paintbrush;
+    case 'Erase': return Eraser;
+    case 'Move': return Move;
+    case 'Resize': return Scaling;
+    case 'Rotate': return RotateCw;
+    case 'Add': return Plus;
+    case 'Paste': return ClipboardPaste;
+    case 'Duplicate': return Copy;
+    case 'Cut': return Scissors;
+    case 'Delete':
+    case 'Clear': return Trash2;
+    case 'Merge': return Layers;
+    case 'Ungroup': return Ungroup;
+    case 'Union': return Combine;
+    case 'Subtract': return SquareMinus;
+    case 'Intersect': return Blend;
+    case 'Exclude': return Diff;
+    case 'Import': return FileInput;
+    case 'Rename': return Pencil;
+    case 'Reorder':
+    case 'Bring':
+    case 'Send': return ArrowUpDown;
+    case 'Align': return AlignStartVertical;
+    case 'Distribute': return AlignHorizontalSpaceBetween;
+    case 'Flip': return FlipHorizontal2;
+    case 'Rasterize': return ImageIcon;
+    case 'Hide':
+    case 'Show': return Eye;
+    case 'Lock':
+    case 'Unlock': return Lock;
+    default: return SlidersHorizontal;
+  }
+};
+
+export function HistoryPanel({ history, onJumpToStep, onLimitChange }: HistoryPanelProps) {
+  // Alternate branches are collapsed until expanded, keyed by their first step
+  const [expandedIds, setExpandedIds] = useState<Set<number>>(new Set());
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  const activeBranch = getActiveBranch(history);
+  const currentIndex = activeBranch.findIndex(entry => entry.id === history.currentId);
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [history.currentId]);
+
+  const toggleExpanded = (entryId: number) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(entryId)) {
+        next.delete(entryId);
+      } else {
+        next.add(entryId);
+      }
+      return next;
+    });
+  };
+
+  // Steps of one branch, each followed by the branches that fork off after it
+  const renderSteps = (steps: HistoryEntry[], isUndone: (index: number) => boolean, depth: number) =>
+    steps.map((entry, index) => {
+      const Icon = getStepIcon(entry);
+      const isCurrent = entry.id === history.currentId;
+
+      return (
+        <React.Fragment key={entry.id}>
+          <button
+            ref={isCurrent ? currentRef : undefined}
+            onClick={() => onJumpToStep(entry.id)}
+            className={`w-full flex items-center gap-2 py-1 pr-2 rounded text-left text-xs ${
+              isCurrent
+                ? 'bg-blue-50 text-blue-700'
+                : isUndone(index)
+                  ? 'text-gray-400 hover:bg-gray-50'
+                  : 'text-gray-700 hover:bg-gray-50'
+            }`}
+            style={{ paddingLeft: 8 + depth * 12 }}
+            title={new Date(entry.timestamp).toLocaleTimeString()}
+          >
+            <Icon className="size-3.5 shrink-0" />
+            <span className="truncate">{entry.label}</span>
+          </button>
+
+          {getAlternateChildren(history, entry.id).map(alternate => {
+            const branch = getBranchFrom(history, alternate.id);
+            const isExpanded = expandedIds.has(alternate.id);
+
+            return (
+              <React.Fragment key={alternate.id}>
+                <button
+                  onClick={() => toggleExpanded(alternate.id)}
+                  className="w-full flex items-center gap-2 py-1 pr-2 rounded text-left text-xs text-gray-500 hover:bg-gray-50"
+                  style={{ paddingLeft: 8 + (depth + 1) * 12 }}
+                >
+                  {isExpanded ? <ChevronDown className="size-3.5 shrink-0" /> : <ChevronRight className="size-3.5 shrink-0" />}
+                  <GitBranch className="size-3.5 shrink-0" />
+                  <span className="truncate">
+                    Alternate branch ({branch.length} {branch.length === 1 ? 'step' : 'steps'})
+                  </span>
+                </button>
+                {/* Nothing on an alternate branch is applied */}
+                {isExpanded && renderSteps(branch, () => true, depth + 2)}
+              </React.Fragment>
+            );
+          })}
+        </React.Fragment>
+      );
+    });
+
+  return (
+    <div className="h-64 border-t border-gray-200 flex flex-col">
+      <div className="flex items-center justify-between px-4 pt-3 pb-2">
+        <h2 className="text-gray-900">History</h2>
+        <span className="text-xs text-gray-500">
+          {getStepCount(history)} / {history.limit}
+        </span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-2">
+        {renderSteps(activeBranch, index => index > currentIndex, 0)}
+      </div>
+
+      <div className="px-4 py-2 border-t border-gray-200">
+        <Label className="text-xs">Step Limit</Label>
+        <select
+          value={history.limit}
+          onChange={(e) => onLimitChange(Number(e.target.value))}
+          className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          {LIMIT_OPTIONS.map(limit => (
+            <option key={limit} value={limit}>{limit} steps</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
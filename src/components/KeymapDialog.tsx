@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, RotateCcw, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { ShortcutKey } from './ShortcutsDialog';
+import { COMMAND_GROUPS, getCommandGroup, type CommandId, type CommandRegistry } from '../utils/commands';
+import {
+  DEFAULT_KEYMAP,
+  RESERVED_SHORTCUTS,
+  bindShortcut,
+  findConflicts,
+  getEventShortcut,
+  resetShortcuts,
+  unbindShortcut,
+  type Keymap
+} from '../utils/keymap';
+
+interface KeymapDialogProps {
+  open: boolean;
+  commands: CommandRegistry;
+  keymap: Keymap;
+  onChange: (keymap: Keymap) => void;
+  onClose: () => void;
+}
+
+// A pressed shortcut that can't be bound straight away
+interface PendingShortcut {
+  id: CommandId;
+  shortcut: string;
+  conflicts: CommandId[];
+  reserved?: string; // what the browser or canvas does with it, if it can't be bound at all
+}
+
+const isDefault = (keymap: Keymap, id: CommandId) => {
+  const bindings = keymap[id] ?? [];
+  const defaults = DEFAULT_KEYMAP[id] ?? [];
+  return bindings.length === defaults.length && bindings.every((shortcut, i) => shortcut === defaults[i]);
+};
+
+export function KeymapDialog({ open, commands, keymap, onChange, onClose }: KeymapDialogProps) {
+  const [search, setSearch] = useState('');
+  const [recordingId, setRecordingId] = useState<CommandId | null>(null);
+  const [pending, setPending] = useState<PendingShortcut | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setRecordingId(null);
+      setPending(null);
+    }
+  }, [open]);
+
+  // While recording, the next shortcut pressed is captured before the dialog or the editor sees it
+  useEffect(() => {
+    if (!recordingId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape' && !e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey) {
+        setRecordingId(null);
+        return;
+      }
+
+      const shortcut = getEventShortcut(e);
+      if (!shortcut) return; // a modifier on its own; wait for the key
+
+      setRecordingId(null);
+      if (keymap[recordingId]?.includes(shortcut)) return;
+
+      const conflicts = findConflicts(keymap, shortcut, recordingId);
+      if (shortcut in RESERVED_SHORTCUTS || conflicts.length > 0) {
+        setPending({ id: recordingId, shortcut, conflicts, reserved: RESERVED_SHORTCUTS[shortcut] });
+      } else {
+        onChange(bindShortcut(keymap, recordingId, shortcut));
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingId, keymap, onChange]);
+
+  const startRecording = (id: CommandId) => {
+    setPending(null);
+    setRecordingId(id);
+  };
+
+  const reassign = () => {
+    if (!pending) return;
+    onChange(bindShortcut(keymap, pending.id, pending.shortcut));
+    setPending(null);
+  };
+
+  const query = search.trim().toLowerCase();
+  const groups = Object.values(COMMAND_GROUPS)
+    .map(heading => ({
+      heading,
+      ids: (Object.keys(commands) as CommandId[]).filter(
+        id =>
+          getCommandGroup(id) === heading &&
+          (!query ||
+            commands[id].label.toLowerCase().includes(query) ||
+            (keymap[id] ?? []).some(shortcut => shortcut.toLowerCase().includes(query)))
+      )
+    }))
+    .filter(group => group.ids.length > 0);
+
+  const renderPending = ({ shortcut, conflicts, reserved }: PendingShortcut) => (
+    <div className="flex items-center gap-2 py-1 text-xs">
+      <span className="flex-1" style={{ color: '#b45309' }}>
+        {reserved
+          ? `${shortcut} can't be used: it ${reserved}.`
+          : `${shortcut} is already used by ${conflicts.map(id => commands[id].label).join(', ')}.`}
+      </span>
+      {!reserved && (
+        <Button size="sm" onClick={reassign}>
+          Reassign
+        </Button>
+      )}
+      <Button size="sm" variant="outline" onClick={() => setPending(null)}>
+        Cancel
+      </Button>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="bg-white">
+        <DialogHeader>
+          <DialogTitle>Customize Shortcuts</DialogTitle>
+          <DialogDescription>
+            Click + and press the keys to add a shortcut. Changes are saved in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search commands or keys…" />
+
+        <div className="overflow-y-auto space-y-4" style={{ maxHeight: '50vh' }}>
+          {groups.map(group => (
+            <div key={group.heading}>
+              <div className="text-xs font-medium text-gray-500 mb-2">{group.heading}</div>
+              {group.ids.map(id => (
+                <div key={id}>
+                  <div className="flex items-center gap-2 py-1 text-sm">
+                    <span className="flex-1 min-w-0">{commands[id].label}</span>
+                    {(keymap[id] ?? []).map(shortcut => (
+                      <span key={shortcut} className="flex items-center gap-1 shrink-0">
+                        <ShortcutKey shortcut={shortcut} />
+                        <button
+                          className="text-gray-400"
+                          onClick={() => onChange(unbindShortcut(keymap, id, shortcut))}
+                          title={`Remove ${shortcut}`}
+                        >
+                          <X className="size-3.5" />
+                        </button>
+                      </span>
+                    ))}
+                    {recordingId === id ? (
+                      <span className="text-xs text-gray-500 shrink-0">Press keys… (Esc to cancel)</span>
+                    ) : (
+                      <Button variant="ghost" size="icon" onClick={() => startRecording(id)} title="Add Shortcut">
+                        <Plus className="size-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onChange(resetShortcuts(keymap, id))}
+                      disabled={isDefault(keymap, id)}
+                      title="Reset to Default"
+                    >
+                      <RotateCcw className="size-4" />
+                    </Button>
+                  </div>
+                  {pending?.id === id && renderPending(pending)}
+                </div>
+              ))}
+            </div>
+          ))}
+          {groups.length === 0 && <div className="text-sm text-gray-500">No matching commands.</div>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onChange(DEFAULT_KEYMAP)}>
+            Reset All
+          </Button>
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
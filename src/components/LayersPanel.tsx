@@ -0,0 +1,305 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import {
+  ChevronDown,
+  ChevronRight,
+  Eye,
+  EyeOff,
+  GripVertical,
+  Layers,
+  Lock,
+  LockOpen,
+  PanelLeftClose
+} from 'lucide-react';
+import type { CanvasObject } from '../App';
+import { drawObject, type ImageCache } from '../utils/drawObject';
+import { getObjectBounds } from '../utils/geometry';
+import { getLayerName } from '../utils/objectLabels';
+import type { StackPlacement } from '../utils/layers';
+
+interface LayersPanelProps {
+  objects: CanvasObject[];
+  selectedIds: string[];
+  enteredGroupId: string | null;
+  onSelect: (id: string, additive: boolean) => void;
+  onSelectChild: (groupId: string, childId: string) => void;
+  onRename: (id: string, name: string) => void;
+  onToggleHidden: (id: string) => void;
+  onToggleLocked: (id: string) => void;
+  onReorder: (parentId: string | null, id: string, targetId: string, placement: StackPlacement) => void;
+}
+
+const THUMBNAIL_WIDTH = 40;
+const THUMBNAIL_HEIGHT = 28;
+
+// Thumbnails share one image cache across rows
+const thumbnailImages: ImageCache = new Map();
+
+// The object alone, scaled to fit a small preview box
+const LayerThumbnail = React.memo(function LayerThumbnail({ object }: { object: CanvasObject }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [imagesLoaded, setImagesLoaded] = useState(0);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const bounds = getObjectBounds(object);
+    const padding = object.style.strokeWidth / 2;
+    const width = bounds.width + padding * 2;
+    const height = bounds.height + padding * 2;
+    const scale = Math.min((canvas.width - 4) / width, (canvas.height - 4) / height);
+
+    ctx.save();
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.scale(scale, scale);
+    ctx.translate(-(bounds.x + bounds.width / 2), -(bounds.y + bounds.height / 2));
+    // Hidden layers still get a preview; the row itself is dimmed instead
+    drawObject(ctx, { ...object, hidden: false }, thumbnailImages, () => setImagesLoaded(n => n + 1));
+    ctx.restore();
+  }, [object, imagesLoaded]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={THUMBNAIL_WIDTH * 2}
+      height={THUMBNAIL_HEIGHT * 2}
+      className="bg-white border border-gray-200 rounded shrink-0"
+      style={{ width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT }}
+    />
+  );
+});
+
+export function LayersPanel({
+  objects,
+  selectedIds,
+  enteredGroupId,
+  onSelect,
+  onSelectChild,
+  onRename,
+  onToggleHidden,
+  onToggleLocked,
+  onReorder
+}: LayersPanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  // Layer being dragged; it can only be dropped among its own siblings
+  const dragItem = useRef<{ id: string; parentId: string | null } | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; placement: StackPlacement } | null>(null);
+
+  // Show the children of the group being edited on the canvas
+  useEffect(() => {
+    if (enteredGroupId) {
+      setExpandedIds(prev => (prev.has(enteredGroupId) ? prev : new Set(prev).add(enteredGroupId)));
+    }
+  }, [enteredGroupId]);
+
+  const setExpanded = (id: string, expanded: boolean) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (expanded) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const startRename = (obj: CanvasObject) => {
+    setEditingId(obj.id);
+    setEditingName(getLayerName(obj));
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, editingName);
+    setEditingId(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent, obj: CanvasObject, parentId: string | null) => {
+    if (!dragItem.current || dragItem.current.parentId !== parentId) return;
+    e.preventDefault();
+
+    // Top half of a row drops above it in the stack, bottom half below
+    const rect = e.currentTarget.getBoundingClientRect();
+    const placement: StackPlacement = e.clientY < rect.top + rect.height / 2 ? 'above' : 'below';
+    if (dropTarget?.id !== obj.id || dropTarget.placement !== placement) {
+      setDropTarget({ id: obj.id, placement });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, parentId: string | null) => {
+    e.preventDefault();
+    if (dragItem.current && dropTarget && dragItem.current.parentId === parentId) {
+      onReorder(parentId, dragItem.current.id, dropTarget.id, dropTarget.placement);
+    }
+    dragItem.current = null;
+    setDropTarget(null);
+  };
+
+  // Rows are listed top of the stack first, like the canvas shows them. Only children of
+  // top-level groups can be edited on the canvas, so deeper rows select their ancestor there.
+  const renderRows = (
+    list: CanvasObject[],
+    parentId: string | null,
+    depth: number,
+    ancestor: { groupId: string; childId: string } | null = null
+  ) =>
+    [...list].reverse().map(obj => {
+      const selectTarget = ancestor ?? (parentId !== null ? { groupId: parentId, childId: obj.id } : null);
+      const isGroup = obj.type === 'merged' && !!obj.children;
+      const isExpanded = isGroup && expandedIds.has(obj.id);
+      const isSelected = selectedIds.includes(obj.id) && (parentId === null ? !enteredGroupId : enteredGroupId === parentId);
+      const indicator = dropTarget?.id === obj.id ? dropTarget.placement : null;
+
+      const row = (
+        <div
+          draggable={editingId !== obj.id}
+          onDragStart={(e) => {
+            dragItem.current = { id: obj.id, parentId };
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragOver={(e) => handleDragOver(e, obj, parentId)}
+          onDragLeave={() => setDropTarget(prev => (prev?.id === obj.id ? null : prev))}
+          onDrop={(e) => handleDrop(e, parentId)}
+          onDragEnd={() => {
+            dragItem.current = null;
+            setDropTarget(null);
+          }}
+          onClick={(e) => {
+            if (selectTarget) {
+              onSelectChild(selectTarget.groupId, selectTarget.childId);
+            } else {
+              onSelect(obj.id, e.ctrlKey || e.metaKey);
+            }
+          }}
+          className={`group relative flex items-center gap-1.5 py-1 pr-1 rounded cursor-pointer text-xs ${
+            isSelected ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+          }`}
+          style={{ paddingLeft: 4 + depth * 16 }}
+        >
+          {indicator && (
+            <div
+              className={`absolute left-0 right-0 h-0.5 bg-blue-500 ${indicator === 'above' ? 'top-0' : 'bottom-0'}`}
+            />
+          )}
+
+          <GripVertical className="size-3.5 shrink-0 text-gray-300" />
+
+          {isGroup ? (
+            <CollapsibleTrigger asChild>
+              <button
+                onClick={(e) => e.stopPropagation()}
+                className="shrink-0 text-gray-500"
+                title={isExpanded ? 'Collapse' : 'Expand'}
+              >
+                {isExpanded ? <ChevronDown className="size-3.5" /> : <ChevronRight className="size-3.5" />}
+              </button>
+            </CollapsibleTrigger>
+          ) : (
+            <span className="size-3.5 shrink-0" />
+          )}
+
+          <div className={obj.hidden ? 'opacity-40' : undefined}>
+            <LayerThumbnail object={obj} />
+          </div>
+
+          {editingId === obj.id ? (
+            <Input
+              autoFocus
+              value={editingName}
+              onChange={(e) => setEditingName(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setEditingId(null);
+              }}
+              className="h-6 px-1 text-xs"
+            />
+          ) : (
+            <span
+              className={`flex-1 truncate ${obj.hidden ? 'text-gray-400' : ''}`}
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                startRename(obj);
+              }}
+              title="Double-click to rename"
+            >
+              {getLayerName(obj)}
+            </span>
+          )}
+
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleHidden(obj.id);
+            }}
+            className={`shrink-0 p-0.5 text-gray-500 hover:text-gray-900 ${obj.hidden ? '' : 'opacity-0 group-hover:opacity-100'}`}
+            title={obj.hidden ? 'Show' : 'Hide'}
+          >
+            {obj.hidden ? <EyeOff className="size-3.5" /> : <Eye className="size-3.5" />}
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleLocked(obj.id);
+            }}
+            className={`shrink-0 p-0.5 text-gray-500 hover:text-gray-900 ${obj.locked ? '' : 'opacity-0 group-hover:opacity-100'}`}
+            title={obj.locked ? 'Unlock' : 'Lock'}
+          >
+            {obj.locked ? <Lock className="size-3.5" /> : <LockOpen className="size-3.5" />}
+          </button>
+        </div>
+      );
+
+      if (!isGroup) {
+        return <React.Fragment key={obj.id}>{row}</React.Fragment>;
+      }
+
+      return (
+        <Collapsible key={obj.id} open={isExpanded} onOpenChange={(open) => setExpanded(obj.id, open)}>
+          {row}
+          <CollapsibleContent>
+            {renderRows(obj.children!, obj.id, depth + 1, selectTarget)}
+          </CollapsibleContent>
+        </Collapsible>
+      );
+    });
+
+  if (!isOpen) {
+    return (
+      <div className="w-10 bg-white border-r border-gray-200 flex flex-col items-center py-4">
+        <Button variant="ghost" size="icon" onClick={() => setIsOpen(true)} title="Show Layers">
+          <Layers className="size-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-60 bg-white border-r border-gray-200 flex flex-col">
+      <div className="flex items-center justify-between px-4 pt-4 pb-2">
+        <h2 className="text-gray-900">Layers</h2>
+        <Button variant="ghost" size="icon" onClick={() => setIsOpen(false)} title="Hide Layers">
+          <PanelLeftClose className="size-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-2 pb-2">
+        {objects.length === 0 ? (
+          <p className="px-2 text-xs text-gray-500">Shapes, strokes and images you add appear here.</p>
+        ) : (
+          renderRows(objects, null, 0)
+        )}
+      </div>
+    </div>
+  );
+}
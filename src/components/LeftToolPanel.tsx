@@ -1,5 +1,5 @@
 import React from 'react';
-import { MousePointer2, Paintbrush, Eraser, Square, Circle, Triangle, Minus, Hexagon, Star, Layers } from 'lucide-react';
+import { MousePointer2, MousePointer, Paintbrush, Eraser, PenTool, Type, Square, Circle, Triangle, Minus, Hexagon, Star, Layers } from 'lucide-react';
 import { Button } from './ui/button';
 import { Separator } from './ui/separator';
 import {
@@ -14,13 +14,19 @@ import type { Tool } from '../App';
 interface LeftToolPanelProps {
   currentTool: Tool;
   onToolChange: (tool: Tool) => void;
+  shortcuts: Partial<Record<Tool, string>>; // from the keymap, shown in tooltips
 }
 
-export function LeftToolPanel({ currentTool, onToolChange }: LeftToolPanelProps) {
+export function LeftToolPanel({ currentTool, onToolChange, shortcuts }: LeftToolPanelProps) {
+  const withShortcut = (label: string, tool: Tool) => (shortcuts[tool] ? `${label} (${shortcuts[tool]})` : label);
+
   const tools = [
     { id: 'select' as Tool, icon: MousePointer2, label: 'Select / Move Tool' },
+    { id: 'directSelect' as Tool, icon: MousePointer, label: 'Direct Selection Tool (edit path points)' },
     { id: 'brush' as Tool, icon: Paintbrush, label: 'Brush / Free Draw Tool' },
     { id: 'eraser' as Tool, icon: Eraser, label: 'Eraser Tool' },
+    { id: 'pen' as Tool, icon: PenTool, label: 'Pen Tool' },
+    { id: 'text' as Tool, icon: Type, label: 'Text Tool' },
   ];
 
   const shapeTools = [
@@ -57,7 +63,7 @@ export function LeftToolPanel({ currentTool, onToolChange }: LeftToolPanelProps)
               </div>
             </TooltipTrigger>
             <TooltipContent side="right">
-              <p>{tool.label}</p>
+              <p>{withShortcut(tool.label, tool.id)}</p>
             </TooltipContent>
           </Tooltip>
         ))}
@@ -88,6 +94,7 @@ export function LeftToolPanel({ currentTool, onToolChange }: LeftToolPanelProps)
               >
                 <shape.icon className="size-4" />
                 <span>{shape.label}</span>
+                {shortcuts[shape.id] && <span className="ml-auto text-xs text-gray-400">{shortcuts[shape.id]}</span>}
               </DropdownMenuItem>
             ))}
           </DropdownMenuContent>
@@ -109,7 +116,7 @@ export function LeftToolPanel({ currentTool, onToolChange }: LeftToolPanelProps)
             </div>
           </TooltipTrigger>
           <TooltipContent side="right">
-            <p>Merge / Group Tool</p>
+            <p>{withShortcut('Merge / Group Tool', 'merge')}</p>
           </TooltipContent>
         </Tooltip>
 
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  DEFAULT_PAGE_SIZE,
+  getPresetSize,
+  isPaperPreset,
+  isValidPageSize,
+  MAX_PAGE_DIMENSION,
+  MIN_PAGE_DIMENSION,
+  PAGE_ANCHORS,
+  PAGE_PRESETS,
+  PAPER_DPI_OPTIONS,
+  type PageAnchor,
+  type PageOrientation,
+  type PagePresetId,
+  type PageSize
+} from '../utils/pageSize';
+
+export type PageSizeDialogMode = 'new' | 'resize';
+
+interface PageSizeDialogProps {
+  mode: PageSizeDialogMode | null; // null while closed
+  pageSize: PageSize;
+  onClose: () => void;
+  onCreate: (size: PageSize) => void;
+  onResize: (size: PageSize, anchor: PageAnchor) => void;
+}
+
+export function PageSizeDialog({ mode, pageSize, onClose, onCreate, onResize }: PageSizeDialogProps) {
+  const [preset, setPreset] = useState<PagePresetId>('default');
+  const [dpi, setDpi] = useState(96);
+  const [orientation, setOrientation] = useState<PageOrientation>('landscape');
+  const [customWidth, setCustomWidth] = useState(String(DEFAULT_PAGE_SIZE.width));
+  const [customHeight, setCustomHeight] = useState(String(DEFAULT_PAGE_SIZE.height));
+  const [anchor, setAnchor] = useState<PageAnchor>('center');
+
+  // A new document starts from the default page; resizing starts from the current one
+  useEffect(() => {
+    if (!mode) return;
+    setPreset(mode === 'new' ? 'default' : 'custom');
+    setOrientation('landscape');
+    setCustomWidth(String(mode === 'new' ? DEFAULT_PAGE_SIZE.width : pageSize.width));
+    setCustomHeight(String(mode === 'new' ? DEFAULT_PAGE_SIZE.height : pageSize.height));
+    setAnchor('center');
+  }, [mode, pageSize]);
+
+  const size: PageSize = preset === 'custom'
+    ? { width: Math.round(Number(customWidth)), height: Math.round(Number(customHeight)) }
+    : getPresetSize(preset, dpi, orientation)!;
+  const isValid = isValidPageSize(size);
+
+  const handlePresetChange = (id: PagePresetId) => {
+    // Paper sizes read naturally upright; screen sizes keep their landscape shape
+    if (id !== 'custom') setOrientation(isPaperPreset(id) ? 'portrait' : 'landscape');
+    if (id === 'custom' && isValid) {
+      setCustomWidth(String(size.width));
+      setCustomHeight(String(size.height));
+    }
+    setPreset(id);
+  };
+
+  const handleConfirm = () => {
+    if (!isValid) return;
+    if (mode === 'new') {
+      onCreate(size);
+    } else {
+      onResize(size, anchor);
+    }
+  };
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-white">
+        <DialogHeader>
+          <DialogTitle>{mode === 'new' ? 'New Document' : 'Page Size'}</DialogTitle>
+          <DialogDescription>
+            {mode === 'new'
+              ? 'Choose the page size for the new drawing. The current drawing is discarded.'
+              : 'Change the page size. Content stays pinned to the chosen anchor.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label className="text-xs">Preset</Label>
+            <select
+              value={preset}
+              onChange={(e) => handlePresetChange(e.target.value as PagePresetId)}
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {PAGE_PRESETS.map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+              <option value="custom">Custom</option>
+            </select>
+          </div>
+
+          {preset === 'custom' ? (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label className="text-xs">Width (px)</Label>
+                <Input
+                  type="number"
+                  min={MIN_PAGE_DIMENSION}
+                  max={MAX_PAGE_DIMENSION}
+                  value={customWidth}
+                  onChange={(e) => setCustomWidth(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Height (px)</Label>
+                <Input
+                  type="number"
+                  min={MIN_PAGE_DIMENSION}
+                  max={MAX_PAGE_DIMENSION}
+                  value={customHeight}
+                  onChange={(e) => setCustomHeight(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {isPaperPreset(preset) && (
+                <div>
+                  <Label className="text-xs">Resolution</Label>
+                  <select
+                    value={dpi}
+                    onChange={(e) => setDpi(Number(e.target.value))}
+                    className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    {PAPER_DPI_OPTIONS.map(option => (
+                      <option key={option} value={option}>{option} DPI</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <Label className="text-xs">Orientation</Label>
+                <select
+                  value={orientation}
+                  onChange={(e) => setOrientation(e.target.value as PageOrientation)}
+                  className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="portrait">Portrait</option>
+                  <option value="landscape">Landscape</option>
+                </select>
+              </div>
+            </div>
+          )}
+
+          {mode === 'resize' && (
+            <div>
+              <Label className="text-xs">Anchor</Label>
+              <div className="grid grid-cols-3 gap-1 w-24 mt-1">
+                {PAGE_ANCHORS.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setAnchor(option)}
+                    className={`h-7 rounded border ${
+                      anchor === option ? 'bg-blue-500 border-blue-600' : 'bg-white border-gray-300 hover:bg-gray-50'
+                    }`}
+                    title={option}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="text-xs text-gray-500">
+            {isValid
+              ? `Page size: ${size.width} × ${size.height} px`
+              : `Width and height must be between ${MIN_PAGE_DIMENSION} and ${MAX_PAGE_DIMENSION} px`}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!isValid}>
+            {mode === 'new' ? 'Create' : 'Resize'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
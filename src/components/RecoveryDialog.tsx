@@ -0,0 +1,85 @@
+import React, { useEffect, useMemo } from 'react';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { History } from 'lucide-react';
+import type { RecoverableSession } from '../utils/autosave';
+
+interface RecoveryDialogProps {
+  sessions: RecoverableSession[];
+  onRestore: (sessionId: string) => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+export function RecoveryDialog({ sessions, onRestore, onDiscard, onClose }: RecoveryDialogProps) {
+  // Object URLs for the stored thumbnail blobs, released when the list changes
+  const thumbnails = useMemo(
+    () => new Map(sessions.map(session => [
+      session.id,
+      session.thumbnail ? URL.createObjectURL(session.thumbnail) : null
+    ])),
+    [sessions]
+  );
+
+  useEffect(() => () => {
+    thumbnails.forEach(url => url && URL.revokeObjectURL(url));
+  }, [thumbnails]);
+
+  return (
+    <Dialog open={sessions.length > 0} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-white">
+        <DialogHeader>
+          <DialogTitle>Restore unsaved work</DialogTitle>
+          <DialogDescription>
+            These drawings were autosaved before the editor was last closed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {sessions.map(session => (
+            <div
+              key={session.id}
+              className="flex items-center gap-3 p-2 border border-gray-200 rounded-md"
+            >
+              {thumbnails.get(session.id) ? (
+                <img
+                  src={thumbnails.get(session.id)!}
+                  alt=""
+                  className="w-20 h-14 object-contain bg-white border border-gray-200 rounded"
+                />
+              ) : (
+                <div className="w-20 h-14 bg-gray-100 border border-gray-200 rounded" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="text-sm">{new Date(session.updatedAt).toLocaleString()}</div>
+                <div className="text-xs text-gray-500">
+                  {session.objectCount} {session.objectCount === 1 ? 'object' : 'objects'}
+                </div>
+              </div>
+              <Button size="sm" onClick={() => onRestore(session.id)}>
+                <History className="size-4 mr-1" />
+                Restore
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onDiscard}>
+            Discard all
+          </Button>
+          <Button variant="ghost" onClick={onClose}>
+            Not now
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,8 +4,12 @@ import { Label } from './ui/label';
 import { Input } from './ui/input';
 import { Slider } from './ui/slider';
 import { Separator } from './ui/separator';
-import { Layers, Trash2 } from 'lucide-react';
+import { Blend, Combine, Diff, Layers, SquareMinus, Trash2, Ungroup } from 'lucide-react';
 import type { CanvasObject, Tool } from '../App';
+import { getObjectTypeName } from '../utils/objectLabels';
+import { BOOLEAN_OPERATION_LABELS, type BooleanOperation } from '../utils/booleanOps';
+import { AlignControls, type AlignControlsProps } from './AlignControls';
+import { TextControls } from './TextControls';
 
 interface RightPropertiesPanelProps {
   currentTool: Tool;
@@ -15,7 +19,12 @@ interface RightPropertiesPanelProps {
   onEraserSizeChange: (size: number) => void;
   onObjectUpdate: (updates: Partial<CanvasObject>) => void;
   onMerge: () => void;
+  canCombineShapes: boolean;
+  onBooleanOperation: (operation: BooleanOperation) => void;
+  onUngroup: () => void;
   onDelete: () => void;
+  shortcuts: { ungroup?: string; delete?: string }; // from the keymap, shown in help text and tooltips
+  align: AlignControlsProps;
   brushSize: number;
   onBrushSizeChange: (size: number) => void;
   brushColor: string;
@@ -34,7 +43,12 @@ export function RightPropertiesPanel({
   onEraserSizeChange,
   onObjectUpdate,
   onMerge,
+  canCombineShapes,
+  onBooleanOperation,
+  onUngroup,
   onDelete,
+  shortcuts,
+  align,
   brushSize,
   onBrushSizeChange,
   brushColor,
@@ -44,21 +58,12 @@ export function RightPropertiesPanel({
   brushOpacity,
   onBrushOpacityChange
 }: RightPropertiesPanelProps) {
-  const getObjectTypeName = (obj: CanvasObject | null) => {
-    if (!obj) return '';
-    switch (obj.type) {
-      case 'drawn': return 'Drawn Object';
-      case 'rectangle': return 'Rectangle';
-      case 'circle': return 'Circle';
-      case 'triangle': return 'Triangle';
-      case 'polygon': return 'Polygon';
-      case 'star': return 'Star';
-      case 'line': return 'Line';
-      case 'merged': return 'Merged Object';
-      case 'image': return 'Image';
-      default: return 'Object';
-    }
-  };
+  const booleanOperations = [
+    { id: 'union' as BooleanOperation, icon: Combine },
+    { id: 'subtract' as BooleanOperation, icon: SquareMinus },
+    { id: 'intersect' as BooleanOperation, icon: Blend },
+    { id: 'exclude' as BooleanOperation, icon: Diff },
+  ];
 
   return (
     <div className="w-72 bg-white border-l border-gray-200 p-4 overflow-y-auto">
@@ -176,6 +181,31 @@ export function RightPropertiesPanel({
             </Button>
           )}
 
+          {selectedCount >= 2 && (
+            <div>
+              <Label className="text-xs">Combine Shapes</Label>
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                {booleanOperations.map(operation => (
+                  <Button
+                    key={operation.id}
+                    variant="outline"
+                    size="sm"
+                    disabled={!canCombineShapes}
+                    onClick={() => onBooleanOperation(operation.id)}
+                  >
+                    <operation.icon className="size-4 mr-1" />
+                    {BOOLEAN_OPERATION_LABELS[operation.id]}
+                  </Button>
+                ))}
+              </div>
+              {!canCombineShapes && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Only closed shapes (rectangles, circles, triangles, polygons, stars, closed paths and closed brush strokes) can be combined.
+                </p>
+              )}
+            </div>
+          )}
+
           {selectedCount > 0 && (
             <Button 
               variant="destructive"
@@ -189,6 +219,10 @@ export function RightPropertiesPanel({
 
           <div className="text-xs text-gray-600 bg-green-50 p-3 rounded border border-green-200">
             <p>Merged objects behave as a single object and can be moved, rotated, scaled, and erased together.</p>
+            <p className="mt-2">Combining shapes instead replaces them with a single outline: union, subtract (from the bottom shape), intersect or exclude.</p>
+            <p className="mt-2">
+              Double-click a merged object to edit its parts, or ungroup it{shortcuts.ungroup ? ` (${shortcuts.ungroup})` : ''} to split it up again.
+            </p>
           </div>
         </div>
       )}
@@ -200,7 +234,7 @@ export function RightPropertiesPanel({
               <Label className="text-xs text-gray-500">Object Type</Label>
               <div className="mt-1 font-medium">{getObjectTypeName(selectedObject)}</div>
             </div>
-            <Button variant="destructive" size="icon" onClick={onDelete} title="Delete Object (Del)">
+            <Button variant="destructive" size="icon" onClick={onDelete} title={shortcuts.delete ? `Delete Object (${shortcuts.delete})` : 'Delete Object'}>
               <Trash2 className="size-4" />
             </Button>
           </div>
@@ -208,6 +242,13 @@ export function RightPropertiesPanel({
             <div className="text-xs text-gray-400 mt-1">ID: {selectedObject.id.substring(0, 12)}...</div>
           )}
 
+          {selectedObject.type === 'merged' && (
+            <Button variant="outline" onClick={onUngroup} className="w-full" title={shortcuts.ungroup ? `Ungroup (${shortcuts.ungroup})` : 'Ungroup'}>
+              <Ungroup className="size-4 mr-2" />
+              Ungroup
+            </Button>
+          )}
+
           <Separator />
 
           <div>
@@ -274,6 +315,16 @@ export function RightPropertiesPanel({
 
           <Separator />
 
+          {selectedObject.type === 'text' && (
+            <>
+              <TextControls
+                data={selectedObject.data}
+                onChange={(changes) => onObjectUpdate({ data: { ...selectedObject.data, ...changes } })}
+              />
+              <Separator />
+            </>
+          )}
+
           {selectedObject.type !== 'line' && selectedObject.type !== 'image' && (
             <>
               <div>
@@ -352,13 +403,29 @@ export function RightPropertiesPanel({
             <div className="text-xs text-gray-500 mt-1">{Math.round((selectedObject.style.opacity ?? 1) * 100)}%</div>
           </div>
 
+          <Separator />
+
+          <AlignControls {...align} />
+
           <div className="text-xs text-gray-600 bg-purple-50 p-3 rounded border border-purple-200 mt-4">
             <p>Free-drawn strokes become selectable objects.</p>
           </div>
         </div>
       )}
 
-      {!selectedObject && currentTool !== 'eraser' && currentTool !== 'merge' && (
+      {!selectedObject && selectedCount > 1 && currentTool !== 'eraser' && currentTool !== 'merge' && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-gray-600">{selectedCount} objects selected</div>
+            <Button variant="destructive" size="icon" onClick={onDelete} title={shortcuts.delete ? `Delete Selected (${shortcuts.delete})` : 'Delete Selected'}>
+              <Trash2 className="size-4" />
+            </Button>
+          </div>
+          <AlignControls {...align} />
+        </div>
+      )}
+
+      {!selectedObject && selectedCount <= 1 && currentTool !== 'eraser' && currentTool !== 'merge' && (
         <div className="text-sm text-gray-400 text-center py-8">
           Select an object to view properties
         </div>
@@ -0,0 +1,130 @@
+import React, { useEffect, useRef } from 'react';
+import type { Bounds } from '../utils/geometry';
+import type { ViewportSize, ViewState } from '../utils/viewport';
+
+interface RulersProps {
+  view: ViewState;
+  viewportSize: ViewportSize;
+  pixelRatio: number;
+  selection: Bounds | null; // extent highlighted on both rulers, in document coordinates
+  onRulerMouseDown: (axis: 'x' | 'y', e: React.MouseEvent) => void;
+  corner?: React.ReactNode; // shown in the square where the rulers meet
+}
+
+// Thickness of the rulers in screen pixels; they lie over the edges of the viewport
+export const RULER_SIZE = 20;
+
+// Labelled ticks are at least this many screen pixels apart
+const MIN_LABEL_SPACING = 50;
+const NICE_STEPS = [1, 2, 5];
+
+// Document units between labelled ticks: the smallest 1, 2 or 5 x 10^n that leaves room for labels
+const getLabelStep = (scale: number) => {
+  for (let magnitude = 1; ; magnitude *= 10) {
+    const step = NICE_STEPS.map(n => n * magnitude).find(n => n * scale >= MIN_LABEL_SPACING);
+    if (step) return step;
+  }
+};
+
+// Draw one ruler. `axis` is the document axis it measures: 'x' for the top ruler, 'y' for the left one.
+const drawRuler = (
+  ctx: CanvasRenderingContext2D,
+  axis: 'x' | 'y',
+  length: number,
+  view: ViewState,
+  selection: Bounds | null,
+  pixelRatio: number
+) => {
+  const scale = view.zoom / 100;
+  const offset = axis === 'x' ? view.x : view.y;
+  // Rectangles in (along, across) ruler coordinates, so both rulers share the drawing code
+  const fillRect = (along: number, across: number, alongSize: number, acrossSize: number) => {
+    if (axis === 'x') ctx.fillRect(along, across, alongSize, acrossSize);
+    else ctx.fillRect(across, along, acrossSize, alongSize);
+  };
+
+  ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+  ctx.fillStyle = '#f9fafb';
+  fillRect(0, 0, length, RULER_SIZE);
+
+  if (selection) {
+    const start = (axis === 'x' ? selection.x : selection.y) * scale + offset;
+    const size = (axis === 'x' ? selection.width : selection.height) * scale;
+    ctx.fillStyle = 'rgba(59, 130, 246, 0.2)';
+    fillRect(start, 0, size, RULER_SIZE);
+  }
+
+  const labelStep = getLabelStep(scale);
+  const tickStep = labelStep / 10;
+  const first = Math.floor(-offset / scale / tickStep);
+  const last = Math.ceil((length - offset) / scale / tickStep);
+  // One device pixel wide, on a device pixel boundary so ticks stay crisp
+  const hairline = 1 / pixelRatio;
+
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = '9px sans-serif';
+  for (let i = first; i <= last; i++) {
+    const position = Math.round((i * tickStep * scale + offset) * pixelRatio) / pixelRatio;
+    const tickLength = i % 10 === 0 ? RULER_SIZE : i % 5 === 0 ? 8 : 4;
+    fillRect(position, RULER_SIZE - tickLength, hairline, tickLength);
+
+    if (i % 10 === 0) {
+      const label = String(Math.round(i * tickStep));
+      if (axis === 'x') {
+        ctx.fillText(label, position + 3, 9);
+      } else {
+        // Read bottom to top, running up from the tick
+        ctx.save();
+        ctx.translate(9, position - 3);
+        ctx.rotate(-Math.PI / 2);
+        ctx.fillText(label, 0, 0);
+        ctx.restore();
+      }
+    }
+  }
+
+  // Edge facing the canvas
+  ctx.fillStyle = '#d1d5db';
+  fillRect(0, RULER_SIZE - hairline, length, hairline);
+};
+
+export function Rulers({ view, viewportSize, pixelRatio, selection, onRulerMouseDown, corner }: RulersProps) {
+  const topRef = useRef<HTMLCanvasElement>(null);
+  const leftRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const top = topRef.current?.getContext('2d');
+    const left = leftRef.current?.getContext('2d');
+    if (top) drawRuler(top, 'x', viewportSize.width, view, selection, pixelRatio);
+    if (left) drawRuler(left, 'y', viewportSize.height, view, selection, pixelRatio);
+  }, [view, viewportSize, selection, pixelRatio]);
+
+  return (
+    <>
+      <canvas
+        ref={topRef}
+        width={Math.round(viewportSize.width * pixelRatio)}
+        height={Math.round(RULER_SIZE * pixelRatio)}
+        onMouseDown={(e) => onRulerMouseDown('y', e)}
+        className="absolute left-0 block"
+        style={{ top: 0, width: viewportSize.width, height: RULER_SIZE, cursor: 'row-resize' }}
+        title="Drag to add a horizontal guide"
+      />
+      <canvas
+        ref={leftRef}
+        width={Math.round(RULER_SIZE * pixelRatio)}
+        height={Math.round(viewportSize.height * pixelRatio)}
+        onMouseDown={(e) => onRulerMouseDown('x', e)}
+        className="absolute left-0 block"
+        style={{ top: 0, width: RULER_SIZE, height: viewportSize.height, cursor: 'col-resize' }}
+        title="Drag to add a vertical guide"
+      />
+      <div
+        className="absolute left-0 flex items-center justify-center bg-gray-100 border-r border-b border-gray-300"
+        style={{ top: 0, width: RULER_SIZE, height: RULER_SIZE }}
+      >
+        {corner}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { DOCUMENT_EXTENSION } from '../utils/documentFile';
+
+interface SaveAsDialogProps {
+  open: boolean;
+  documentName: string; // name the document was last saved or opened under
+  onClose: () => void;
+  onSave: (name: string) => void;
+}
+
+export function SaveAsDialog({ open, documentName, onClose, onSave }: SaveAsDialogProps) {
+  const [name, setName] = useState(documentName);
+
+  useEffect(() => {
+    if (open) setName(documentName);
+  }, [open, documentName]);
+
+  const trimmed = name.trim();
+  const handleConfirm = () => {
+    if (trimmed) onSave(trimmed);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="bg-white">
+        <DialogHeader>
+          <DialogTitle>Save As</DialogTitle>
+          <DialogDescription>
+            The document is downloaded as a {DOCUMENT_EXTENSION} file under this name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <Label className="text-xs">File name</Label>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleConfirm();
+            }}
+            className="mt-1"
+            autoFocus
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!trimmed}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { COMMAND_GROUPS, getCommandGroup, type CommandId, type CommandRegistry } from '../utils/commands';
+import type { Keymap } from '../utils/keymap';
+
+interface ShortcutsDialogProps {
+  open: boolean;
+  commands: CommandRegistry;
+  keymap: Keymap;
+  onClose: () => void;
+  onCustomize: () => void;
+}
+
+// A shortcut drawn as a key cap
+export function ShortcutKey({ shortcut }: { shortcut: string }) {
+  return (
+    <span
+      className="rounded border border-gray-300 bg-gray-100 text-xs"
+      style={{ padding: '1px 6px', fontFamily: 'monospace', whiteSpace: 'nowrap' }}
+    >
+      {shortcut}
+    </span>
+  );
+}
+
+export function ShortcutsDialog({ open, commands, keymap, onClose, onCustomize }: ShortcutsDialogProps) {
+  const groups = Object.values(COMMAND_GROUPS)
+    .map(heading => ({
+      heading,
+      ids: (Object.keys(commands) as CommandId[]).filter(
+        id => getCommandGroup(id) === heading && (keymap[id]?.length ?? 0) > 0
+      )
+    }))
+    .filter(group => group.ids.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="bg-white">
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>
+            Shortcuts work while the canvas has focus. On macOS, Ctrl can also be pressed as Cmd.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto space-y-4" style={{ maxHeight: '60vh' }}>
+          {groups.map(group => (
+            <div key={group.heading}>
+              <div className="text-xs font-medium text-gray-500 mb-2">{group.heading}</div>
+              {group.ids.map(id => (
+                <div key={id} className="flex items-center justify-between gap-4 py-1 text-sm">
+                  <span className="min-w-0">{commands[id].label}</span>
+                  <span className="flex items-center gap-1 shrink-0">
+                    {keymap[id]!.map(shortcut => (
+                      <ShortcutKey key={shortcut} shortcut={shortcut} />
+                    ))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCustomize}>
+            Customize…
+          </Button>
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
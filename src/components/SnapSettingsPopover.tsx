@@ -0,0 +1,83 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Grid3x3 } from 'lucide-react';
+import type { SnapSettings } from '../utils/snapping';
+
+interface SnapSettingsPopoverProps {
+  settings: SnapSettings;
+  onChange: (settings: SnapSettings) => void;
+  gridShortcut?: string; // from the keymap
+}
+
+const TOGGLES: { key: 'showGrid' | 'snapToGrid' | 'smartGuides'; label: string }[] = [
+  { key: 'showGrid', label: 'Show grid' },
+  { key: 'snapToGrid', label: 'Snap to grid' },
+  { key: 'smartGuides', label: 'Smart guides' }
+];
+
+export function SnapSettingsPopover({ settings, onChange, gridShortcut }: SnapSettingsPopoverProps) {
+  // Smart guides are on by default, so only the grid lights up the button
+  const isActive = settings.showGrid || settings.snapToGrid;
+
+  // Ignore empty or out-of-range input while typing; the field keeps the last good value
+  const handleNumberChange = (key: 'gridSize' | 'gridSubdivisions', value: string, min: number, max: number) => {
+    const n = Math.round(Number(value));
+    if (Number.isFinite(n) && n >= min && n <= max) {
+      onChange({ ...settings, [key]: n });
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant={isActive ? 'secondary' : 'ghost'} size="icon" title="Grid and snapping">
+          <Grid3x3 className="size-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 bg-white space-y-4">
+        <div>
+          {TOGGLES.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2 py-1 text-sm text-gray-900">
+              <input
+                type="checkbox"
+                checked={settings[key]}
+                onChange={(e) => onChange({ ...settings, [key]: e.target.checked })}
+              />
+              {key === 'showGrid' && gridShortcut ? `${label} (${gridShortcut})` : label}
+            </label>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label className="text-xs">Grid size (px)</Label>
+            <Input
+              type="number"
+              min={2}
+              max={1000}
+              value={settings.gridSize}
+              onChange={(e) => handleNumberChange('gridSize', e.target.value, 2, 1000)}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Subdivisions</Label>
+            <Input
+              type="number"
+              min={1}
+              max={20}
+              value={settings.gridSubdivisions}
+              onChange={(e) => handleNumberChange('gridSubdivisions', e.target.value, 1, 20)}
+              className="mt-1"
+            />
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">Hold Alt while dragging to turn snapping off.</p>
+      </PopoverContent>
+    </Popover>
+  );
+}
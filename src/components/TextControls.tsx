@@ -0,0 +1,121 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { AlignCenter, AlignLeft, AlignRight, Italic, type LucideIcon } from 'lucide-react';
+import { FONT_WEIGHTS, TEXT_FONTS, type TextAlign, type TextData } from '../utils/text';
+
+interface TextControlsProps {
+  data: TextData;
+  onChange: (changes: Partial<TextData>) => void;
+}
+
+const ALIGN_BUTTONS: { align: TextAlign; icon: LucideIcon; label: string }[] = [
+  { align: 'left', icon: AlignLeft, label: 'Align Left' },
+  { align: 'center', icon: AlignCenter, label: 'Align Center' },
+  { align: 'right', icon: AlignRight, label: 'Align Right' },
+];
+
+export function TextControls({ data, onChange }: TextControlsProps) {
+  // Fonts not in the list (from a hand-edited file) are kept and shown as they are
+  const fonts = TEXT_FONTS.some(font => font.family === data.fontFamily)
+    ? TEXT_FONTS
+    : [...TEXT_FONTS, { label: data.fontFamily, family: data.fontFamily }];
+
+  return (
+    <div className="space-y-4">
+      <Label className="block">Text</Label>
+
+      <div>
+        <Label className="text-xs">Font</Label>
+        <select
+          value={data.fontFamily}
+          onChange={(e) => onChange({ fontFamily: e.target.value })}
+          className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          {fonts.map(font => (
+            <option key={font.family} value={font.family}>{font.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-xs">Weight</Label>
+          <select
+            value={data.fontWeight}
+            onChange={(e) => onChange({ fontWeight: Number(e.target.value) })}
+            className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {Object.entries(FONT_WEIGHTS).map(([weight, label]) => (
+              <option key={weight} value={weight}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label className="text-xs">Size</Label>
+          <Input
+            type="number"
+            value={data.fontSize}
+            onChange={(e) => onChange({ fontSize: Math.max(1, Number(e.target.value)) })}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Line Height</Label>
+          <Input
+            type="number"
+            step={0.1}
+            value={data.lineHeight}
+            onChange={(e) => onChange({ lineHeight: Math.max(0.5, Number(e.target.value)) })}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Letter Spacing</Label>
+          <Input
+            type="number"
+            step={0.5}
+            value={data.letterSpacing}
+            onChange={(e) => onChange({ letterSpacing: Number(e.target.value) })}
+            className="mt-1"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-1">
+        <Button
+          variant={data.italic ? 'default' : 'outline'}
+          size="icon"
+          onClick={() => onChange({ italic: !data.italic })}
+          title="Italic"
+        >
+          <Italic className="size-4" />
+        </Button>
+        {ALIGN_BUTTONS.map(({ align, icon: Icon, label }) => (
+          <Button
+            key={align}
+            variant={data.align === align ? 'default' : 'outline'}
+            size="icon"
+            onClick={() => onChange({ align })}
+            title={label}
+          >
+            <Icon className="size-4" />
+          </Button>
+        ))}
+      </div>
+
+      <div>
+        <Label className="text-xs">Width</Label>
+        <select
+          value={data.wrap ? 'fixed' : 'auto'}
+          onChange={(e) => onChange({ wrap: e.target.value === 'fixed' })}
+          className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="auto">Auto width (grows with the text)</option>
+          <option value="fixed">Fixed width (wraps to the box)</option>
+        </select>
+      </div>
+    </div>
+  );
+}
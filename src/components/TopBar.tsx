@@ -1,93 +1,101 @@
 import React from 'react';
 import { Button } from './ui/button';
 import { Separator } from './ui/separator';
-import { Undo2, Redo2, Plus, Minus, FolderOpen, Save, Download } from 'lucide-react';
+import {
+  Undo2,
+  Redo2,
+  Plus,
+  Minus,
+  Maximize,
+  ScanSearch,
+  InfinityIcon
+} from 'lucide-react';
+import { EditorMenubar } from './EditorMenubar';
+import { SnapSettingsPopover } from './SnapSettingsPopover';
+import { getCommandTitle, type CommandRegistry } from '../utils/commands';
+import type { SnapSettings } from '../utils/snapping';
 
 interface TopBarProps {
-  onNew: () => void;
-  onOpen: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  onUndo: () => void;
-  onRedo: () => void;
-  onZoomIn: () => void;
-  onZoomOut: () => void;
-  onResetZoom: () => void;
+  commands: CommandRegistry;
   zoom: number;
-  canUndo: boolean;
-  canRedo: boolean;
+  snapSettings: SnapSettings;
+  onSnapSettingsChange: (settings: SnapSettings) => void;
 }
 
 export function TopBar({
-  onNew,
-  onOpen,
-  onUndo,
-  onRedo,
-  onZoomIn,
-  onZoomOut,
-  onResetZoom,
+  commands,
   zoom,
-  canUndo,
-  canRedo
+  snapSettings,
+  onSnapSettingsChange
 }: TopBarProps) {
-  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const infiniteCanvas = commands['view.infiniteCanvas'];
 
   return (
     <div className="h-14 bg-white border-b border-gray-200 flex items-center justify-between px-4">
       <div className="flex items-center gap-4">
         <h1 className="text-gray-900">ShapeCanvas Editor</h1>
-        <span className="text-xs text-gray-400">Built with React components</span>
+        <EditorMenubar commands={commands} />
       </div>
 
       <div className="flex items-center gap-2">
-        <input
-          type="file"
-          ref={fileInputRef}
-          onChange={onOpen}
-          accept="image/*"
-          style={{ display: 'none' }}
-        />
-        <Button variant="outline" size="sm" onClick={onNew}>
-          New
-        </Button>
-        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
-          <FolderOpen className="size-4 mr-1" />
-          Open
-        </Button>
-        <Button variant="outline" size="sm">
-          <Save className="size-4 mr-1" />
-          Save
-        </Button>
-        <Button variant="outline" size="sm">
-          <Download className="size-4 mr-1" />
-          Export
-        </Button>
-
-        <Separator orientation="vertical" className="h-8 mx-2" />
-
         <div className="flex items-center gap-1">
           <Button 
             variant="ghost" 
             size="icon" 
-            onClick={onZoomOut}
-            disabled={zoom <= 50}
+            onClick={commands['view.zoomOut'].run}
+            disabled={commands['view.zoomOut'].disabled}
+            title={getCommandTitle(commands['view.zoomOut'])}
           >
             <Minus className="size-4" />
           </Button>
           <Button 
             variant="ghost" 
             size="sm" 
-            onClick={onResetZoom}
+            onClick={commands['view.zoomTo.100'].run}
             className="min-w-16"
+            title={getCommandTitle(commands['view.zoomTo.100'])}
           >
-            {zoom}%
+            {Math.round(zoom)}%
           </Button>
           <Button 
             variant="ghost" 
             size="icon" 
-            onClick={onZoomIn}
-            disabled={zoom >= 200}
+            onClick={commands['view.zoomIn'].run}
+            disabled={commands['view.zoomIn'].disabled}
+            title={getCommandTitle(commands['view.zoomIn'])}
           >
             <Plus className="size-4" />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={commands['view.zoomToFit'].run}
+            title={getCommandTitle(commands['view.zoomToFit'])}
+          >
+            <Maximize className="size-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={commands['view.zoomToSelection'].run}
+            disabled={commands['view.zoomToSelection'].disabled}
+            title={getCommandTitle(commands['view.zoomToSelection'])}
+          >
+            <ScanSearch className="size-4" />
+          </Button>
+          <Button
+            variant={infiniteCanvas.checked ? 'secondary' : 'ghost'}
+            size="icon"
+            onClick={infiniteCanvas.run}
+            title={infiniteCanvas.checked ? 'Infinite canvas on: objects can go beyond the page' : 'Infinite canvas off: objects stay on the page'}
+          >
+            <InfinityIcon className="size-4" />
+          </Button>
+          <SnapSettingsPopover
+            settings={snapSettings}
+            onChange={onSnapSettingsChange}
+            gridShortcut={commands['view.grid'].shortcut}
+          />
         </div>
 
         <Separator orientation="vertical" className="h-8 mx-2" />
@@ -95,16 +103,18 @@ export function TopBar({
         <Button 
           variant="ghost" 
           size="icon" 
-          onClick={onUndo}
-          disabled={!canUndo}
+          onClick={commands['edit.undo'].run}
+          disabled={commands['edit.undo'].disabled}
+          title={getCommandTitle(commands['edit.undo'])}
         >
           <Undo2 className="size-4" />
         </Button>
         <Button 
           variant="ghost" 
           size="icon" 
-          onClick={onRedo}
-          disabled={!canRedo}
+          onClick={commands['edit.redo'].run}
+          disabled={commands['edit.redo'].disabled}
+          title={getCommandTitle(commands['edit.redo'])}
         >
           <Redo2 className="size-4" />
         </Button>
@@ -0,0 +1,109 @@
+import type { CanvasObject } from '../App';
+import { getObjectBounds, mergeBounds, translateObject, type Bounds } from './geometry';
+
+/**
+ * Align and distribute for multi-selections. Objects are moved by their
+ * axis-aligned bounds, so rotated objects line up by what is visible. All
+ * coordinates are in the space the objects live in (a group's children use
+ * the group's), and the functions return moved copies in the order given.
+ */
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeMode = 'horizontal-centers' | 'vertical-centers' | 'horizontal-gaps' | 'vertical-gaps';
+// What objects are aligned to: the selection's bounds, the page, or one selected object that stays put
+export type AlignReference = 'selection' | 'page' | 'key';
+
+export const ALIGN_LABELS: Record<AlignEdge, string> = {
+  left: 'Left',
+  center: 'Center',
+  right: 'Right',
+  top: 'Top',
+  middle: 'Middle',
+  bottom: 'Bottom'
+};
+
+export const DISTRIBUTE_LABELS: Record<DistributeMode, string> = {
+  'horizontal-centers': 'Horizontal Centers',
+  'vertical-centers': 'Vertical Centers',
+  'horizontal-gaps': 'Horizontal Spacing',
+  'vertical-gaps': 'Vertical Spacing'
+};
+
+// Spacing out two objects would only move them apart, so distributing takes at least three
+export const MIN_DISTRIBUTE_COUNT = 3;
+
+// Where an edge (or center) of a box lies along its axis
+const edgePosition = (bounds: Bounds, edge: AlignEdge) => {
+  switch (edge) {
+    case 'left': return bounds.x;
+    case 'center': return bounds.x + bounds.width / 2;
+    case 'right': return bounds.x + bounds.width;
+    case 'top': return bounds.y;
+    case 'middle': return bounds.y + bounds.height / 2;
+    case 'bottom': return bounds.y + bounds.height;
+  }
+};
+
+const isHorizontal = (edge: AlignEdge) => edge === 'left' || edge === 'center' || edge === 'right';
+
+export const alignObjects = (objects: CanvasObject[], edge: AlignEdge, target: Bounds): CanvasObject[] => {
+  const position = edgePosition(target, edge);
+  return objects.map(obj => {
+    const offset = position - edgePosition(getObjectBounds(obj), edge);
+    if (offset === 0) return obj;
+    return isHorizontal(edge) ? translateObject(obj, offset, 0) : translateObject(obj, 0, offset);
+  });
+};
+
+/**
+ * Space objects evenly along an axis, either so their centers are equally far
+ * apart or so the gaps between them are equal. They are spread across `range`
+ * (the page, say), or across their own extent when it is null, in which case
+ * the outermost objects stay where they are.
+ */
+export const distributeObjects = (objects: CanvasObject[], mode: DistributeMode, range: Bounds | null = null): CanvasObject[] => {
+  const extent = range ?? mergeBounds(objects.map(getObjectBounds));
+  if (!extent || objects.length < 2) return objects;
+
+  const horizontal = mode.startsWith('horizontal');
+  const items = objects.map((obj, index) => {
+    const bounds = getObjectBounds(obj);
+    return {
+      index,
+      start: horizontal ? bounds.x : bounds.y,
+      size: horizontal ? bounds.width : bounds.height
+    };
+  });
+  const rangeStart = horizontal ? extent.x : extent.y;
+  const rangeSize = horizontal ? extent.width : extent.height;
+
+  // New start of each object, by its index in `objects`
+  const starts = new Map<number, number>();
+  if (mode.endsWith('centers')) {
+    const sorted = [...items].sort((a, b) => a.start + a.size / 2 - (b.start + b.size / 2));
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    // Across a range the outer objects move to its ends; otherwise their centers stay put
+    const firstCenter = range ? rangeStart + first.size / 2 : first.start + first.size / 2;
+    const lastCenter = range ? rangeStart + rangeSize - last.size / 2 : last.start + last.size / 2;
+    sorted.forEach((item, i) => {
+      const center = firstCenter + ((lastCenter - firstCenter) * i) / (sorted.length - 1);
+      starts.set(item.index, center - item.size / 2);
+    });
+  } else {
+    const sorted = [...items].sort((a, b) => a.start - b.start);
+    const gap = (rangeSize - sorted.reduce((sum, item) => sum + item.size, 0)) / (sorted.length - 1);
+    let next = rangeStart;
+    sorted.forEach(item => {
+      starts.set(item.index, next);
+      next += item.size + gap;
+    });
+  }
+
+  return objects.map((obj, index) => {
+    const item = items[index];
+    const offset = starts.get(index)! - item.start;
+    if (offset === 0) return obj;
+    return horizontal ? translateObject(obj, offset, 0) : translateObject(obj, 0, offset);
+  });
+};
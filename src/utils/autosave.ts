@@ -0,0 +1,343 @@
+import type { CanvasObject } from '../App';
+import { renderToCanvas } from './rasterExport';
+import { DEFAULT_PAGE_SIZE, type PageSize } from './pageSize';
+import type { GuideLine } from './guides';
+
+/**
+ * Crash recovery storage. Each editor tab autosaves its document into
+ * IndexedDB as a "session". Embedded images are pulled out of the object tree
+ * and stored once as Blobs in a separate store (keyed by a SHA-256 digest) so
+ * session records stay small and repeated saves don't rewrite image data:
+ * a save only converts and writes images the store doesn't have yet, and
+ * drops the ones no session uses any more. The small thumbnail shown in the
+ * recovery list is rendered again on every save. A tab holds a Web Lock on
+ * the session it saves into, so sessions of tabs that are still open are
+ * never offered for recovery.
+ */
+
+const DB_NAME = 'shapecanvas-autosave';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const IMAGES_STORE = 'images';
+const IMAGE_REF_PREFIX = 'idb-image:';
+const SESSION_LOCK_PREFIX = 'shapecanvas-session:';
+const THUMBNAIL_WIDTH = 160;
+// Times a save starts over when other tabs keep pruning images it relies on
+const MAX_SAVE_ATTEMPTS = 3;
+
+interface StoredSession {
+  id: string;
+  updatedAt: number;
+  objectCount: number;
+  objects: CanvasObject[]; // image URLs replaced with IMAGE_REF_PREFIX + key
+  page?: PageSize; // missing in sessions saved before pages were configurable
+  guides?: GuideLine[]; // missing in sessions saved before ruler guides
+  thumbnail: Blob | null;
+}
+
+export interface RecoverableSession {
+  id: string;
+  updatedAt: number;
+  objectCount: number;
+  thumbnail: Blob | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          db.createObjectStore(IMAGES_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. private mode)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Content digest, so identical images share one stored blob and different ones never do
+const digestString = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const imageKeys = new Map<string, Promise<string>>();
+const imageKeyFor = (imageUrl: string) => {
+  let key = imageKeys.get(imageUrl);
+  if (!key) {
+    key = digestString(imageUrl);
+    imageKeys.set(imageUrl, key);
+    // Don't keep a failed digest around for later saves
+    key.catch(() => imageKeys.delete(imageUrl));
+  }
+  return key;
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Recursively swap image data URLs for store references, collecting the images to persist
+const extractImages = (objects: CanvasObject[], images: Map<string, string>): Promise<CanvasObject[]> =>
+  Promise.all(objects.map(async obj => {
+    if (obj.type === 'image' && typeof obj.data.imageUrl === 'string' && !obj.data.imageUrl.startsWith(IMAGE_REF_PREFIX)) {
+      const key = await imageKeyFor(obj.data.imageUrl);
+      images.set(key, obj.data.imageUrl);
+      return { ...obj, data: { ...obj.data, imageUrl: IMAGE_REF_PREFIX + key } };
+    }
+    if (obj.children) {
+      return { ...obj, children: await extractImages(obj.children, images) };
+    }
+    return obj;
+  }));
+
+const getImageKeys = async (imageStore: IDBObjectStore): Promise<Set<string>> =>
+  new Set((await promisify(imageStore.getAllKeys())).map(String));
+
+// Delete stored images that none of the sessions in the transaction's store references
+const pruneImages = async (sessionStore: IDBObjectStore, imageStore: IDBObjectStore) => {
+  const sessions = await promisify<StoredSession[]>(sessionStore.getAll());
+  const referenced = new Set<string>();
+  sessions.forEach(session => collectImageRefs(session.objects, referenced));
+
+  (await getImageKeys(imageStore)).forEach(key => {
+    if (!referenced.has(key)) imageStore.delete(key);
+  });
+};
+
+const collectImageRefs = (objects: CanvasObject[], refs: Set<string>) => {
+  objects.forEach(obj => {
+    if (obj.type === 'image' && typeof obj.data.imageUrl === 'string' && obj.data.imageUrl.startsWith(IMAGE_REF_PREFIX)) {
+      refs.add(obj.data.imageUrl.slice(IMAGE_REF_PREFIX.length));
+    }
+    if (obj.children) collectImageRefs(obj.children, refs);
+  });
+};
+
+const restoreImages = (objects: CanvasObject[], images: Map<string, string>): CanvasObject[] =>
+  objects.map(obj => {
+    if (obj.type === 'image' && typeof obj.data.imageUrl === 'string' && obj.data.imageUrl.startsWith(IMAGE_REF_PREFIX)) {
+      const imageUrl = images.get(obj.data.imageUrl.slice(IMAGE_REF_PREFIX.length)) ?? '';
+      return { ...obj, data: { ...obj.data, imageUrl } };
+    }
+    if (obj.children) {
+      return { ...obj, children: restoreImages(obj.children, images) };
+    }
+    return obj;
+  });
+
+const renderThumbnail = async (objects: CanvasObject[], width: number, height: number): Promise<Blob | null> => {
+  try {
+    const canvas = await renderToCanvas(
+      objects,
+      { x: 0, y: 0, width, height },
+      { scale: THUMBNAIL_WIDTH / width, background: 'white', format: 'png' }
+    );
+    return await new Promise(resolve => canvas.toBlob(resolve, 'image/png'));
+  } catch {
+    return null;
+  }
+};
+
+export const createSessionId = () => `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Releases for the session locks this tab holds
+const heldSessions = new Map<string, () => void>();
+
+/**
+ * Mark a session as live in this tab until it is released or the tab closes.
+ * Resolves to false when another tab already has it.
+ */
+export const claimSession = (sessionId: string): Promise<boolean> => {
+  if (heldSessions.has(sessionId)) return Promise.resolve(true);
+  return new Promise((resolve, reject) => {
+    navigator.locks
+      .request(SESSION_LOCK_PREFIX + sessionId, { ifAvailable: true }, lock => {
+        if (!lock) {
+          resolve(false);
+          return;
+        }
+        // The lock is held for as long as this promise is pending
+        return new Promise<void>(release => {
+          heldSessions.set(sessionId, release);
+          resolve(true);
+        });
+      })
+      .catch(reject);
+  });
+};
+
+export const releaseSession = (sessionId: string) => {
+  heldSessions.get(sessionId)?.();
+  heldSessions.delete(sessionId);
+};
+
+const writeSession = async (
+  sessionId: string,
+  objects: CanvasObject[],
+  page: PageSize,
+  guides: GuideLine[]
+) => {
+  if (objects.length === 0) {
+    await deleteSessions([sessionId]);
+    return;
+  }
+
+  const images = new Map<string, string>();
+  const storedObjects = await extractImages(objects, images);
+  const thumbnail = await renderThumbnail(objects, page.width, page.height);
+  const session: StoredSession = {
+    id: sessionId,
+    updatedAt: Date.now(),
+    objectCount: objects.length,
+    objects: storedObjects,
+    page,
+    guides,
+    thumbnail
+  };
+
+  const db = await openDatabase();
+  const blobs = new Map<string, Blob>();
+  let storedKeys = await getImageKeys(db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE));
+
+  for (let attempt = 1; ; attempt++) {
+    // Only images the store doesn't have are converted, outside the transaction since IndexedDB
+    // transactions close across other awaits
+    for (const [key, url] of images) {
+      if (!storedKeys.has(key) && !blobs.has(key)) blobs.set(key, await (await fetch(url)).blob());
+    }
+
+    const tx = db.transaction([SESSIONS_STORE, IMAGES_STORE], 'readwrite');
+    const sessionStore = tx.objectStore(SESSIONS_STORE);
+    const imageStore = tx.objectStore(IMAGES_STORE);
+
+    // Another tab may have pruned an image this save counted on since the keys were read; if so,
+    // convert it too and try again
+    const currentKeys = await getImageKeys(imageStore);
+    if (Array.from(images.keys()).some(key => !currentKeys.has(key) && !blobs.has(key))) {
+      tx.abort();
+      if (attempt === MAX_SAVE_ATTEMPTS) {
+        throw new Error('Stored images kept being removed while saving');
+      }
+      storedKeys = currentKeys;
+      continue;
+    }
+
+    blobs.forEach((blob, key) => imageStore.put(blob, key));
+    sessionStore.put(session);
+    await pruneImages(sessionStore, imageStore);
+    await transactionDone(tx);
+    return;
+  }
+};
+
+// Saves run one after another, so an older one can never land after a newer one
+let saveQueue: Promise<void> = Promise.resolve();
+let latestSave = 0;
+
+/**
+ * Write the document for a session. An empty document removes the session,
+ * since there is nothing to recover. A save still waiting for an earlier one
+ * when a newer save is requested is skipped: the newer one stores the later
+ * document anyway.
+ */
+export const saveSession = (
+  sessionId: string,
+  objects: CanvasObject[],
+  page: PageSize,
+  guides: GuideLine[]
+): Promise<void> => {
+  const generation = ++latestSave;
+  const save = saveQueue.then(() => {
+    if (generation === latestSave) return writeSession(sessionId, objects, page, guides);
+  });
+  saveQueue = save.catch(() => {});
+  return save;
+};
+
+// Sessions left behind by tabs that are no longer open, newest first
+export const listSessions = async (): Promise<RecoverableSession[]> => {
+  const db = await openDatabase();
+  const sessions = await promisify<StoredSession[]>(
+    db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).getAll()
+  );
+  const { held = [], pending = [] } = await navigator.locks.query();
+  const live = new Set([...held, ...pending].map(lock => lock.name));
+
+  return sessions
+    .filter(session => !live.has(SESSION_LOCK_PREFIX + session.id))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(({ id, updatedAt, objectCount, thumbnail }) => ({ id, updatedAt, objectCount, thumbnail }));
+};
+
+// Load a session's objects with images turned back into data URLs, its page size and guides
+export const loadSession = async (
+  sessionId: string
+): Promise<{ objects: CanvasObject[]; page: PageSize; guides: GuideLine[] }> => {
+  const db = await openDatabase();
+  const session = await promisify<StoredSession | undefined>(
+    db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).get(sessionId)
+  );
+  if (!session) throw new Error('The saved session no longer exists');
+
+  const refs = new Set<string>();
+  collectImageRefs(session.objects, refs);
+
+  const imageStore = db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE);
+  const blobs = await Promise.all(
+    Array.from(refs).map(key => promisify<Blob | undefined>(imageStore.get(key)).then(blob => [key, blob] as const))
+  );
+
+  const images = new Map<string, string>();
+  for (const [key, blob] of blobs) {
+    if (blob) images.set(key, await blobToDataUrl(blob));
+  }
+
+  return {
+    objects: restoreImages(session.objects, images),
+    page: session.page ?? { ...DEFAULT_PAGE_SIZE },
+    guides: session.guides ?? []
+  };
+};
+
+// Remove sessions, then drop any stored images no remaining session references
+export const deleteSessions = async (sessionIds: string[]) => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, IMAGES_STORE], 'readwrite');
+  const sessionStore = tx.objectStore(SESSIONS_STORE);
+  const imageStore = tx.objectStore(IMAGES_STORE);
+
+  sessionIds.forEach(id => sessionStore.delete(id));
+  await pruneImages(sessionStore, imageStore);
+  await transactionDone(tx);
+};
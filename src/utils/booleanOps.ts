@@ -0,0 +1,197 @@
+import polygonClipping, { type MultiPolygon, type Polygon, type Ring } from 'polygon-clipping';
+import type { CanvasObject, SubPath } from '../App';
+import { getFlipScale, getPolygonVertices, getStarVertices, getTriangleVertices } from './geometry';
+import { flattenSubPath, normalizeSubPaths, type Point } from './pathGeometry';
+
+/**
+ * Boolean operations on closed shapes. Each operand is flattened to polygons
+ * in canvas space (curves and circles are sampled), combined with a polygon
+ * clipping engine, and the result becomes a single `path` object. Erased
+ * areas are not part of an object's outline and are dropped.
+ */
+
+export type BooleanOperation = 'union' | 'subtract' | 'intersect' | 'exclude';
+
+export const BOOLEAN_OPERATION_LABELS: Record<BooleanOperation, string> = {
+  union: 'Union',
+  subtract: 'Subtract',
+  intersect: 'Intersect',
+  exclude: 'Exclude'
+};
+
+// Segments used to approximate circles
+const CIRCLE_STEPS = 64;
+// A brush stroke whose ends are this close (or within its stroke width) counts as closed
+const DRAWN_CLOSE_DISTANCE = 20;
+
+const isClosedDrawnPath = (obj: CanvasObject) => {
+  const path = obj.data.path as { x: number; y: number }[] | undefined;
+  if (!path || path.length < 3 || obj.data.brushType === 'spray') return false;
+
+  const first = path[0];
+  const last = path[path.length - 1];
+  return Math.hypot(last.x - first.x, last.y - first.y) <= Math.max(DRAWN_CLOSE_DISTANCE, obj.style.strokeWidth);
+};
+
+// Whether an object has a closed outline that boolean operations can use
+export const isBooleanOperand = (obj: CanvasObject): boolean => {
+  switch (obj.type) {
+    case 'rectangle':
+    case 'circle':
+    case 'triangle':
+    case 'polygon':
+    case 'star':
+      return true;
+    case 'path':
+      return ((obj.data.subpaths || []) as SubPath[]).some(subpath => subpath.closed && subpath.nodes.length >= 3);
+    case 'drawn':
+      return isClosedDrawnPath(obj);
+    default:
+      return false;
+  }
+};
+
+const signedArea = (ring: Point[]) => {
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+};
+
+// Outline rings of an object in its local box space
+const getLocalRings = (obj: CanvasObject): { rings: Point[][]; fillRule: 'nonzero' | 'evenodd' } => {
+  const { x, y, width, height } = obj.transform;
+
+  switch (obj.type) {
+    case 'rectangle':
+      return {
+        rings: [[{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }]],
+        fillRule: 'nonzero'
+      };
+    case 'circle': {
+      const r = Math.min(width, height) / 2;
+      const ring: Point[] = [];
+      for (let i = 0; i < CIRCLE_STEPS; i++) {
+        const angle = (i * 2 * Math.PI) / CIRCLE_STEPS;
+        ring.push({ x: width / 2 + r * Math.cos(angle), y: height / 2 + r * Math.sin(angle) });
+      }
+      return { rings: [ring], fillRule: 'nonzero' };
+    }
+    case 'triangle':
+      return { rings: [getTriangleVertices(width, height)], fillRule: 'nonzero' };
+    case 'polygon':
+      return { rings: [getPolygonVertices(width, height)], fillRule: 'nonzero' };
+    case 'star':
+      return { rings: [getStarVertices(width, height)], fillRule: 'nonzero' };
+    case 'path':
+      return {
+        rings: ((obj.data.subpaths || []) as SubPath[])
+          .filter(subpath => subpath.closed)
+          .map(subpath => flattenSubPath(subpath).map(p => ({ x: p.x * width, y: p.y * height }))),
+        fillRule: obj.data.fillRule === 'evenodd' ? 'evenodd' : 'nonzero'
+      };
+    case 'drawn':
+      // Drawn path points are absolute; the box only rotates them
+      return {
+        rings: [(obj.data.path as { x: number; y: number }[]).map(p => ({ x: p.x - x, y: p.y - y }))],
+        fillRule: 'nonzero'
+      };
+    default:
+      return { rings: [], fillRule: 'nonzero' };
+  }
+};
+
+const toRing = (points: Point[]): Ring => points.map(p => [p.x, p.y] as [number, number]);
+
+/**
+ * The filled area of an object as polygons in canvas space. Even-odd paths
+ * XOR their rings; non-zero paths treat rings wound against the largest one
+ * as holes, which covers overlapping shapes and cut-outs alike.
+ */
+export const getObjectArea = (obj: CanvasObject): MultiPolygon => {
+  const { x, y, width, height, rotation } = obj.transform;
+  const centerX = x + width / 2;
+  const centerY = y + height / 2;
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const flip = getFlipScale(obj.transform);
+  const toCanvas = (p: Point): Point => {
+    const lx = (p.x - width / 2) * flip.x;
+    const ly = (p.y - height / 2) * flip.y;
+    return { x: centerX + lx * cos - ly * sin, y: centerY + lx * sin + ly * cos };
+  };
+
+  const { rings, fillRule } = getLocalRings(obj);
+  const canvasRings = rings.filter(ring => ring.length >= 3).map(ring => ring.map(toCanvas));
+  if (canvasRings.length === 0) return [];
+
+  const polygons: Polygon[] = canvasRings.map(ring => [toRing(ring)]);
+  if (polygons.length === 1) return [polygons[0]];
+  if (fillRule === 'evenodd') return polygonClipping.xor(polygons[0], ...polygons.slice(1));
+
+  const areas = canvasRings.map(signedArea);
+  const outerSign = Math.sign(areas.reduce((largest, area) => (Math.abs(area) > Math.abs(largest) ? area : largest), 0));
+  const filled = polygons.filter((_, i) => Math.sign(areas[i]) === outerSign);
+  const holes = polygons.filter((_, i) => Math.sign(areas[i]) !== outerSign);
+  const area = polygonClipping.union(filled[0], ...filled.slice(1));
+  return holes.length > 0 ? polygonClipping.difference(area, ...holes) : area;
+};
+
+/**
+ * Combine objects (in stacking order, bottom first) into one path object.
+ * Subtract removes every other shape from the bottom one. The result takes
+ * the bottom object's style. Throws when the result would be empty.
+ */
+export const combineObjects = (objects: CanvasObject[], operation: BooleanOperation): CanvasObject => {
+  const areas = objects.map(getObjectArea);
+  const [first, ...rest] = areas;
+
+  let result: MultiPolygon;
+  switch (operation) {
+    case 'union':
+      result = polygonClipping.union(first, ...rest);
+      break;
+    case 'subtract':
+      result = polygonClipping.difference(first, ...rest);
+      break;
+    case 'intersect':
+      result = polygonClipping.intersection(first, ...rest);
+      break;
+    case 'exclude':
+      result = polygonClipping.xor(first, ...rest);
+      break;
+  }
+
+  // Outer rings and holes alike become closed subpaths; even-odd filling restores the holes
+  const subpaths: SubPath[] = result.flat().map(ring => ({
+    // Clipping output repeats the first point at the end
+    nodes: ring.slice(0, -1).map(([px, py]) => ({ x: px, y: py })),
+    closed: true
+  }));
+  const normalized = normalizeSubPaths(subpaths.filter(subpath => subpath.nodes.length >= 3));
+  if (!normalized) {
+    throw new Error(operation === 'intersect' ? 'The shapes do not overlap' : 'The result is empty');
+  }
+
+  const base = objects[0];
+  return {
+    id: `path-${Date.now()}`,
+    type: 'path',
+    transform: { ...normalized.bounds, rotation: 0 },
+    style: {
+      ...base.style,
+      // Brush strokes have no fill of their own; give the outline their colour
+      fillColor: base.type === 'drawn' ? base.style.strokeColor : base.style.fillColor,
+      strokeWidth: base.type === 'drawn' ? 0 : base.style.strokeWidth
+    },
+    data: {
+      subpaths: normalized.subpaths,
+      fillRule: 'evenodd',
+      erasedAreas: []
+    }
+  };
+};
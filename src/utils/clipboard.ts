@@ -0,0 +1,128 @@
+import type { CanvasObject } from '../App';
+import { getPaintedBounds } from './geometry';
+import { isRecord, isValidCanvasObject } from './objectValidation';
+import { exportRaster } from './rasterExport';
+import { exportSvg } from './svgExport';
+
+/**
+ * Copy and paste through the system clipboard. Copied objects are written as
+ * a JSON payload in `text/plain`, so they paste back into this or another
+ * ShapeCanvas tab, alongside PNG (and, where the browser allows it, SVG)
+ * renderings for other applications. Pasting recognizes the payload, SVG
+ * markup and image files.
+ */
+
+export const CLIPBOARD_FORMAT = 'shapecanvas-clipboard';
+
+// How far each successive paste (and a duplicate) is offset from the original
+export const PASTE_OFFSET = 10;
+
+export type ClipboardContent =
+  | { kind: 'objects'; objects: CanvasObject[] }
+  | { kind: 'svg'; markup: string }
+  | { kind: 'image'; file: File };
+
+// Reading the system clipboard on demand either gets an answer (which may be nothing this app can
+// paste) or is refused, when the browser doesn't allow it or has no API for it
+export type SystemClipboardRead =
+  | { readable: true; content: ClipboardContent | null }
+  | { readable: false };
+
+export const serializeClipboard = (objects: CanvasObject[]): string =>
+  JSON.stringify({ format: CLIPBOARD_FORMAT, objects });
+
+// The copied objects, or null when the text isn't a clipboard payload
+export const parseClipboard = (text: string): CanvasObject[] | null => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isRecord(payload) || payload.format !== CLIPBOARD_FORMAT || !Array.isArray(payload.objects)) return null;
+  const { objects } = payload;
+  // Clipboard text can come from anywhere, so only objects drawing can handle are pasted
+  return objects.every(isValidCanvasObject) ? objects : null;
+};
+
+let idCounter = 0;
+
+// A copy with new ids throughout, merged children included, so it can sit beside the original
+export const withFreshIds = (obj: CanvasObject): CanvasObject => ({
+  ...obj,
+  id: `${obj.type}-${Date.now()}-${idCounter++}`,
+  ...(obj.children ? { children: obj.children.map(withFreshIds) } : {})
+});
+
+const isSvgMarkup = (text: string) => /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i.test(text);
+
+/**
+ * Write objects (in canvas coordinates) to the system clipboard. Rejects when
+ * the browser refuses, e.g. because the page isn't focused.
+ */
+export const writeClipboard = async (objects: CanvasObject[]) => {
+  const region = getPaintedBounds(objects);
+  if (!region) return;
+
+  const items: Record<string, Blob | Promise<Blob>> = {
+    'text/plain': new Blob([serializeClipboard(objects)], { type: 'text/plain' }),
+    'image/png': exportRaster(objects, region, { format: 'png', scale: 1, background: 'transparent', quality: 1 })
+  };
+  if (typeof ClipboardItem.supports === 'function' && ClipboardItem.supports('image/svg+xml')) {
+    items['image/svg+xml'] = new Blob([exportSvg(objects, region, { background: 'transparent' })], { type: 'image/svg+xml' });
+  }
+  await navigator.clipboard.write([new ClipboardItem(items)]);
+};
+
+// What a paste event carries that can become objects, preferring our own payload
+export const readClipboardData = async (data: DataTransfer): Promise<ClipboardContent | null> => {
+  const text = data.getData('text/plain');
+  const objects = text ? parseClipboard(text) : null;
+  if (objects) return { kind: 'objects', objects };
+
+  const files = Array.from(data.files);
+  const svgFile = files.find(file => file.type === 'image/svg+xml');
+  if (svgFile) return { kind: 'svg', markup: await svgFile.text() };
+
+  const svgText = data.getData('image/svg+xml') || (isSvgMarkup(text) ? text : '');
+  if (svgText) return { kind: 'svg', markup: svgText };
+
+  const imageFile = files.find(file => file.type.startsWith('image/'));
+  if (imageFile) return { kind: 'image', file: imageFile };
+
+  return null;
+};
+
+// What the system clipboard holds, for commands that get no paste event
+export const readSystemClipboard = async (): Promise<SystemClipboardRead> => {
+  let items: ClipboardItems;
+  try {
+    items = await navigator.clipboard.read();
+  } catch {
+    // Reading was refused, or the browser can't read the clipboard on demand
+    return { readable: false };
+  }
+
+  const found = (content: ClipboardContent | null): SystemClipboardRead => ({ readable: true, content });
+  try {
+    for (const item of items) {
+      if (item.types.includes('text/plain')) {
+        const text = await (await item.getType('text/plain')).text();
+        const objects = parseClipboard(text);
+        if (objects) return found({ kind: 'objects', objects });
+        if (isSvgMarkup(text)) return found({ kind: 'svg', markup: text });
+      }
+      if (item.types.includes('image/svg+xml')) {
+        return found({ kind: 'svg', markup: await (await item.getType('image/svg+xml')).text() });
+      }
+      const imageType = item.types.find(type => type.startsWith('image/'));
+      if (imageType) {
+        const blob = await item.getType(imageType);
+        return found({ kind: 'image', file: new File([blob], 'Pasted image', { type: imageType }) });
+      }
+    }
+  } catch {
+    // An item listed a type it then couldn't hand over; there is nothing to paste from it
+  }
+  return found(null);
+};
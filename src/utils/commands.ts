@@ -0,0 +1,241 @@
+import type { Tool } from '../App';
+import type { AlignEdge, DistributeMode } from './align';
+import type { BooleanOperation } from './booleanOps';
+import type { FlipDirection, NudgeDirection } from './geometry';
+import type { ZOrderCommand } from './layers';
+import type { ShapeType } from './shapes';
+import type { ZoomPreset } from './viewport';
+
+/**
+ * The editor's commands, in one registry that App builds from its handlers
+ * and state. The menubar, toolbar buttons and command palette read their
+ * labels, shortcuts and enabled state from it, so the same command looks and
+ * behaves the same wherever it is offered.
+ */
+
+export type CommandId =
+  | 'file.new'
+  | 'file.open'
+  | 'file.import'
+  | 'file.save'
+  | 'file.saveAs'
+  | 'file.export'
+  | 'file.exportSelection'
+  | 'file.pageSize'
+  | 'edit.undo'
+  | 'edit.redo'
+  | 'edit.cut'
+  | 'edit.copy'
+  | 'edit.paste'
+  | 'edit.pasteInPlace'
+  | 'edit.duplicate'
+  | 'edit.delete'
+  | 'edit.selectAll'
+  | 'object.group'
+  | 'object.ungroup'
+  | 'object.exitGroup'
+  | `object.arrange.${ZOrderCommand}`
+  | `object.align.${AlignEdge}`
+  | `object.distribute.${DistributeMode}`
+  | `object.flip.${FlipDirection}`
+  | `object.nudge.${NudgeDirection}`
+  | `object.bigNudge.${NudgeDirection}`
+  | `object.combine.${BooleanOperation}`
+  | 'object.lock'
+  | 'object.hide'
+  | 'object.rasterize'
+  | `insert.${ShapeType}`
+  | `tool.${Tool}`
+  | 'view.zoomIn'
+  | 'view.zoomOut'
+  | `view.zoomTo.${ZoomPreset}`
+  | 'view.zoomToFit'
+  | 'view.zoomToSelection'
+  | 'view.infiniteCanvas'
+  | 'view.grid'
+  | 'view.snapToGrid'
+  | 'view.smartGuides'
+  | 'view.rulers'
+  | 'view.guides'
+  | 'view.lockGuides'
+  | 'view.clearGuides'
+  | 'view.layersPanel'
+  | 'view.propertiesPanel'
+  | 'view.historyPanel'
+  | 'help.commandPalette'
+  | 'help.shortcuts'
+  | 'help.keymap'
+  | 'help.about';
+
+export interface EditorCommand {
+  label: string;
+  shortcut?: string; // first key bound to it in the keymap, e.g. 'Ctrl+Shift+S'
+  disabled?: boolean;
+  checked?: boolean; // set for commands that toggle a setting
+  run: () => void;
+}
+
+export type CommandRegistry = Record<CommandId, EditorCommand>;
+
+// A menu entry: a command, a separator, or a submenu
+export type MenuEntry = CommandId | '-' | { label: string; entries: MenuEntry[] };
+
+export interface EditorMenu {
+  label: string;
+  entries: MenuEntry[];
+}
+
+export const EDITOR_MENUS: EditorMenu[] = [
+  {
+    label: 'File',
+    entries: [
+      'file.new',
+      'file.open',
+      '-',
+      'file.save',
+      'file.saveAs',
+      '-',
+      'file.import',
+      'file.export',
+      'file.exportSelection',
+      '-',
+      'file.pageSize'
+    ]
+  },
+  {
+    label: 'Edit',
+    entries: [
+      'edit.undo',
+      'edit.redo',
+      '-',
+      'edit.cut',
+      'edit.copy',
+      'edit.paste',
+      'edit.pasteInPlace',
+      'edit.duplicate',
+      'edit.delete',
+      '-',
+      'edit.selectAll'
+    ]
+  },
+  {
+    label: 'Object',
+    entries: [
+      'object.group',
+      'object.ungroup',
+      'object.exitGroup',
+      '-',
+      {
+        label: 'Arrange',
+        entries: ['object.arrange.front', 'object.arrange.forward', 'object.arrange.backward', 'object.arrange.back']
+      },
+      {
+        label: 'Align',
+        entries: [
+          'object.align.left',
+          'object.align.center',
+          'object.align.right',
+          '-',
+          'object.align.top',
+          'object.align.middle',
+          'object.align.bottom',
+          '-',
+          'object.distribute.horizontal-centers',
+          'object.distribute.vertical-centers',
+          'object.distribute.horizontal-gaps',
+          'object.distribute.vertical-gaps'
+        ]
+      },
+      {
+        label: 'Flip',
+        entries: ['object.flip.horizontal', 'object.flip.vertical']
+      },
+      {
+        label: 'Combine Shapes',
+        entries: ['object.combine.union', 'object.combine.subtract', 'object.combine.intersect', 'object.combine.exclude']
+      },
+      '-',
+      'object.lock',
+      'object.hide',
+      'object.rasterize'
+    ]
+  },
+  {
+    label: 'Insert',
+    entries: ['insert.rectangle', 'insert.circle', 'insert.triangle', 'insert.polygon', 'insert.star', 'insert.line']
+  },
+  {
+    label: 'View',
+    entries: [
+      'view.zoomIn',
+      'view.zoomOut',
+      {
+        label: 'Zoom To',
+        entries: ['view.zoomTo.25', 'view.zoomTo.50', 'view.zoomTo.100', 'view.zoomTo.200', 'view.zoomTo.400']
+      },
+      'view.zoomToFit',
+      'view.zoomToSelection',
+      '-',
+      'view.grid',
+      'view.snapToGrid',
+      'view.smartGuides',
+      '-',
+      'view.rulers',
+      'view.guides',
+      'view.lockGuides',
+      'view.clearGuides',
+      '-',
+      'view.infiniteCanvas',
+      '-',
+      'view.layersPanel',
+      'view.propertiesPanel',
+      'view.historyPanel'
+    ]
+  },
+  {
+    label: 'Help',
+    entries: ['help.commandPalette', 'help.shortcuts', 'help.keymap', '-', 'help.about']
+  }
+];
+
+// Headings the command palette groups commands under, by the first part of their id, in palette order
+export const COMMAND_GROUPS: Record<string, string> = {
+  tool: 'Tools',
+  insert: 'Insert',
+  object: 'Object',
+  edit: 'Edit',
+  view: 'View',
+  file: 'File',
+  help: 'Help'
+};
+
+export const getCommandGroup = (id: CommandId) => COMMAND_GROUPS[id.slice(0, id.indexOf('.'))];
+
+// Tooltip text for a toolbar button that runs a command
+export const getCommandTitle = (command: EditorCommand) =>
+  command.shortcut ? `${command.label} (${command.shortcut})` : command.label;
+
+// Commands last run from the palette, most recent first, kept across sessions
+const RECENT_COMMANDS_KEY = 'shapecanvas-recent-commands';
+export const MAX_RECENT_COMMANDS = 5;
+
+// Ids are checked against the registry by the caller, since commands come and go between versions
+export const loadRecentCommands = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_COMMANDS_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(id => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+// The list with `id` moved to the front, saved for next time
+export const rememberRecentCommand = (recent: string[], id: CommandId): string[] => {
+  const next = [id, ...recent.filter(recentId => recentId !== id)].slice(0, MAX_RECENT_COMMANDS);
+  try {
+    localStorage.setItem(RECENT_COMMANDS_KEY, JSON.stringify(next));
+  } catch {
+    // Storage is full or disabled; the list still lasts for this session
+  }
+  return next;
+};
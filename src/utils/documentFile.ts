@@ -0,0 +1,157 @@
+import type { CanvasObject } from '../App';
+import { isValidGuide, type GuideLine } from './guides';
+import { isRecord, isValidCanvasObject } from './objectValidation';
+import { DEFAULT_PAGE_SIZE, isValidPageSize, type PageSize } from './pageSize';
+
+/**
+ * ShapeCanvas document file format (`.shapecanvas.json`).
+ *
+ * A saved document is a single JSON object:
+ *
+ *   {
+ *     "format": "shapecanvas",
+ *     "version": 3,
+ *     "savedAt": "2025-01-01T12:00:00.000Z",
+ *     "page": { "width": 1200, "height": 800 },
+ *     "guides": [ { "id": "guide-1", "axis": "x", "position": 600 } ],
+ *     "objects": [ ...CanvasObject ]
+ *   }
+ *
+ * `page` is the artboard size in canvas units. Version 1 files predate it and
+ * are read with the fixed 1200 x 800 page they were drawn on. `guides` are the
+ * ruler guides (see `guides.ts`); files before version 3 have none.
+ *
+ * `objects` is the full `CanvasObject[]` tree exactly as the editor holds it:
+ * merged objects keep their `children` (in parent-relative coordinates),
+ * drawn objects keep `path`, `brushType` and `sprayParticles`, every object
+ * keeps its normalized `erasedAreas`, and images are embedded as data URLs in
+ * `data.imageUrl` so the file is self-contained.
+ *
+ * Whenever the shape of `CanvasObject` changes in a way that older files can't
+ * be read as-is, bump `DOCUMENT_VERSION` and register a migration in
+ * `MIGRATIONS` keyed by the version it upgrades *from*. Loading runs every
+ * migration between the file's version and the current one in order.
+ */
+
+export const DOCUMENT_FORMAT = 'shapecanvas';
+export const DOCUMENT_VERSION = 3;
+export const DOCUMENT_EXTENSION = '.shapecanvas.json';
+
+export interface ShapeCanvasDocument {
+  format: typeof DOCUMENT_FORMAT;
+  version: number;
+  savedAt: string;
+  page: PageSize;
+  guides: GuideLine[];
+  objects: CanvasObject[];
+}
+
+// A parsed file before it has been checked: only known to be a JSON object
+type RawDocument = Record<string, unknown>;
+
+type Migration = (doc: RawDocument) => RawDocument;
+
+// Keyed by source version: MIGRATIONS[n] turns a version n document into version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  // Page size became configurable; older documents used the fixed default
+  1: doc => ({ ...doc, page: { ...DEFAULT_PAGE_SIZE } }),
+  // Ruler guides were added
+  2: doc => ({ ...doc, guides: [] })
+};
+
+export function createDocument(objects: CanvasObject[], page: PageSize, guides: GuideLine[]): ShapeCanvasDocument {
+  return {
+    format: DOCUMENT_FORMAT,
+    version: DOCUMENT_VERSION,
+    savedAt: new Date().toISOString(),
+    page,
+    guides,
+    objects
+  };
+}
+
+export function serializeDocument(objects: CanvasObject[], page: PageSize, guides: GuideLine[]): string {
+  return JSON.stringify(createDocument(objects, page, guides), null, 2);
+}
+
+export function migrateDocument(raw: unknown): ShapeCanvasDocument {
+  if (!isRecord(raw) || raw.format !== DOCUMENT_FORMAT) {
+    throw new Error('Not a ShapeCanvas document');
+  }
+
+  const version = Number(raw.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('Document has no valid version');
+  }
+  if (version > DOCUMENT_VERSION) {
+    throw new Error(`Document version ${version} is newer than this editor supports (${DOCUMENT_VERSION})`);
+  }
+
+  let doc = raw;
+  for (let v = version; v < DOCUMENT_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) {
+      throw new Error(`No migration from document version ${v}`);
+    }
+    doc = { ...migrate(doc), version: v + 1 };
+  }
+
+  const { objects, page, guides, savedAt } = doc;
+  if (!Array.isArray(objects)) {
+    throw new Error('Document has no objects');
+  }
+  if (!objects.every(isValidCanvasObject)) {
+    throw new Error('Document has invalid objects');
+  }
+  const pageSize = isRecord(page) ? { width: Number(page.width), height: Number(page.height) } : null;
+  if (!pageSize || !isValidPageSize(pageSize)) {
+    throw new Error('Document has no valid page size');
+  }
+  if (!Array.isArray(guides) || !guides.every(isValidGuide)) {
+    throw new Error('Document has invalid guides');
+  }
+
+  return {
+    format: DOCUMENT_FORMAT,
+    version: DOCUMENT_VERSION,
+    savedAt: typeof savedAt === 'string' ? savedAt : '',
+    page: pageSize,
+    guides,
+    objects
+  };
+}
+
+export function parseDocument(text: string): ShapeCanvasDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  return migrateDocument(raw);
+}
+
+export function isDocumentFile(file: File): boolean {
+  return file.name.endsWith('.json') || file.type === 'application/json';
+}
+
+// The name to save a document opened from `file` under, without the extension
+export function getDocumentName(file: File): string {
+  const extension = file.name.endsWith(DOCUMENT_EXTENSION) ? DOCUMENT_EXTENSION : '.json';
+  return file.name.endsWith(extension) ? file.name.slice(0, -extension.length) : file.name;
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadDocument(objects: CanvasObject[], page: PageSize, guides: GuideLine[], name = 'untitled') {
+  const blob = new Blob([serializeDocument(objects, page, guides)], { type: 'application/json' });
+  downloadBlob(blob, `${name}${DOCUMENT_EXTENSION}`);
+}
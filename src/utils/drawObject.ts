@@ -0,0 +1,313 @@
+import type { CanvasObject } from '../App';
+import { getFlipScale, getPolygonVertices, getStarVertices, getTriangleVertices, type Bounds } from './geometry';
+import { applyGroupTransform } from './groups';
+import { traceSubPaths } from './pathGeometry';
+import { paintText } from './text';
+
+export type ImageCache = Map<string, HTMLImageElement>;
+
+// Look up (or start loading) an image; returns it only once it is ready to draw
+export const getCachedImage = (
+  cache: ImageCache,
+  imageUrl: string,
+  onImageLoad?: () => void
+): HTMLImageElement | null => {
+  let img = cache.get(imageUrl);
+
+  if (!img) {
+    img = new Image();
+    img.src = imageUrl;
+    cache.set(imageUrl, img);
+
+    // Let the caller re-render when the image arrives
+    img.onload = () => {
+      onImageLoad?.();
+    };
+  }
+
+  return img.complete && img.naturalWidth > 0 ? img : null;
+};
+
+// Resolve once every image referenced by the objects (including merged children) is loaded
+export const preloadImages = (objects: CanvasObject[], cache: ImageCache): Promise<void> => {
+  const urls = new Set<string>();
+  const collect = (list: CanvasObject[]) => {
+    list.forEach(obj => {
+      if (obj.type === 'image' && obj.data.imageUrl) urls.add(obj.data.imageUrl);
+      if (obj.children) collect(obj.children);
+    });
+  };
+  collect(objects);
+
+  return Promise.all(
+    Array.from(urls).map(url => new Promise<void>(resolve => {
+      const img = getCachedImage(cache, url);
+      if (img) {
+        resolve();
+        return;
+      }
+      const pending = cache.get(url)!;
+      pending.addEventListener('load', () => resolve(), { once: true });
+      pending.addEventListener('error', () => resolve(), { once: true });
+    }))
+  ).then(() => undefined);
+};
+
+// Trace a closed polygon as the current path
+export const tracePolygon = (ctx: CanvasRenderingContext2D, vertices: { x: number; y: number }[]) => {
+  ctx.beginPath();
+  vertices.forEach((p, i) => {
+    if (i === 0) ctx.moveTo(p.x, p.y);
+    else ctx.lineTo(p.x, p.y);
+  });
+  ctx.closePath();
+};
+
+// Paint an object's content in its local space (0,0 is the top-left of its transform box)
+const paintObject = (
+  ctx: CanvasRenderingContext2D,
+  obj: CanvasObject,
+  objectOpacity: number,
+  images: ImageCache,
+  onImageLoad?: () => void
+) => {
+  const { x, y, width, height } = obj.transform;
+  const { strokeColor, fillColor, strokeWidth } = obj.style;
+
+  ctx.strokeStyle = strokeColor;
+  ctx.fillStyle = fillColor;
+  ctx.lineWidth = strokeWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  if (obj.type === 'drawn' && obj.data.path) {
+    const path = obj.data.path as { x: number; y: number }[];
+    const brushType = obj.data.brushType || 'normal';
+
+    if (brushType === 'spray' && obj.data.sprayParticles) {
+      // Spray effect: use pre-generated particles (NO random generation!)
+      ctx.fillStyle = strokeColor;
+      const particles = obj.data.sprayParticles as { x: number; y: number; size: number; alpha: number }[];
+
+      particles.forEach(particle => {
+        ctx.globalAlpha = particle.alpha * objectOpacity;
+        ctx.beginPath();
+        ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    } else {
+      // Marker effect: semi-transparent smooth stroke; normal brush: regular stroke
+      ctx.globalAlpha = (brushType === 'marker' ? 0.6 : 1) * objectOpacity;
+      ctx.beginPath();
+      if (path.length > 0) {
+        const firstPoint = path[0];
+        ctx.moveTo(firstPoint.x - x, firstPoint.y - y);
+        for (let i = 1; i < path.length; i++) {
+          ctx.lineTo(path[i].x - x, path[i].y - y);
+        }
+        ctx.stroke();
+      }
+    }
+  } else if (obj.type === 'rectangle') {
+    ctx.globalAlpha = objectOpacity;
+    if (fillColor !== 'transparent') {
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.strokeRect(0, 0, width, height);
+  } else if (obj.type === 'circle') {
+    ctx.globalAlpha = objectOpacity;
+    ctx.beginPath();
+    ctx.arc(width / 2, height / 2, Math.min(width, height) / 2, 0, Math.PI * 2);
+    if (fillColor !== 'transparent') {
+      ctx.fill();
+    }
+    ctx.stroke();
+  } else if (obj.type === 'triangle') {
+    ctx.globalAlpha = objectOpacity;
+    tracePolygon(ctx, getTriangleVertices(width, height));
+    if (fillColor !== 'transparent') {
+      ctx.fill();
+    }
+    ctx.stroke();
+  } else if (obj.type === 'polygon') {
+    ctx.globalAlpha = objectOpacity;
+    tracePolygon(ctx, getPolygonVertices(width, height));
+    if (fillColor !== 'transparent') {
+      ctx.fill();
+    }
+    ctx.stroke();
+  } else if (obj.type === 'star') {
+    ctx.globalAlpha = objectOpacity;
+    tracePolygon(ctx, getStarVertices(width, height));
+    if (fillColor !== 'transparent') {
+      ctx.fill();
+    }
+    ctx.stroke();
+  } else if (obj.type === 'path' && obj.data.subpaths) {
+    ctx.globalAlpha = objectOpacity;
+    traceSubPaths(ctx, obj.data.subpaths, width, height);
+    if (fillColor !== 'transparent') {
+      ctx.fill(obj.data.fillRule || 'nonzero');
+    }
+    ctx.stroke();
+  } else if (obj.type === 'line') {
+    ctx.globalAlpha = objectOpacity;
+    ctx.beginPath();
+    ctx.moveTo(0, height / 2);
+    ctx.lineTo(width, height / 2);
+    ctx.stroke();
+  } else if (obj.type === 'text') {
+    ctx.globalAlpha = objectOpacity;
+    paintText(
+      ctx,
+      obj.data,
+      width,
+      fillColor !== 'transparent',
+      strokeColor !== 'transparent' && strokeWidth > 0
+    );
+  } else if (obj.type === 'image') {
+    ctx.globalAlpha = objectOpacity;
+    const img = getCachedImage(images, obj.data.imageUrl, onImageLoad);
+    if (img) {
+      ctx.drawImage(img, 0, 0, width, height);
+    }
+  }
+
+  ctx.globalAlpha = 1;
+};
+
+// Largest side of the temporary canvas an erased object is drawn through, in pixels. Past it the
+// object is drawn at a lower resolution rather than risk a canvas the browser can't allocate.
+const MAX_ERASE_CANVAS_SIZE = 4096;
+
+// Margin around an erased object's box that its stroke may paint into
+const ERASE_CANVAS_MARGIN = 10;
+
+// The part of an object's box (and margin) that lands on the target canvas, in the box's own
+// space (the context's current transform), or null if none of it does
+const getVisibleBoxArea = (ctx: CanvasRenderingContext2D, width: number, height: number): Bounds | null => {
+  const inverse = ctx.getTransform().inverse();
+  const { width: targetWidth, height: targetHeight } = ctx.canvas;
+  const corners = [
+    [0, 0],
+    [targetWidth, 0],
+    [0, targetHeight],
+    [targetWidth, targetHeight]
+  ].map(([px, py]) => inverse.transformPoint(new DOMPoint(px, py)));
+
+  const left = Math.max(-ERASE_CANVAS_MARGIN, Math.floor(Math.min(...corners.map(p => p.x))));
+  const top = Math.max(-ERASE_CANVAS_MARGIN, Math.floor(Math.min(...corners.map(p => p.y))));
+  const right = Math.min(width + ERASE_CANVAS_MARGIN, Math.ceil(Math.max(...corners.map(p => p.x))));
+  const bottom = Math.min(height + ERASE_CANVAS_MARGIN, Math.ceil(Math.max(...corners.map(p => p.y))));
+  // Also false for a transform that can't be inverted, whose corners come out NaN
+  if (!(right > left && bottom > top)) return null;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// Draw an object with its erased areas cut out, through a temporary canvas in the object's box
+// space (the context's current transform). Only the part of the object on the target is drawn,
+// so zooming far in doesn't ask for a canvas the size of the whole object.
+const drawErasedObject = (
+  ctx: CanvasRenderingContext2D,
+  obj: CanvasObject,
+  images: ImageCache,
+  onImageLoad?: () => void
+) => {
+  const { width, height } = obj.transform;
+  const { opacity } = obj.style;
+  const visibleArea = getVisibleBoxArea(ctx, width, height);
+  if (!visibleArea) return;
+
+  // Match the temp canvas resolution to the target so exports and zoom stay sharp, within the size limit
+  const matrix = ctx.getTransform();
+  const pixelScale = Math.min(
+    Math.max(1, Math.hypot(matrix.a, matrix.b), Math.hypot(matrix.c, matrix.d)),
+    MAX_ERASE_CANVAS_SIZE / Math.max(visibleArea.width, visibleArea.height)
+  );
+  const tempCanvas = document.createElement('canvas');
+  tempCanvas.width = Math.ceil(visibleArea.width * pixelScale);
+  tempCanvas.height = Math.ceil(visibleArea.height * pixelScale);
+  const tempCtx = tempCanvas.getContext('2d');
+  if (!tempCtx) return;
+
+  tempCtx.scale(pixelScale, pixelScale);
+  tempCtx.translate(-visibleArea.x, -visibleArea.y);
+
+  // Draw the object on temp canvas
+  paintObject(tempCtx, obj, 1, images, onImageLoad);
+
+  // Apply eraser using destination-out
+  tempCtx.globalCompositeOperation = 'destination-out';
+  obj.data.erasedAreas.forEach((area: { x: number; y: number; size: number }[]) => {
+    area.forEach(point => {
+      tempCtx.beginPath();
+      // Convert normalized coordinates (0-1) back to actual pixel coordinates
+      const actualX = point.x * width;
+      const actualY = point.y * height;
+      const actualSize = point.size * Math.min(width, height);
+      tempCtx.arc(actualX, actualY, actualSize / 2, 0, Math.PI * 2);
+      tempCtx.fillStyle = 'rgba(0,0,0,1)';
+      tempCtx.fill();
+    });
+  });
+
+  // Draw the temp canvas onto main canvas
+  ctx.globalAlpha = opacity ?? 1;
+  ctx.drawImage(
+    tempCanvas,
+    visibleArea.x,
+    visibleArea.y,
+    tempCanvas.width / pixelScale,
+    tempCanvas.height / pixelScale
+  );
+  ctx.globalAlpha = 1;
+};
+
+/**
+ * Draw a CanvasObject (recursing into merged children) onto any 2D context.
+ * Used by the editor canvas and by exporters so both produce identical pixels.
+ */
+export const drawObject = (
+  ctx: CanvasRenderingContext2D,
+  obj: CanvasObject,
+  images: ImageCache,
+  onImageLoad?: () => void
+) => {
+  if (obj.hidden) return;
+
+  const { x, y, width, height, rotation } = obj.transform;
+  const { opacity } = obj.style;
+
+  // Handle merged objects - draw children in parent's coordinate space
+  if (obj.type === 'merged' && obj.children) {
+    ctx.save();
+    ctx.globalAlpha = opacity ?? 1;
+
+    // Apply parent's transform: translate -> rotate -> scale
+    applyGroupTransform(ctx, obj);
+
+    // Draw each child with relative coordinates (in original scale)
+    obj.children.forEach(child => {
+      drawObject(ctx, child, images, onImageLoad);
+    });
+
+    ctx.restore();
+    return;
+  }
+
+  ctx.save();
+  ctx.translate(x + width / 2, y + height / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  const flip = getFlipScale(obj.transform);
+  ctx.scale(flip.x, flip.y);
+  ctx.translate(-width / 2, -height / 2);
+
+  if (obj.data.erasedAreas && obj.data.erasedAreas.length > 0) {
+    drawErasedObject(ctx, obj, images, onImageLoad);
+  } else {
+    // Draw normally without eraser
+    paintObject(ctx, obj, opacity ?? 1, images, onImageLoad);
+  }
+
+  ctx.restore();
+};
@@ -0,0 +1,250 @@
+import type { CanvasObject, Transform } from '../App';
+import { fitTextBox } from './text';
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Corners of a transform box in canvas space, taking rotation about its center into account
+export const getTransformCorners = (transform: Transform): { x: number; y: number }[] => {
+  const { x, y, width, height, rotation } = transform;
+  const centerX = x + width / 2;
+  const centerY = y + height / 2;
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+
+  return [
+    { x: -width / 2, y: -height / 2 },
+    { x: width / 2, y: -height / 2 },
+    { x: width / 2, y: height / 2 },
+    { x: -width / 2, y: height / 2 }
+  ].map(p => ({
+    x: centerX + p.x * cos - p.y * sin,
+    y: centerY + p.x * sin + p.y * cos
+  }));
+};
+
+// -1 along each axis the box is mirrored on, for scaling its contents about its center
+export const getFlipScale = (transform: Transform) => ({
+  x: transform.flipX ? -1 : 1,
+  y: transform.flipY ? -1 : 1
+});
+
+// Axis-aligned bounding box of a single object
+export const getObjectBounds = (obj: CanvasObject): Bounds => {
+  const corners = getTransformCorners(obj.transform);
+  const xs = corners.map(p => p.x);
+  const ys = corners.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY
+  };
+};
+
+// Smallest box containing all of the given boxes, or null for an empty list
+export const mergeBounds = (boxes: Bounds[]): Bounds | null => {
+  if (boxes.length === 0) return null;
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  boxes.forEach(b => {
+    minX = Math.min(minX, b.x);
+    minY = Math.min(minY, b.y);
+    maxX = Math.max(maxX, b.x + b.width);
+    maxY = Math.max(maxY, b.y + b.height);
+  });
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+export const isPointInBounds = (point: { x: number; y: number }, bounds: Bounds) =>
+  point.x >= bounds.x && point.x <= bounds.x + bounds.width &&
+  point.y >= bounds.y && point.y <= bounds.y + bounds.height;
+
+// Axis-aligned bounding box enclosing every given object
+export const getObjectsBounds = (objects: CanvasObject[]): Bounds | null =>
+  mergeBounds(objects.map(getObjectBounds));
+
+// Bounds of what the objects paint, with room for strokes that extend past their transform boxes
+export const getPaintedBounds = (objects: CanvasObject[]): Bounds | null => {
+  const bounds = getObjectsBounds(objects);
+  if (!bounds) return null;
+
+  const padding = Math.ceil(Math.max(...objects.map(obj => obj.style.strokeWidth)) / 2);
+  return {
+    x: bounds.x - padding,
+    y: bounds.y - padding,
+    width: bounds.width + padding * 2,
+    height: bounds.height + padding * 2
+  };
+};
+
+// Vertices of the closed built-in shapes in local box space, shared by canvas drawing and exporters
+export const getTriangleVertices = (width: number, height: number): { x: number; y: number }[] => [
+  { x: width / 2, y: 0 },
+  { x: width, y: height },
+  { x: 0, y: height }
+];
+
+export const getPolygonVertices = (width: number, height: number, sides = 6): { x: number; y: number }[] => {
+  const radius = Math.min(width, height) / 2;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const vertices: { x: number; y: number }[] = [];
+
+  for (let i = 0; i < sides; i++) {
+    const angle = (i * 2 * Math.PI) / sides - Math.PI / 2;
+    vertices.push({
+      x: centerX + radius * Math.cos(angle),
+      y: centerY + radius * Math.sin(angle)
+    });
+  }
+
+  return vertices;
+};
+
+export const getStarVertices = (width: number, height: number, spikes = 5): { x: number; y: number }[] => {
+  const outerRadius = Math.min(width, height) / 2;
+  const innerRadius = outerRadius / 2;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const vertices: { x: number; y: number }[] = [];
+
+  for (let i = 0; i < spikes * 2; i++) {
+    const radius = i % 2 === 0 ? outerRadius : innerRadius;
+    const angle = (i * Math.PI) / spikes - Math.PI / 2;
+    vertices.push({
+      x: centerX + radius * Math.cos(angle),
+      y: centerY + radius * Math.sin(angle)
+    });
+  }
+
+  return vertices;
+};
+
+export type NudgeDirection = 'left' | 'right' | 'up' | 'down';
+
+// Unit step along each arrow key's direction
+export const NUDGE_VECTORS: Record<NudgeDirection, { x: number; y: number }> = {
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 }
+};
+
+// Move an object by a delta; drawn strokes keep absolute path points, so those move too
+export const translateObject = (obj: CanvasObject, dx: number, dy: number): CanvasObject => {
+  const transform = { ...obj.transform, x: obj.transform.x + dx, y: obj.transform.y + dy };
+
+  if (obj.type === 'drawn' && obj.data.path) {
+    return {
+      ...obj,
+      transform,
+      data: {
+        ...obj.data,
+        path: (obj.data.path as { x: number; y: number }[]).map(point => ({
+          x: point.x + dx,
+          y: point.y + dy
+        }))
+      }
+    };
+  }
+
+  // Merged children are relative to the parent, so only the parent moves
+  return { ...obj, transform };
+};
+
+/**
+ * Scale an object along with a box it belongs to, as the box goes from `from`
+ * to `to`. Its center keeps its place relative to the box and its size scales
+ * by the box's; a rotated object keeps its rotation, so it is stretched along
+ * its own axes rather than sheared.
+ */
+export const scaleObjectBetween = (obj: CanvasObject, from: Transform, to: Transform): CanvasObject => {
+  const scaleX = from.width === 0 ? 1 : to.width / from.width;
+  const scaleY = from.height === 0 ? 1 : to.height / from.height;
+  const { x, y, width, height } = obj.transform;
+  const centerX = x + width / 2;
+  const centerY = y + height / 2;
+  const newCenterX = to.x + (centerX - from.x) * scaleX;
+  const newCenterY = to.y + (centerY - from.y) * scaleY;
+  const newWidth = width * scaleX;
+  const newHeight = height * scaleY;
+  const transform = {
+    ...obj.transform,
+    x: newCenterX - newWidth / 2,
+    y: newCenterY - newHeight / 2,
+    width: newWidth,
+    height: newHeight
+  };
+
+  // Path points are in the object's unrotated space, so they scale about its center
+  if (obj.type === 'drawn' && obj.data.path) {
+    return {
+      ...obj,
+      transform,
+      data: {
+        ...obj.data,
+        path: (obj.data.path as { x: number; y: number }[]).map(point => ({
+          x: newCenterX + (point.x - centerX) * scaleX,
+          y: newCenterY + (point.y - centerY) * scaleY
+        }))
+      }
+    };
+  }
+
+  // Text keeps its size and wraps to the new width instead; its height follows the lines
+  if (obj.type === 'text') {
+    return fitTextBox({ ...obj, transform, data: { ...obj.data, wrap: true } });
+  }
+
+  // Merged children are scaled with the parent's box when drawn
+  return { ...obj, transform };
+};
+
+// Rotate an object by `degrees` about a point: its center swings around the point and it turns by as much
+export const rotateObjectAbout = (obj: CanvasObject, pivot: { x: number; y: number }, degrees: number): CanvasObject => {
+  const { x, y, width, height, rotation } = obj.transform;
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = x + width / 2 - pivot.x;
+  const dy = y + height / 2 - pivot.y;
+  const moved = translateObject(
+    obj,
+    pivot.x + dx * cos - dy * sin - (x + width / 2),
+    pivot.y + dx * sin + dy * cos - (y + height / 2)
+  );
+  return { ...moved, transform: { ...moved.transform, rotation: rotation + degrees } };
+};
+
+export type FlipDirection = 'horizontal' | 'vertical';
+
+/**
+ * Mirror an object across a vertical (`horizontal` flip) or horizontal line at
+ * `mirror`. Its center moves to the other side of the line and it turns the
+ * other way, and its box is marked as flipped so its contents read mirrored.
+ */
+export const flipObject = (obj: CanvasObject, direction: FlipDirection, mirror: number): CanvasObject => {
+  const { x, y, width, height, rotation, flipX, flipY } = obj.transform;
+  const moved = direction === 'horizontal'
+    ? translateObject(obj, 2 * mirror - 2 * x - width, 0)
+    : translateObject(obj, 0, 2 * mirror - 2 * y - height);
+  const flips = direction === 'horizontal' ? { flipX: !flipX || undefined } : { flipY: !flipY || undefined };
+  return { ...moved, transform: { ...moved.transform, rotation: rotation === 0 ? 0 : -rotation, ...flips } };
+};
+
+// Box the selection handles sit on: a single object's own (possibly rotated) box, or the bounds of several
+export const getSelectionBox = (objects: CanvasObject[]): Transform | null => {
+  if (objects.length === 1) return objects[0].transform;
+  const bounds = getObjectsBounds(objects);
+  return bounds && { ...bounds, rotation: 0 };
+};
@@ -0,0 +1,215 @@
+import type { CanvasObject } from '../App';
+import { getFlipScale, getObjectsBounds, getTransformCorners, translateObject, type Bounds } from './geometry';
+
+/**
+ * Merged objects draw their children in a local space the size of
+ * `originalWidth` x `originalHeight`, which is scaled to the group's current
+ * box, rotated about its center and placed at its position. These helpers
+ * convert between that space and the canvas, bake it into children on
+ * ungroup, and keep a group's box fitted to its children while they are
+ * edited in isolation.
+ */
+
+interface GroupFrame {
+  centerX: number;
+  centerY: number;
+  rotation: number; // radians
+  scaleX: number;
+  scaleY: number;
+  originalWidth: number;
+  originalHeight: number;
+}
+
+const getGroupFrame = (group: CanvasObject): GroupFrame => {
+  const { x, y, width, height, rotation } = group.transform;
+  const originalWidth = group.data.originalWidth || width;
+  const originalHeight = group.data.originalHeight || height;
+
+  return {
+    centerX: x + width / 2,
+    centerY: y + height / 2,
+    rotation: (rotation * Math.PI) / 180,
+    // Negative for a flipped group, so its children are mirrored with it
+    scaleX: (width / originalWidth) * getFlipScale(group.transform).x,
+    scaleY: (height / originalHeight) * getFlipScale(group.transform).y,
+    originalWidth,
+    originalHeight
+  };
+};
+
+// Average factor by which the group scales its children, for sizes that should look the same inside it
+export const getGroupScale = (group: CanvasObject) => {
+  const frame = getGroupFrame(group);
+  return Math.sqrt(Math.abs(frame.scaleX * frame.scaleY));
+};
+
+// Apply the group's translate -> rotate -> scale so children can be drawn in their own coordinates
+export const applyGroupTransform = (ctx: CanvasRenderingContext2D, group: CanvasObject) => {
+  const frame = getGroupFrame(group);
+  ctx.translate(frame.centerX, frame.centerY);
+  ctx.rotate(frame.rotation);
+  ctx.scale(frame.scaleX, frame.scaleY);
+  ctx.translate(-frame.originalWidth / 2, -frame.originalHeight / 2);
+};
+
+// The same as a matrix, for placing HTML over the group's children
+export const getGroupMatrix = (group: CanvasObject) => {
+  const frame = getGroupFrame(group);
+  return new DOMMatrix()
+    .translate(frame.centerX, frame.centerY)
+    .rotate((frame.rotation * 180) / Math.PI)
+    .scale(frame.scaleX, frame.scaleY)
+    .translate(-frame.originalWidth / 2, -frame.originalHeight / 2);
+};
+
+export const groupToWorld = (group: CanvasObject, point: { x: number; y: number }) => {
+  const frame = getGroupFrame(group);
+  const lx = (point.x - frame.originalWidth / 2) * frame.scaleX;
+  const ly = (point.y - frame.originalHeight / 2) * frame.scaleY;
+  const cos = Math.cos(frame.rotation);
+  const sin = Math.sin(frame.rotation);
+
+  return {
+    x: frame.centerX + lx * cos - ly * sin,
+    y: frame.centerY + lx * sin + ly * cos
+  };
+};
+
+export const worldToGroup = (group: CanvasObject, point: { x: number; y: number }) => {
+  const frame = getGroupFrame(group);
+  const dx = point.x - frame.centerX;
+  const dy = point.y - frame.centerY;
+  const cos = Math.cos(-frame.rotation);
+  const sin = Math.sin(-frame.rotation);
+
+  return {
+    x: (dx * cos - dy * sin) / frame.scaleX + frame.originalWidth / 2,
+    y: (dx * sin + dy * cos) / frame.scaleY + frame.originalHeight / 2
+  };
+};
+
+// Axis-aligned canvas-space bounds of one of the group's children
+export const getChildBounds = (group: CanvasObject, child: CanvasObject): Bounds => {
+  const corners = getTransformCorners(child.transform).map(p => groupToWorld(group, p));
+  const xs = corners.map(p => p.x);
+  const ys = corners.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+};
+
+/**
+ * Express a child in canvas space. Exact unless the group is stretched
+ * unevenly and the child is rotated within it, which would need a skew;
+ * then the child keeps the scaled length of each of its own axes.
+ */
+const bakeChild = (group: CanvasObject, child: CanvasObject): CanvasObject => {
+  const frame = getGroupFrame(group);
+  const { x, y, width, height, rotation } = child.transform;
+  const childRad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(childRad);
+  const sin = Math.sin(childRad);
+
+  // How much the group stretches the child's own x and y axes
+  const kx = Math.hypot(frame.scaleX * cos, frame.scaleY * sin);
+  const ky = Math.hypot(frame.scaleX * sin, frame.scaleY * cos);
+  const axisAngle = (Math.atan2(frame.scaleY * sin, frame.scaleX * cos) * 180) / Math.PI;
+
+  const center = groupToWorld(group, { x: x + width / 2, y: y + height / 2 });
+  const newWidth = width * kx;
+  const newHeight = height * ky;
+  const transform = {
+    x: center.x - newWidth / 2,
+    y: center.y - newHeight / 2,
+    width: newWidth,
+    height: newHeight,
+    rotation: group.transform.rotation + axisAngle,
+    // The angle above carries the child's x axis over; a group flipped on one axis reverses its y axis
+    flipX: child.transform.flipX,
+    flipY: !!child.transform.flipY !== (frame.scaleX * frame.scaleY < 0) || undefined
+  };
+
+  // Nested groups scale their own children from the new box size
+  if (child.type === 'merged') {
+    return { ...child, transform };
+  }
+
+  const strokeScale = Math.sqrt(Math.abs(frame.scaleX * frame.scaleY));
+  const style = { ...child.style, strokeWidth: child.style.strokeWidth * strokeScale };
+
+  if (child.type === 'drawn' && child.data.path) {
+    // Path points are absolute in the unrotated box, spray particles relative to it
+    const path = (child.data.path as { x: number; y: number }[]).map(point => ({
+      x: transform.x + (point.x - x) * kx,
+      y: transform.y + (point.y - y) * ky
+    }));
+    const sprayParticles = child.data.sprayParticles
+      ? (child.data.sprayParticles as { x: number; y: number; size: number; alpha: number }[]).map(particle => ({
+        ...particle,
+        x: particle.x * kx,
+        y: particle.y * ky,
+        size: particle.size * Math.sqrt(kx * ky)
+      }))
+      : child.data.sprayParticles;
+
+    return { ...child, transform, style, data: { ...child.data, path, sprayParticles } };
+  }
+
+  // Text is set at the size it was shown at (by the average scale, for a group stretched unevenly)
+  if (child.type === 'text') {
+    const data = {
+      ...child.data,
+      fontSize: child.data.fontSize * strokeScale,
+      letterSpacing: child.data.letterSpacing * strokeScale
+    };
+    return { ...child, transform, style, data };
+  }
+
+  // Erased areas are normalized to the box, so they follow it unchanged
+  return { ...child, transform, style };
+};
+
+// Children of a merged object as standalone objects that look exactly as they did in the group
+export const ungroupObject = (group: CanvasObject): CanvasObject[] =>
+  (group.children || []).map(child => bakeChild(group, child));
+
+/**
+ * Give a group new children, resizing its box to fit them without moving
+ * anything on screen: children are shifted so the box starts at 0,0 and the
+ * group's position and original size are adjusted to match.
+ */
+export const fitGroupToChildren = (group: CanvasObject, children: CanvasObject[]): CanvasObject => {
+  const bounds = getObjectsBounds(children);
+  if (!bounds) return { ...group, children };
+
+  const frame = getGroupFrame(group);
+  const boundsWidth = Math.max(1, bounds.width);
+  const boundsHeight = Math.max(1, bounds.height);
+  const center = groupToWorld(group, { x: bounds.x + boundsWidth / 2, y: bounds.y + boundsHeight / 2 });
+  const width = boundsWidth * Math.abs(frame.scaleX);
+  const height = boundsHeight * Math.abs(frame.scaleY);
+
+  return {
+    ...group,
+    transform: {
+      ...group.transform,
+      x: center.x - width / 2,
+      y: center.y - height / 2,
+      width,
+      height
+    },
+    data: { ...group.data, originalWidth: boundsWidth, originalHeight: boundsHeight },
+    children: children.map(child => translateObject(child, -bounds.x, -bounds.y))
+  };
+};
+
+// Replace a top-level group's children; a group left empty is removed
+export const replaceGroupChildren = (
+  objects: CanvasObject[],
+  groupId: string,
+  children: CanvasObject[]
+): CanvasObject[] =>
+  children.length === 0
+    ? objects.filter(obj => obj.id !== groupId)
+    : objects.map(obj => (obj.id === groupId ? fitGroupToChildren(obj, children) : obj));
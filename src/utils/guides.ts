@@ -0,0 +1,36 @@
+/**
+ * Ruler guides: lines dragged out of the rulers that moving and resizing snap
+ * to. They belong to the document, so they are saved with it and changing
+ * them is an undoable step, but they are never drawn in exports.
+ */
+
+export interface GuideLine {
+  id: string;
+  axis: 'x' | 'y'; // an 'x' guide marks an x position, so it runs vertically
+  position: number; // in document coordinates
+  locked?: boolean; // locked guides can't be dragged on the canvas
+}
+
+let guideCounter = 0;
+
+export const createGuide = (axis: 'x' | 'y', position: number): GuideLine => ({
+  id: `guide-${Date.now()}-${guideCounter++}`,
+  axis,
+  position
+});
+
+// Guides come from files and storage, so anything may turn up where one is expected
+export const isValidGuide = (guide: unknown): guide is GuideLine => {
+  if (typeof guide !== 'object' || guide === null) return false;
+  const { id, axis, position } = guide as Record<string, unknown>;
+  return typeof id === 'string' && (axis === 'x' || axis === 'y') && Number.isFinite(position);
+};
+
+// The topmost unlocked guide within `tolerance` of a document point
+export const findGuideAt = (guides: GuideLine[], point: { x: number; y: number }, tolerance: number) =>
+  [...guides].reverse().find(guide =>
+    !guide.locked && Math.abs((guide.axis === 'x' ? point.x : point.y) - guide.position) <= tolerance
+  ) ?? null;
+
+export const translateGuides = (guides: GuideLine[], dx: number, dy: number) =>
+  guides.map(guide => ({ ...guide, position: guide.position + (guide.axis === 'x' ? dx : dy) }));
@@ -0,0 +1,350 @@
+import type { CanvasObject } from '../App';
+import type { GuideLine } from './guides';
+import type { PageSize } from './pageSize';
+
+/**
+ * Patch-based undo/redo. Each history entry stores only the objects a change
+ * touched (their versions before and after) plus the id order when objects
+ * were added, removed or restacked, instead of a copy of the whole document.
+ * Because objects are immutable, unchanged objects are detected by reference.
+ * Changes to the page size and ruler guides are recorded in the same patch,
+ * so resizing the page undoes together with the content moves that anchor it.
+ *
+ * Steps form a tree rather than a stack: making a change after undoing starts
+ * a new branch and keeps the undone steps as an alternate branch, so any state
+ * the document has been in can be jumped back to from the History panel.
+ */
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+// Consecutive changes with the same coalesce key inside this window merge into one step
+const COALESCE_WINDOW = 1000;
+
+export interface ObjectsPatch {
+  before: CanvasObject[]; // previous versions of changed or removed objects
+  after: CanvasObject[]; // new versions of changed or added objects
+  orderBefore?: string[]; // only present when membership or stacking order changed
+  orderAfter?: string[];
+  page?: { before: PageSize; after: PageSize }; // only present when the step resized the page
+  guides?: { before: GuideLine[]; after: GuideLine[] }; // only present when the step changed guides
+}
+
+// Document settings a step can change alongside its objects
+export type DocumentChange = Pick<ObjectsPatch, 'page' | 'guides'>;
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+  patch: ObjectsPatch | null; // null only for the root (the oldest reachable state)
+  coalesceKey?: string;
+  parentId: number | null;
+  childIds: number[]; // in creation order
+  activeChildId: number | null; // the branch redo follows
+}
+
+export interface HistoryTree {
+  entries: Record<number, HistoryEntry>;
+  rootId: number;
+  currentId: number;
+  limit: number; // maximum number of steps kept, across all branches
+}
+
+let nextEntryId = 1;
+
+export const createHistory = (limit = DEFAULT_HISTORY_LIMIT): HistoryTree => {
+  const root: HistoryEntry = {
+    id: nextEntryId++,
+    label: 'Initial State',
+    timestamp: Date.now(),
+    patch: null,
+    parentId: null,
+    childIds: [],
+    activeChildId: null
+  };
+  return { entries: { [root.id]: root }, rootId: root.id, currentId: root.id, limit };
+};
+
+export const createPatch = (prev: CanvasObject[], next: CanvasObject[]): ObjectsPatch | null => {
+  const prevById = new Map(prev.map(obj => [obj.id, obj]));
+  const nextById = new Map(next.map(obj => [obj.id, obj]));
+  const before = prev.filter(obj => nextById.get(obj.id) !== obj);
+  const after = next.filter(obj => prevById.get(obj.id) !== obj);
+  const orderChanged = prev.length !== next.length || prev.some((obj, i) => obj.id !== next[i].id);
+
+  if (before.length === 0 && after.length === 0 && !orderChanged) return null;
+
+  return {
+    before,
+    after,
+    ...(orderChanged ? { orderBefore: prev.map(obj => obj.id), orderAfter: next.map(obj => obj.id) } : {})
+  };
+};
+
+export const applyPatch = (
+  objects: CanvasObject[],
+  patch: ObjectsPatch,
+  direction: 'undo' | 'redo'
+): CanvasObject[] => {
+  const replacements = direction === 'undo' ? patch.before : patch.after;
+  const order = direction === 'undo' ? patch.orderBefore : patch.orderAfter;
+  const byId = new Map(objects.map(obj => [obj.id, obj]));
+  replacements.forEach(obj => byId.set(obj.id, obj));
+
+  const ids = order ?? objects.map(obj => obj.id);
+  return ids.map(id => byId.get(id)).filter((obj): obj is CanvasObject => !!obj);
+};
+
+// Step ids from the root down to (and including) `id`
+const getAncestry = (tree: HistoryTree, id: number): number[] => {
+  const ids: number[] = [];
+  let entry: HistoryEntry | undefined = tree.entries[id];
+  while (entry) {
+    ids.unshift(entry.id);
+    entry = entry.parentId !== null ? tree.entries[entry.parentId] : undefined;
+  }
+  return ids;
+};
+
+// Steps along a branch starting at `id`, following active children to its tip
+export const getBranchFrom = (tree: HistoryTree, id: number): HistoryEntry[] => {
+  const branch: HistoryEntry[] = [];
+  let entry: HistoryEntry | undefined = tree.entries[id];
+  while (entry) {
+    branch.push(entry);
+    entry = entry.activeChildId !== null ? tree.entries[entry.activeChildId] : undefined;
+  }
+  return branch;
+};
+
+/**
+ * The branch shown as the main timeline: from the root through the current
+ * step and on along each step's active child, so redo steps are included.
+ */
+export const getActiveBranch = (tree: HistoryTree) => getBranchFrom(tree, tree.rootId);
+
+// Children of a step that are not on its active branch
+export const getAlternateChildren = (tree: HistoryTree, id: number): HistoryEntry[] => {
+  const entry = tree.entries[id];
+  return entry.childIds
+    .filter(childId => childId !== entry.activeChildId)
+    .map(childId => tree.entries[childId]);
+};
+
+export const getStepCount = (tree: HistoryTree) => Object.keys(tree.entries).length - 1;
+
+const removeSubtree = (entries: Record<number, HistoryEntry>, id: number) => {
+  entries[id]?.childIds.forEach(childId => removeSubtree(entries, childId));
+  delete entries[id];
+};
+
+const detachChild = (entries: Record<number, HistoryEntry>, parentId: number, childId: number) => {
+  const parent = entries[parentId];
+  const childIds = parent.childIds.filter(id => id !== childId);
+  entries[parentId] = {
+    ...parent,
+    childIds,
+    activeChildId: parent.activeChildId === childId ? childIds[childIds.length - 1] ?? null : parent.activeChildId
+  };
+};
+
+/**
+ * Drop steps beyond the limit. Abandoned branches go first (oldest tip first),
+ * then redo steps at the end of the timeline if the current state is the
+ * oldest, and finally the oldest steps, moving the root forward.
+ */
+const trim = (tree: HistoryTree): HistoryTree => {
+  if (getStepCount(tree) <= tree.limit) return tree;
+
+  const entries = { ...tree.entries };
+  let rootId = tree.rootId;
+  const count = () => Object.keys(entries).length - 1;
+
+  while (count() > tree.limit) {
+    const activeIds = new Set(getActiveBranch({ ...tree, entries, rootId }).map(entry => entry.id));
+    const abandonedLeaves = Object.values(entries)
+      .filter(entry => entry.childIds.length === 0 && !activeIds.has(entry.id))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    if (abandonedLeaves.length > 0) {
+      const leaf = abandonedLeaves[0];
+      detachChild(entries, leaf.parentId!, leaf.id);
+      delete entries[leaf.id];
+      continue;
+    }
+
+    const root = entries[rootId];
+    if (rootId === tree.currentId) {
+      // Nothing older to drop: discard the furthest redo step instead
+      const tip = getActiveBranch({ ...tree, entries, rootId }).pop()!;
+      detachChild(entries, tip.parentId!, tip.id);
+      delete entries[tip.id];
+      continue;
+    }
+
+    // The root's active child becomes the oldest reachable state
+    const nextRootId = root.activeChildId!;
+    root.childIds
+      .filter(childId => childId !== nextRootId)
+      .forEach(childId => removeSubtree(entries, childId));
+    delete entries[rootId];
+    entries[nextRootId] = { ...entries[nextRootId], parentId: null, patch: null };
+    rootId = nextRootId;
+  }
+
+  return { ...tree, entries, rootId };
+};
+
+/**
+ * Record the change from `prev` to `next` (and optionally of the page size
+ * or guides) as a new step after the current one. Steps that had been undone stay in the
+ * tree as an alternate branch. Returns the tree unchanged when nothing
+ * actually changed.
+ */
+export const recordChange = (
+  tree: HistoryTree,
+  prev: CanvasObject[],
+  next: CanvasObject[],
+  label: string,
+  coalesceKey?: string,
+  documentChange: DocumentChange = {}
+): HistoryTree => {
+  const { page, guides } = documentChange;
+  const current = tree.entries[tree.currentId];
+  const now = Date.now();
+
+  if (
+    coalesceKey &&
+    !page &&
+    !guides &&
+    current.patch &&
+    !current.patch.page &&
+    !current.patch.guides &&
+    current.childIds.length === 0 &&
+    current.coalesceKey === coalesceKey &&
+    now - current.timestamp < COALESCE_WINDOW
+  ) {
+    // Fold into the current step: diff from the state before it straight to `next`
+    const base = applyPatch(prev, current.patch, 'undo');
+    const patch = createPatch(base, next);
+    const entries = { ...tree.entries };
+
+    if (patch) {
+      entries[current.id] = { ...current, timestamp: now, patch };
+      return { ...tree, entries };
+    }
+
+    // The edits cancelled out, so the step disappears
+    detachChild(entries, current.parentId!, current.id);
+    delete entries[current.id];
+    return { ...tree, entries, currentId: current.parentId! };
+  }
+
+  const objectsPatch = createPatch(prev, next);
+  const pageChanged = !!page && (page.before.width !== page.after.width || page.before.height !== page.after.height);
+  const guidesChanged = !!guides && guides.before !== guides.after;
+  if (!objectsPatch && !pageChanged && !guidesChanged) return tree;
+
+  const patch: ObjectsPatch = {
+    ...(objectsPatch ?? { before: [], after: [] }),
+    ...(pageChanged ? { page } : {}),
+    ...(guidesChanged ? { guides } : {})
+  };
+
+  const entry: HistoryEntry = {
+    id: nextEntryId++,
+    label,
+    timestamp: now,
+    patch,
+    coalesceKey,
+    parentId: current.id,
+    childIds: [],
+    activeChildId: null
+  };
+
+  return trim({
+    ...tree,
+    entries: {
+      ...tree.entries,
+      [current.id]: { ...current, childIds: [...current.childIds, entry.id], activeChildId: entry.id },
+      [entry.id]: entry
+    },
+    currentId: entry.id
+  });
+};
+
+export const canUndo = (tree: HistoryTree) => tree.currentId !== tree.rootId;
+export const canRedo = (tree: HistoryTree) => tree.entries[tree.currentId].activeChildId !== null;
+
+// Moving through history also returns the new page size and guides, each null when no step on the way changed them
+interface HistoryMove {
+  tree: HistoryTree;
+  objects: CanvasObject[];
+  page: PageSize | null;
+  guides: GuideLine[] | null;
+}
+
+export const undo = (tree: HistoryTree, objects: CanvasObject[]): HistoryMove => {
+  if (!canUndo(tree)) return { tree, objects, page: null, guides: null };
+  const entry = tree.entries[tree.currentId];
+  return {
+    tree: { ...tree, currentId: entry.parentId! },
+    objects: applyPatch(objects, entry.patch!, 'undo'),
+    page: entry.patch!.page?.before ?? null,
+    guides: entry.patch!.guides?.before ?? null
+  };
+};
+
+export const redo = (tree: HistoryTree, objects: CanvasObject[]): HistoryMove => {
+  if (!canRedo(tree)) return { tree, objects, page: null, guides: null };
+  const entry = tree.entries[tree.entries[tree.currentId].activeChildId!];
+  return {
+    tree: { ...tree, currentId: entry.id },
+    objects: applyPatch(objects, entry.patch!, 'redo'),
+    page: entry.patch!.page?.after ?? null,
+    guides: entry.patch!.guides?.after ?? null
+  };
+};
+
+/**
+ * Move to any step in the tree: undo up to the common ancestor, then redo
+ * down the target's branch. The branch taken becomes the active one, so
+ * redo continues along it afterwards.
+ */
+export const jumpTo = (tree: HistoryTree, objects: CanvasObject[], targetId: number): HistoryMove => {
+  if (!tree.entries[targetId] || targetId === tree.currentId) {
+    return { tree, objects, page: null, guides: null };
+  }
+
+  const fromPath = getAncestry(tree, tree.currentId);
+  const toPath = getAncestry(tree, targetId);
+  let common = 0;
+  while (common < fromPath.length && common < toPath.length && fromPath[common] === toPath[common]) {
+    common++;
+  }
+
+  let result = objects;
+  let page: PageSize | null = null;
+  let guides: GuideLine[] | null = null;
+  for (let i = fromPath.length - 1; i >= common; i--) {
+    const patch = tree.entries[fromPath[i]].patch!;
+    result = applyPatch(result, patch, 'undo');
+    if (patch.page) page = patch.page.before;
+    if (patch.guides) guides = patch.guides.before;
+  }
+
+  const entries = { ...tree.entries };
+  for (let i = common; i < toPath.length; i++) {
+    const patch = entries[toPath[i]].patch!;
+    result = applyPatch(result, patch, 'redo');
+    if (patch.page) page = patch.page.after;
+    if (patch.guides) guides = patch.guides.after;
+    const parentId = toPath[i - 1];
+    entries[parentId] = { ...entries[parentId], activeChildId: toPath[i] };
+  }
+
+  return { tree: { ...tree, entries, currentId: targetId }, objects: result, page, guides };
+};
+
+export const setHistoryLimit = (tree: HistoryTree, limit: number): HistoryTree =>
+  trim({ ...tree, limit: Math.max(1, Math.round(limit)) });
@@ -0,0 +1,220 @@
+import type { CommandId } from './commands';
+
+/**
+ * Keyboard shortcuts for editor commands. A shortcut is written the way it is
+ * shown, modifiers first: 'Ctrl+Shift+S', 'Alt+A', 'V'. Letters and digits
+ * are the ones the key types in the current layout, so Ctrl+Z is the key
+ * labelled Z on AZERTY and Dvorak too; other keys, and letters on layouts
+ * that don't type Latin ones, are read from the physical key
+ * (`KeyboardEvent.code`). Cmd counts as Ctrl on macOS.
+ *
+ * The keymap is the default bindings with the user's changes on top; only the
+ * commands the user rebound are saved, so new defaults still reach everyone
+ * else.
+ */
+
+export type Keymap = Partial<Record<CommandId, string[]>>;
+
+export const DEFAULT_KEYMAP: Keymap = {
+  'file.open': ['Ctrl+O'],
+  'file.save': ['Ctrl+S'],
+  'file.saveAs': ['Ctrl+Shift+S'],
+  'file.export': ['Ctrl+Shift+E'],
+  'edit.undo': ['Ctrl+Z'],
+  'edit.redo': ['Ctrl+Shift+Z', 'Ctrl+Y'],
+  'edit.cut': ['Ctrl+X'],
+  'edit.copy': ['Ctrl+C'],
+  'edit.paste': ['Ctrl+V'],
+  'edit.pasteInPlace': ['Ctrl+Shift+V'],
+  'edit.duplicate': ['Ctrl+D'],
+  'edit.delete': ['Del', 'Backspace'],
+  'edit.selectAll': ['Ctrl+A'],
+  'object.group': ['Ctrl+G'],
+  'object.ungroup': ['Ctrl+Shift+G'],
+  'object.exitGroup': ['Esc'],
+  'object.arrange.front': ['Ctrl+Shift+]'],
+  'object.arrange.forward': ['Ctrl+]'],
+  'object.arrange.backward': ['Ctrl+['],
+  'object.arrange.back': ['Ctrl+Shift+['],
+  'object.align.left': ['Alt+A'],
+  'object.align.center': ['Alt+H'],
+  'object.align.right': ['Alt+D'],
+  'object.align.top': ['Alt+W'],
+  'object.align.middle': ['Alt+V'],
+  'object.align.bottom': ['Alt+S'],
+  'object.distribute.horizontal-gaps': ['Alt+Shift+H'],
+  'object.distribute.vertical-gaps': ['Alt+Shift+V'],
+  'object.flip.horizontal': ['Shift+H'],
+  'object.flip.vertical': ['Shift+V'],
+  'object.nudge.left': ['Left'],
+  'object.nudge.right': ['Right'],
+  'object.nudge.up': ['Up'],
+  'object.nudge.down': ['Down'],
+  'object.bigNudge.left': ['Shift+Left'],
+  'object.bigNudge.right': ['Shift+Right'],
+  'object.bigNudge.up': ['Shift+Up'],
+  'object.bigNudge.down': ['Shift+Down'],
+  'tool.select': ['V'],
+  'tool.directSelect': ['A'],
+  'tool.brush': ['B'],
+  'tool.eraser': ['E'],
+  'tool.pen': ['Shift+P'],
+  'tool.text': ['T'],
+  'tool.rectangle': ['R'],
+  'tool.circle': ['O'],
+  'tool.line': ['L'],
+  'tool.polygon': ['P'],
+  'tool.star': ['S'],
+  'tool.merge': ['M'],
+  'view.zoomIn': ['Ctrl+=', 'Ctrl+Shift+='],
+  'view.zoomOut': ['Ctrl+-'],
+  'view.zoomTo.100': ['Ctrl+0'],
+  'view.zoomToFit': ['Shift+1'],
+  'view.zoomToSelection': ['Shift+2'],
+  'view.grid': ["Ctrl+'"],
+  'view.rulers': ['Shift+R'],
+  'view.guides': ['Ctrl+;'],
+  'help.commandPalette': ['Ctrl+K'],
+  'help.shortcuts': ['Ctrl+/']
+};
+
+// Shortcuts the browser or the canvas keeps for itself, with what they do there
+export const RESERVED_SHORTCUTS: Record<string, string> = {
+  'Ctrl+N': 'opens a browser window',
+  'Ctrl+T': 'opens a browser tab',
+  'Ctrl+W': 'closes the browser tab',
+  'Ctrl+Shift+N': 'opens a private browser window',
+  'Ctrl+Shift+T': 'reopens a browser tab',
+  'Ctrl+Shift+W': 'closes the browser window',
+  Space: 'pans the canvas while held'
+};
+
+// Pasting reads the clipboard in the paste event these keys trigger, which only the browser can start
+export const NATIVE_PASTE_SHORTCUTS = ['Ctrl+V', 'Ctrl+Shift+V'];
+
+// Names for keys that don't say what they are in their code
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  Delete: 'Del',
+  Backspace: 'Backspace',
+  Escape: 'Esc',
+  Enter: 'Enter',
+  Tab: 'Tab',
+  Space: 'Space',
+  Home: 'Home',
+  End: 'End',
+  PageUp: 'PageUp',
+  PageDown: 'PageDown',
+  Insert: 'Insert',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backslash: '\\',
+  Backquote: '`',
+  Equal: '=',
+  Minus: '-',
+  NumpadAdd: '=',
+  NumpadSubtract: '-'
+};
+
+// The shortcut a key press makes, or null for a modifier on its own or a key that can't be bound
+export const getEventShortcut = (
+  e: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>
+): string | null => {
+  const { code } = e;
+  let key: string;
+  if (/^[a-z0-9]$/i.test(e.key)) key = e.key.toUpperCase();
+  else if (/^Key[A-Z]$/.test(code)) key = code.slice(3);
+  else if (/^(Digit|Numpad)\d$/.test(code)) key = code.slice(-1);
+  else if (/^F\d{1,2}$/.test(code)) key = code;
+  else if (code in KEY_NAMES) key = KEY_NAMES[code];
+  else return null;
+
+  return [e.ctrlKey || e.metaKey ? 'Ctrl' : '', e.altKey ? 'Alt' : '', e.shiftKey ? 'Shift' : '', key]
+    .filter(Boolean)
+    .join('+');
+};
+
+// Command for each shortcut. A shortcut bound twice (only possible in a hand-edited store) goes to the first command.
+export const getShortcutIndex = (keymap: Keymap): Map<string, CommandId> => {
+  const index = new Map<string, CommandId>();
+  (Object.keys(keymap) as CommandId[]).forEach(id => {
+    keymap[id]!.forEach(shortcut => {
+      if (!index.has(shortcut)) index.set(shortcut, id);
+    });
+  });
+  return index;
+};
+
+// Commands other than `id` that `shortcut` is already bound to
+export const findConflicts = (keymap: Keymap, shortcut: string, id: CommandId): CommandId[] =>
+  (Object.keys(keymap) as CommandId[]).filter(other => other !== id && keymap[other]!.includes(shortcut));
+
+// Bind `shortcut` to `id`, taking it away from any command that had it
+export const bindShortcut = (keymap: Keymap, id: CommandId, shortcut: string): Keymap => {
+  const next: Keymap = {};
+  (Object.keys(keymap) as CommandId[]).forEach(other => {
+    next[other] = keymap[other]!.filter(existing => existing !== shortcut);
+  });
+  next[id] = [...(next[id] ?? []), shortcut];
+  return next;
+};
+
+export const unbindShortcut = (keymap: Keymap, id: CommandId, shortcut: string): Keymap => ({
+  ...keymap,
+  [id]: (keymap[id] ?? []).filter(existing => existing !== shortcut)
+});
+
+// Give `id` back its default shortcuts, taking them from any command they were rebound to
+export const resetShortcuts = (keymap: Keymap, id: CommandId): Keymap =>
+  (DEFAULT_KEYMAP[id] ?? []).reduce(
+    (next, shortcut) => bindShortcut(next, id, shortcut),
+    { ...keymap, [id]: [] } as Keymap
+  );
+
+const KEYMAP_STORAGE_KEY = 'shapecanvas-keymap';
+
+const sameBindings = (a: string[] = [], b: string[] = []) =>
+  a.length === b.length && a.every((shortcut, i) => shortcut === b[i]);
+
+// The defaults with the saved changes applied; a broken store is ignored. Ids are checked against the
+// registry by the caller, since commands come and go between versions.
+export const loadKeymap = (): Keymap => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(KEYMAP_STORAGE_KEY) ?? '{}');
+    if (!saved || typeof saved !== 'object' || Array.isArray(saved)) return DEFAULT_KEYMAP;
+
+    const keymap: Keymap = { ...DEFAULT_KEYMAP };
+    Object.entries(saved).forEach(([id, shortcuts]) => {
+      if (Array.isArray(shortcuts) && shortcuts.every(shortcut => typeof shortcut === 'string')) {
+        keymap[id as CommandId] = shortcuts;
+      }
+    });
+    return keymap;
+  } catch {
+    return DEFAULT_KEYMAP;
+  }
+};
+
+// Save the commands whose bindings differ from the defaults
+export const saveKeymap = (keymap: Keymap) => {
+  const ids = new Set([...Object.keys(DEFAULT_KEYMAP), ...Object.keys(keymap)] as CommandId[]);
+  const changes: Keymap = {};
+  ids.forEach(id => {
+    if (!sameBindings(keymap[id], DEFAULT_KEYMAP[id])) changes[id] = keymap[id] ?? [];
+  });
+
+  try {
+    if (Object.keys(changes).length === 0) localStorage.removeItem(KEYMAP_STORAGE_KEY);
+    else localStorage.setItem(KEYMAP_STORAGE_KEY, JSON.stringify(changes));
+  } catch {
+    // Storage is full or disabled; the keymap still applies for this session
+  }
+};
@@ -0,0 +1,107 @@
+import type { CanvasObject } from '../App';
+
+// Object lists are in stacking order: index 0 is the bottom, the last item is on top
+
+export type StackPlacement = 'above' | 'below';
+
+// Find an object anywhere in the tree, including inside merged objects
+export const findObjectInTree = (objects: CanvasObject[], id: string): CanvasObject | null => {
+  for (const obj of objects) {
+    if (obj.id === id) return obj;
+    if (obj.children) {
+      const found = findObjectInTree(obj.children, id);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+// Replace one object anywhere in the tree; untouched branches keep their identity
+export const updateObjectInTree = (
+  objects: CanvasObject[],
+  id: string,
+  update: (obj: CanvasObject) => CanvasObject
+): CanvasObject[] =>
+  objects.map(obj => {
+    if (obj.id === id) return update(obj);
+    if (!obj.children) return obj;
+
+    const children = updateObjectInTree(obj.children, id, update);
+    return children.some((child, i) => child !== obj.children![i]) ? { ...obj, children } : obj;
+  });
+
+// Move `id` directly above or below `targetId` in a list of siblings
+export const moveInStack = (
+  list: CanvasObject[],
+  id: string,
+  targetId: string,
+  placement: StackPlacement
+): CanvasObject[] => {
+  const moving = list.find(obj => obj.id === id);
+  if (!moving || id === targetId) return list;
+
+  const rest = list.filter(obj => obj.id !== id);
+  const targetIndex = rest.findIndex(obj => obj.id === targetId);
+  if (targetIndex < 0) return list;
+
+  const insertAt = placement === 'above' ? targetIndex + 1 : targetIndex;
+  return [...rest.slice(0, insertAt), moving, ...rest.slice(insertAt)];
+};
+
+/**
+ * Reorder a layer among its siblings: top-level objects when `parentId` is
+ * null, otherwise the children of that merged object.
+ */
+export const reorderLayer = (
+  objects: CanvasObject[],
+  parentId: string | null,
+  id: string,
+  targetId: string,
+  placement: StackPlacement
+): CanvasObject[] =>
+  parentId === null
+    ? moveInStack(objects, id, targetId, placement)
+    : updateObjectInTree(objects, parentId, parent => ({
+      ...parent,
+      children: moveInStack(parent.children || [], id, targetId, placement)
+    }));
+
+export type ZOrderCommand = 'front' | 'forward' | 'backward' | 'back';
+
+export const Z_ORDER_LABELS: Record<ZOrderCommand, string> = {
+  front: 'Bring to Front',
+  forward: 'Bring Forward',
+  backward: 'Send Backward',
+  back: 'Send to Back'
+};
+
+/**
+ * Restack the objects with the given ids among their siblings. Several objects
+ * keep their order relative to each other: to the front or back they move as a
+ * block, and a step forward or backward takes each past one unselected
+ * neighbour, so objects already at the end stay put.
+ */
+export const changeZOrder = (list: CanvasObject[], ids: string[], command: ZOrderCommand): CanvasObject[] => {
+  const isMoving = (obj: CanvasObject) => ids.includes(obj.id);
+  if (command === 'front') return [...list.filter(obj => !isMoving(obj)), ...list.filter(isMoving)];
+  if (command === 'back') return [...list.filter(isMoving), ...list.filter(obj => !isMoving(obj))];
+
+  const result = [...list];
+  const swap = (i: number, j: number) => {
+    [result[i], result[j]] = [result[j], result[i]];
+  };
+  if (command === 'forward') {
+    // From the top down, so a block of selected objects climbs together
+    for (let i = result.length - 2; i >= 0; i--) {
+      if (isMoving(result[i]) && !isMoving(result[i + 1])) swap(i, i + 1);
+    }
+  } else {
+    for (let i = 1; i < result.length; i++) {
+      if (isMoving(result[i]) && !isMoving(result[i - 1])) swap(i, i - 1);
+    }
+  }
+  return result;
+};
+
+// Whether the canvas may pick the object with clicks, marquee or the eraser
+export const isInteractive = (obj: CanvasObject) => !obj.hidden && !obj.locked;
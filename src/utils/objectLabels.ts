@@ -0,0 +1,41 @@
+import type { CanvasObject } from '../App';
+
+export const getObjectTypeName = (obj: CanvasObject | null) => {
+  if (!obj) return '';
+  switch (obj.type) {
+    case 'drawn': return 'Drawn Object';
+    case 'rectangle': return 'Rectangle';
+    case 'circle': return 'Circle';
+    case 'triangle': return 'Triangle';
+    case 'polygon': return 'Polygon';
+    case 'star': return 'Star';
+    case 'line': return 'Line';
+    case 'merged': return 'Merged Object';
+    case 'image': return 'Image';
+    case 'path': return 'Path';
+    case 'text': return 'Text';
+    default: return 'Object';
+  }
+};
+
+// Longest stretch of a text object's first line used as its layer name
+const TEXT_NAME_LENGTH = 40;
+
+// Name shown in the Layers panel: the user's name for the object, a text's first line, or its type
+export const getLayerName = (obj: CanvasObject) =>
+  obj.name?.trim() ||
+  (obj.type === 'text' && obj.data.text.trim().split('\n')[0].slice(0, TEXT_NAME_LENGTH)) ||
+  getObjectTypeName(obj);
+
+// History label such as "Move Rectangle" or "Erase 3 Objects" for the objects a change touched
+export const describeChange = (verb: string, prev: CanvasObject[], next: CanvasObject[]) => {
+  const prevById = new Map(prev.map(obj => [obj.id, obj]));
+  const nextIds = new Set(next.map(obj => obj.id));
+  const changed = [
+    ...next.filter(obj => prevById.get(obj.id) !== obj),
+    ...prev.filter(obj => !nextIds.has(obj.id))
+  ];
+
+  if (changed.length === 1) return `${verb} ${getObjectTypeName(changed[0])}`;
+  return `${verb} ${changed.length} Objects`;
+};
@@ -0,0 +1,32 @@
+import type { CanvasObject } from '../App';
+
+/**
+ * Structural checks for objects that come from outside the editor (document
+ * files, the system clipboard), so nothing reaches drawing that would throw
+ * on a missing transform or style.
+ */
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasNumbers = (record: Record<string, unknown>, keys: string[]) =>
+  keys.every(key => Number.isFinite(record[key]));
+
+// An object has everything drawing reads: an id and type, a numeric transform, a style and data
+// (and the same for any children). Type-specific data isn't checked.
+export const isValidCanvasObject = (value: unknown): value is CanvasObject => {
+  if (!isRecord(value)) return false;
+  const { id, type, transform, style, data, children } = value;
+  return (
+    typeof id === 'string' &&
+    typeof type === 'string' &&
+    isRecord(transform) &&
+    hasNumbers(transform, ['x', 'y', 'width', 'height', 'rotation']) &&
+    isRecord(style) &&
+    typeof style.strokeColor === 'string' &&
+    typeof style.fillColor === 'string' &&
+    hasNumbers(style, ['strokeWidth']) &&
+    isRecord(data) &&
+    (children === undefined || (Array.isArray(children) && children.every(isValidCanvasObject)))
+  );
+};
@@ -0,0 +1,81 @@
+/**
+ * Document page (artboard) size and the presets offered when creating or
+ * resizing a document. Sizes are in canvas units, which are pixels at 100%.
+ */
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+// The fixed size every document had before pages became configurable
+export const DEFAULT_PAGE_SIZE: PageSize = { width: 1200, height: 800 };
+
+// Keep pages within what browsers can allocate as a single canvas
+export const MIN_PAGE_DIMENSION = 16;
+export const MAX_PAGE_DIMENSION = 8000;
+
+export type PagePresetId = 'default' | 'a4' | 'letter' | 'square' | 'hd' | 'custom';
+export type PageOrientation = 'portrait' | 'landscape';
+
+interface PagePreset {
+  id: PagePresetId;
+  label: string;
+  width: number;
+  height: number;
+  unit: 'px' | 'in'; // paper sizes are in inches and depend on the chosen DPI
+}
+
+export const PAGE_PRESETS: PagePreset[] = [
+  { id: 'default', label: 'Default (1200 × 800 px)', width: 1200, height: 800, unit: 'px' },
+  { id: 'a4', label: 'A4 (210 × 297 mm)', width: 210 / 25.4, height: 297 / 25.4, unit: 'in' },
+  { id: 'letter', label: 'US Letter (8.5 × 11 in)', width: 8.5, height: 11, unit: 'in' },
+  { id: 'square', label: 'Square (1080 × 1080 px)', width: 1080, height: 1080, unit: 'px' },
+  { id: 'hd', label: 'Full HD (1920 × 1080 px)', width: 1920, height: 1080, unit: 'px' },
+];
+
+export const PAPER_DPI_OPTIONS = [72, 96, 150, 300];
+
+export const isPaperPreset = (id: PagePresetId) => PAGE_PRESETS.some(preset => preset.id === id && preset.unit === 'in');
+
+// Pixel size of a preset at the given DPI, turned to the requested orientation
+export const getPresetSize = (id: PagePresetId, dpi: number, orientation: PageOrientation): PageSize | null => {
+  const preset = PAGE_PRESETS.find(p => p.id === id);
+  if (!preset) return null;
+
+  const factor = preset.unit === 'in' ? dpi : 1;
+  const a = Math.round(preset.width * factor);
+  const b = Math.round(preset.height * factor);
+  return orientation === 'portrait'
+    ? { width: Math.min(a, b), height: Math.max(a, b) }
+    : { width: Math.max(a, b), height: Math.min(a, b) };
+};
+
+export const isValidPageSize = (size: PageSize) =>
+  [size.width, size.height].every(n =>
+    Number.isFinite(n) && n >= MIN_PAGE_DIMENSION && n <= MAX_PAGE_DIMENSION
+  );
+
+// Which part of the content stays put when the page is resized
+export type PageAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+// In reading order, for laying out as a 3x3 grid
+export const PAGE_ANCHORS: PageAnchor[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right'
+];
+
+// How far content must move to stay pinned to `anchor` when the page goes from `from` to `to`
+export const getAnchorOffset = (from: PageSize, to: PageSize, anchor: PageAnchor) => {
+  const fx = anchor.includes('left') ? 0 : anchor.includes('right') ? 1 : 0.5;
+  const fy = anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? 1 : 0.5;
+
+  return {
+    dx: (to.width - from.width) * fx,
+    dy: (to.height - from.height) * fy
+  };
+};
@@ -0,0 +1,296 @@
+import type { CanvasObject, PathNode, SubPath, Transform } from '../App';
+import { getFlipScale } from './geometry';
+import { cubicPoint, denormalizeSubPaths, normalizeSubPaths, type Point } from './pathGeometry';
+
+/**
+ * Anchor and handle editing for path objects. Edits work on a path's nodes in
+ * its box's local space (box pixels, before the box is rotated or flipped),
+ * which has the same scale as the coordinates the object is placed in; the box
+ * is then refitted to the edited path so it keeps hugging it.
+ */
+
+export type PathPart = 'anchor' | 'handleIn' | 'handleOut';
+
+export interface NodeRef {
+  subpath: number;
+  node: number;
+}
+
+// Samples per segment when looking for the point of a segment nearest the pointer
+const SEGMENT_HIT_STEPS = 32;
+
+// A point in the coordinates the object is placed in -> its box's local space
+export const toPathSpace = (transform: Transform, point: Point): Point => {
+  const { x, y, width, height, rotation } = transform;
+  const flip = getFlipScale(transform);
+  const rad = -(rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = point.x - (x + width / 2);
+  const dy = point.y - (y + height / 2);
+  return {
+    x: (dx * cos - dy * sin) * flip.x + width / 2,
+    y: (dx * sin + dy * cos) * flip.y + height / 2
+  };
+};
+
+// The box's local space -> the coordinates the object is placed in
+export const fromPathSpace = (transform: Transform, point: Point): Point => {
+  const { x, y, width, height, rotation } = transform;
+  const flip = getFlipScale(transform);
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = (point.x - width / 2) * flip.x;
+  const dy = (point.y - height / 2) * flip.y;
+  return {
+    x: x + width / 2 + dx * cos - dy * sin,
+    y: y + height / 2 + dx * sin + dy * cos
+  };
+};
+
+export const getLocalSubPaths = (obj: CanvasObject): SubPath[] =>
+  denormalizeSubPaths(obj.data.subpaths as SubPath[], obj.transform.width, obj.transform.height);
+
+/**
+ * Store edited local subpaths on a path object, refitting its box to them
+ * without moving anything on the page. Erased areas are normalized to the box
+ * too, so they are carried over to the new one.
+ */
+export const setLocalSubPaths = (obj: CanvasObject, subpaths: SubPath[]): CanvasObject => {
+  const normalized = normalizeSubPaths(subpaths);
+  if (!normalized) return obj;
+
+  const { width, height } = obj.transform;
+  const { bounds } = normalized;
+  const center = fromPathSpace(obj.transform, { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 });
+  const sizeScale = Math.min(width, height) / Math.min(bounds.width, bounds.height);
+  const erasedAreas = (obj.data.erasedAreas ?? []).map((area: { x: number; y: number; size: number }[]) =>
+    area.map(point => ({
+      x: (point.x * width - bounds.x) / bounds.width,
+      y: (point.y * height - bounds.y) / bounds.height,
+      size: point.size * sizeScale
+    }))
+  );
+
+  return {
+    ...obj,
+    transform: {
+      ...obj.transform,
+      x: center.x - bounds.width / 2,
+      y: center.y - bounds.height / 2,
+      width: bounds.width,
+      height: bounds.height
+    },
+    data: { ...obj.data, subpaths: normalized.subpaths, erasedAreas }
+  };
+};
+
+// A new path object from a subpath in document coordinates, in the default style shape tools draw with
+export const createPathObject = (subpath: SubPath): CanvasObject | null => {
+  const normalized = normalizeSubPaths([subpath]);
+  if (!normalized) return null;
+
+  return {
+    id: `path-${Date.now()}`,
+    type: 'path',
+    transform: { ...normalized.bounds, rotation: 0 },
+    style: {
+      strokeColor: '#000000',
+      fillColor: subpath.closed ? '#e0e0e0' : 'transparent',
+      strokeWidth: 2
+    },
+    data: {
+      subpaths: normalized.subpaths,
+      erasedAreas: []
+    }
+  };
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+// Point mirrored to the other side of `about`
+const mirror = (point: Point, about: Point): Point => ({ x: 2 * about.x - point.x, y: 2 * about.y - point.y });
+
+// A smooth anchor's handles point in opposite directions, so the curve runs through it without a kink
+export const isSmoothNode = (node: PathNode) => {
+  if (!node.handleIn || !node.handleOut) return false;
+  const a = { x: node.handleIn.x - node.x, y: node.handleIn.y - node.y };
+  const b = { x: node.handleOut.x - node.x, y: node.handleOut.y - node.y };
+  const lengths = Math.hypot(a.x, a.y) * Math.hypot(b.x, b.y);
+  if (lengths === 0) return false;
+  return (a.x * b.x + a.y * b.y) / lengths < -0.999;
+};
+
+const updateNode = (subpaths: SubPath[], ref: NodeRef, update: (node: PathNode) => PathNode): SubPath[] =>
+  subpaths.map((subpath, i) =>
+    i === ref.subpath
+      ? { ...subpath, nodes: subpath.nodes.map((node, j) => (j === ref.node ? update(node) : node)) }
+      : subpath
+  );
+
+// The anchor or handle within `tolerance` of `point`, handles first since they can sit on top of anchors
+export const findPathPartAt = (
+  subpaths: SubPath[],
+  point: Point,
+  tolerance: number
+): (NodeRef & { part: PathPart }) | null => {
+  for (const part of ['handleIn', 'handleOut', 'anchor'] as PathPart[]) {
+    for (let i = 0; i < subpaths.length; i++) {
+      for (let j = 0; j < subpaths[i].nodes.length; j++) {
+        const node = subpaths[i].nodes[j];
+        const target = part === 'anchor' ? node : node[part];
+        if (target && distance(target, point) <= tolerance) return { subpath: i, node: j, part };
+      }
+    }
+  }
+  return null;
+};
+
+// The segment passing within `tolerance` of `point`, and how far along it (0-1) the nearest point is.
+// Segment `i` runs from node `i` to the next one, the last of a closed subpath back to the first.
+export const findSegmentAt = (
+  subpaths: SubPath[],
+  point: Point,
+  tolerance: number
+): { subpath: number; segment: number; t: number } | null => {
+  let best: { subpath: number; segment: number; t: number } | null = null;
+  let bestDistance = tolerance;
+
+  subpaths.forEach((subpath, i) => {
+    const { nodes } = subpath;
+    const count = subpath.closed ? nodes.length : nodes.length - 1;
+    for (let j = 0; j < count; j++) {
+      const from = nodes[j];
+      const to = nodes[(j + 1) % nodes.length];
+      for (let step = 1; step < SEGMENT_HIT_STEPS; step++) {
+        const t = step / SEGMENT_HIT_STEPS;
+        const d = distance(cubicPoint(from, from.handleOut ?? from, to.handleIn ?? to, to, t), point);
+        if (d <= bestDistance) {
+          bestDistance = d;
+          best = { subpath: i, segment: j, t };
+        }
+      }
+    }
+  });
+  return best;
+};
+
+// Move an anchor, its handles with it
+export const moveAnchor = (subpaths: SubPath[], ref: NodeRef, to: Point): SubPath[] =>
+  updateNode(subpaths, ref, node => {
+    const dx = to.x - node.x;
+    const dy = to.y - node.y;
+    return {
+      x: to.x,
+      y: to.y,
+      ...(node.handleIn ? { handleIn: { x: node.handleIn.x + dx, y: node.handleIn.y + dy } } : {}),
+      ...(node.handleOut ? { handleOut: { x: node.handleOut.x + dx, y: node.handleOut.y + dy } } : {})
+    };
+  });
+
+// Move one handle. The other handle of a smooth anchor turns to stay opposite it, keeping its
+// length, unless `breakSmooth` makes the anchor a corner.
+export const moveHandle = (
+  subpaths: SubPath[],
+  ref: NodeRef,
+  part: 'handleIn' | 'handleOut',
+  to: Point,
+  breakSmooth: boolean
+): SubPath[] =>
+  updateNode(subpaths, ref, node => {
+    const other = part === 'handleIn' ? 'handleOut' : 'handleIn';
+    const moved = { ...node, [part]: { x: to.x, y: to.y } };
+    const length = distance(to, node);
+    if (breakSmooth || !isSmoothNode(node) || length === 0) return moved;
+
+    const otherLength = distance(node[other]!, node);
+    return {
+      ...moved,
+      [other]: {
+        x: node.x - ((to.x - node.x) / length) * otherLength,
+        y: node.y - ((to.y - node.y) / length) * otherLength
+      }
+    };
+  });
+
+/**
+ * Turn a curved anchor into a corner by dropping its handles, or a corner into
+ * a smooth anchor with handles along the line between its neighbours, each a
+ * third of the way to the neighbour on its side.
+ */
+export const convertNode = (subpaths: SubPath[], ref: NodeRef): SubPath[] => {
+  const { nodes, closed } = subpaths[ref.subpath];
+  const node = nodes[ref.node];
+  if (node.handleIn || node.handleOut) return updateNode(subpaths, ref, ({ x, y }) => ({ x, y }));
+
+  const prev = ref.node > 0 ? nodes[ref.node - 1] : closed ? nodes[nodes.length - 1] : null;
+  const next = ref.node < nodes.length - 1 ? nodes[ref.node + 1] : closed ? nodes[0] : null;
+  if (!prev && !next) return subpaths;
+
+  // An open path's end has only one neighbour; its handles point along the segment to it
+  const before = prev ?? mirror(next!, node);
+  const after = next ?? mirror(prev!, node);
+  const span = distance(before, after);
+  if (span === 0) return subpaths;
+
+  const direction = { x: (after.x - before.x) / span, y: (after.y - before.y) / span };
+  const inLength = prev ? distance(prev, node) / 3 : 0;
+  const outLength = next ? distance(next, node) / 3 : 0;
+  return updateNode(subpaths, ref, ({ x, y }) => ({
+    x,
+    y,
+    ...(prev ? { handleIn: { x: x - direction.x * inLength, y: y - direction.y * inLength } } : {}),
+    ...(next ? { handleOut: { x: x + direction.x * outLength, y: y + direction.y * outLength } } : {})
+  }));
+};
+
+// Split a segment at `t` with a new anchor, without changing the curve's shape
+export const insertNode = (
+  subpaths: SubPath[],
+  subpathIndex: number,
+  segment: number,
+  t: number
+): { subpaths: SubPath[]; ref: NodeRef } => {
+  const { nodes, closed } = subpaths[subpathIndex];
+  const fromIndex = segment;
+  const toIndex = (segment + 1) % nodes.length;
+  const from = nodes[fromIndex];
+  const to = nodes[toIndex];
+
+  let inserted: PathNode;
+  const updated = [...nodes];
+  if (!from.handleOut && !to.handleIn) {
+    const { x, y } = lerp(from, to, t);
+    inserted = { x, y };
+  } else {
+    // de Casteljau: the new anchor's handles, and the neighbours' handles shortened to match
+    const c1 = from.handleOut ?? from;
+    const c2 = to.handleIn ?? to;
+    const q0 = lerp(from, c1, t);
+    const q1 = lerp(c1, c2, t);
+    const q2 = lerp(c2, to, t);
+    const r0 = lerp(q0, q1, t);
+    const r1 = lerp(q1, q2, t);
+    const { x, y } = lerp(r0, r1, t);
+    inserted = { x, y, handleIn: r0, handleOut: r1 };
+    if (from.handleOut) updated[fromIndex] = { ...from, handleOut: q0 };
+    if (to.handleIn) updated[toIndex] = { ...updated[toIndex], handleIn: q2 };
+  }
+
+  updated.splice(fromIndex + 1, 0, inserted);
+  return {
+    subpaths: subpaths.map((subpath, i) => (i === subpathIndex ? { nodes: updated, closed } : subpath)),
+    ref: { subpath: subpathIndex, node: fromIndex + 1 }
+  };
+};
+
+// Remove an anchor; a subpath left with fewer than two anchors is removed with it
+export const deleteNode = (subpaths: SubPath[], ref: NodeRef): SubPath[] =>
+  subpaths
+    .map((subpath, i) =>
+      i === ref.subpath ? { ...subpath, nodes: subpath.nodes.filter((_, j) => j !== ref.node) } : subpath
+    )
+    .filter(subpath => subpath.nodes.length >= 2);
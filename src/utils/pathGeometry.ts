@@ -0,0 +1,162 @@
+import type { PathNode, SubPath } from '../App';
+import type { Bounds } from './geometry';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Segments used to approximate each cubic curve when flattening
+const CURVE_STEPS = 16;
+
+export const cubicPoint = (p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point => {
+  const mt = 1 - t;
+  const a = mt * mt * mt;
+  const b = 3 * mt * mt * t;
+  const c = 3 * mt * t * t;
+  const d = t * t * t;
+  return {
+    x: a * p0.x + b * p1.x + c * p2.x + d * p3.x,
+    y: a * p0.y + b * p1.y + c * p2.y + d * p3.y
+  };
+};
+
+// Call `segment` for every edge of the subpath, including the closing edge of closed paths
+const forEachSegment = (
+  subpath: SubPath,
+  segment: (from: PathNode, to: PathNode) => void
+) => {
+  const { nodes, closed } = subpath;
+  for (let i = 1; i < nodes.length; i++) {
+    segment(nodes[i - 1], nodes[i]);
+  }
+  if (closed && nodes.length > 1) {
+    segment(nodes[nodes.length - 1], nodes[0]);
+  }
+};
+
+// Approximate a subpath as a polyline (curves are sampled, straight edges kept as-is)
+export const flattenSubPath = (subpath: SubPath, steps = CURVE_STEPS): Point[] => {
+  if (subpath.nodes.length === 0) return [];
+
+  const points: Point[] = [{ x: subpath.nodes[0].x, y: subpath.nodes[0].y }];
+  forEachSegment(subpath, (from, to) => {
+    if (from.handleOut || to.handleIn) {
+      const c1 = from.handleOut ?? from;
+      const c2 = to.handleIn ?? to;
+      for (let i = 1; i <= steps; i++) {
+        points.push(cubicPoint(from, c1, c2, to, i / steps));
+      }
+    } else {
+      points.push({ x: to.x, y: to.y });
+    }
+  });
+
+  // The closing edge ends on the first point again; closed polylines don't repeat it
+  if (subpath.closed && points.length > 1) points.pop();
+  return points;
+};
+
+export const getSubPathsBounds = (subpaths: SubPath[]): Bounds | null => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  subpaths.forEach(subpath => {
+    flattenSubPath(subpath).forEach(p => {
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    });
+  });
+  if (minX === Infinity) return null;
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// Apply a point mapping to every anchor and handle
+export const mapSubPaths = (subpaths: SubPath[], map: (p: Point) => Point): SubPath[] =>
+  subpaths.map(subpath => ({
+    closed: subpath.closed,
+    nodes: subpath.nodes.map(node => ({
+      ...map(node),
+      ...(node.handleIn ? { handleIn: map(node.handleIn) } : {}),
+      ...(node.handleOut ? { handleOut: map(node.handleOut) } : {})
+    }))
+  }));
+
+/**
+ * Convert subpaths in canvas coordinates to the normalized (0-1) box space that
+ * path objects store, returning the box they were normalized against.
+ */
+export const normalizeSubPaths = (subpaths: SubPath[]): { bounds: Bounds; subpaths: SubPath[] } | null => {
+  const raw = getSubPathsBounds(subpaths);
+  if (!raw) return null;
+
+  // Degenerate (perfectly horizontal/vertical) paths still need a non-zero box
+  const bounds = {
+    x: raw.width < 1 ? raw.x - 0.5 : raw.x,
+    y: raw.height < 1 ? raw.y - 0.5 : raw.y,
+    width: Math.max(raw.width, 1),
+    height: Math.max(raw.height, 1)
+  };
+
+  return {
+    bounds,
+    subpaths: mapSubPaths(subpaths, p => ({
+      x: (p.x - bounds.x) / bounds.width,
+      y: (p.y - bounds.y) / bounds.height
+    }))
+  };
+};
+
+// Scale normalized subpaths up to a box of the given size
+export const denormalizeSubPaths = (subpaths: SubPath[], width: number, height: number): SubPath[] =>
+  mapSubPaths(subpaths, p => ({ x: p.x * width, y: p.y * height }));
+
+// Trace normalized subpaths onto a canvas context as the current path
+export const traceSubPaths = (
+  ctx: CanvasRenderingContext2D,
+  subpaths: SubPath[],
+  width: number,
+  height: number
+) => {
+  ctx.beginPath();
+  denormalizeSubPaths(subpaths, width, height).forEach(subpath => {
+    if (subpath.nodes.length === 0) return;
+    ctx.moveTo(subpath.nodes[0].x, subpath.nodes[0].y);
+    forEachSegment(subpath, (from, to) => {
+      if (from.handleOut || to.handleIn) {
+        const c1 = from.handleOut ?? from;
+        const c2 = to.handleIn ?? to;
+        ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, to.x, to.y);
+      } else {
+        ctx.lineTo(to.x, to.y);
+      }
+    });
+    if (subpath.closed) ctx.closePath();
+  });
+};
+
+// SVG path data for normalized subpaths scaled to a box of the given size
+export const subPathsToSvgData = (
+  subpaths: SubPath[],
+  width: number,
+  height: number,
+  format: (n: number) => string = String
+): string =>
+  denormalizeSubPaths(subpaths, width, height)
+    .filter(subpath => subpath.nodes.length > 0)
+    .map(subpath => {
+      const first = subpath.nodes[0];
+      const parts = [`M${format(first.x)} ${format(first.y)}`];
+      forEachSegment(subpath, (from, to) => {
+        if (from.handleOut || to.handleIn) {
+          const c1 = from.handleOut ?? from;
+          const c2 = to.handleIn ?? to;
+          parts.push(`C${format(c1.x)} ${format(c1.y)} ${format(c2.x)} ${format(c2.y)} ${format(to.x)} ${format(to.y)}`);
+        } else {
+          parts.push(`L${format(to.x)} ${format(to.y)}`);
+        }
+      });
+      if (subpath.closed) parts.push('Z');
+      return parts.join(' ');
+    })
+    .join(' ');
@@ -0,0 +1,73 @@
+import type { CanvasObject } from '../App';
+import { drawObject, preloadImages, type ImageCache } from './drawObject';
+import type { Bounds } from './geometry';
+
+export type RasterFormat = 'png' | 'jpeg' | 'webp';
+
+export interface RasterExportOptions {
+  format: RasterFormat;
+  scale: number;
+  background: 'transparent' | 'white';
+  quality: number; // 0-1, used by JPEG and WebP
+}
+
+export const RASTER_MIME_TYPES: Record<RasterFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+export const RASTER_EXTENSIONS: Record<RasterFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp'
+};
+
+/**
+ * Render objects to an offscreen canvas covering `region` (in canvas units) at
+ * the requested scale, using the same drawObject routine as the editor.
+ */
+export const renderToCanvas = async (
+  objects: CanvasObject[],
+  region: Bounds,
+  options: Pick<RasterExportOptions, 'scale' | 'background' | 'format'>,
+  images: ImageCache = new Map()
+): Promise<HTMLCanvasElement> => {
+  await preloadImages(objects, images);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(region.width * options.scale));
+  canvas.height = Math.max(1, Math.round(region.height * options.scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a 2D canvas context');
+
+  // JPEG has no alpha channel, so it always gets a white background
+  if (options.background === 'white' || options.format === 'jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  ctx.scale(options.scale, options.scale);
+  ctx.translate(-region.x, -region.y);
+  objects.forEach(obj => drawObject(ctx, obj, images));
+
+  return canvas;
+};
+
+export const exportRaster = async (
+  objects: CanvasObject[],
+  region: Bounds,
+  options: RasterExportOptions,
+  images?: ImageCache
+): Promise<Blob> => {
+  const canvas = await renderToCanvas(objects, region, options, images);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('The browser could not encode the image'))),
+      RASTER_MIME_TYPES[options.format],
+      options.format === 'png' ? undefined : options.quality
+    );
+  });
+};
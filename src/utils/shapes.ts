@@ -0,0 +1,28 @@
+import type { CanvasObject, Transform } from '../App';
+
+// Built-in shapes, each drawn by the shape tool of the same name
+export type ShapeType = 'rectangle' | 'circle' | 'triangle' | 'polygon' | 'star' | 'line';
+
+export const SHAPE_LABELS: Record<ShapeType, string> = {
+  rectangle: 'Rectangle',
+  circle: 'Circle',
+  triangle: 'Triangle',
+  polygon: 'Polygon',
+  star: 'Star',
+  line: 'Line'
+};
+
+// A new shape in the given box, in the default style shape tools draw with
+export const createShapeObject = (type: ShapeType, transform: Transform): CanvasObject => ({
+  id: `${type}-${Date.now()}`,
+  type,
+  transform,
+  style: {
+    strokeColor: '#000000',
+    fillColor: type === 'line' ? 'transparent' : '#e0e0e0',
+    strokeWidth: 2
+  },
+  data: {
+    erasedAreas: []
+  }
+});
@@ -0,0 +1,220 @@
+import type { Bounds } from './geometry';
+import type { GuideLine } from './guides';
+
+/**
+ * Grid and smart-guide snapping. Smart guides line up the edges and centers
+ * of the box being dragged with those of other objects and the page, and
+ * repeat the spacing between neighbouring objects; ruler guides are snapped
+ * to like any other edge. Everything here works in
+ * document coordinates; callers pass the snap threshold already converted
+ * from screen pixels.
+ */
+
+export interface SnapSettings {
+  showGrid: boolean;
+  snapToGrid: boolean;
+  gridSize: number; // document units between major grid lines
+  gridSubdivisions: number; // minor cells per major cell
+  smartGuides: boolean;
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  showGrid: false,
+  snapToGrid: false,
+  gridSize: 100,
+  gridSubdivisions: 4,
+  smartGuides: true
+};
+
+// Screen pixels within which an edge or center snaps
+export const SNAP_THRESHOLD = 6;
+
+// A guide line drawn while snapping. Axis 'x' aligns x coordinates, so it is a vertical line.
+export type SnapGuide =
+  | { type: 'line'; axis: 'x' | 'y'; position: number; from: number; to: number }
+  | { type: 'spacing'; axis: 'x' | 'y'; segments: { from: number; to: number; at: number }[] };
+
+// What a dragged box can snap to. `page` is left out (null) along with `objects` when smart guides are off.
+export interface SnapTargets {
+  objects: Bounds[];
+  page: Bounds | null;
+  guides: GuideLine[];
+}
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  snappedX: boolean;
+  snappedY: boolean;
+  guides: SnapGuide[];
+}
+
+// Grid step that points snap to: the smallest visible subdivision
+export const getGridStep = (settings: SnapSettings) =>
+  settings.gridSize / Math.max(1, Math.round(settings.gridSubdivisions));
+
+export const snapValueToGrid = (value: number, step: number) => Math.round(value / step) * step;
+
+export const snapPointToGrid = (point: { x: number; y: number }, step: number) => ({
+  x: snapValueToGrid(point.x, step),
+  y: snapValueToGrid(point.y, step)
+});
+
+// A box seen along one axis: `start`/`size` on that axis, `crossStart`/`crossSize` on the other
+interface Span {
+  start: number;
+  size: number;
+  crossStart: number;
+  crossSize: number;
+}
+
+const toSpan = (bounds: Bounds, axis: 'x' | 'y'): Span =>
+  axis === 'x'
+    ? { start: bounds.x, size: bounds.width, crossStart: bounds.y, crossSize: bounds.height }
+    : { start: bounds.y, size: bounds.height, crossStart: bounds.x, crossSize: bounds.width };
+
+const anchorsOf = (span: Span) => [span.start, span.start + span.size / 2, span.start + span.size];
+
+interface AxisSnap {
+  delta: number;
+  guides: SnapGuide[];
+}
+
+// Edge and center alignment along one axis
+const snapAlignment = (moving: Span, targets: Span[], axis: 'x' | 'y', threshold: number): AxisSnap | null => {
+  let delta: number | null = null;
+  for (const target of targets) {
+    for (const m of anchorsOf(moving)) {
+      for (const t of anchorsOf(target)) {
+        if (Math.abs(t - m) <= threshold && (delta === null || Math.abs(t - m) < Math.abs(delta))) delta = t - m;
+      }
+    }
+  }
+  if (delta === null) return null;
+
+  // Draw every alignment the snapped position produces, one line per position
+  const snappedAnchors = anchorsOf({ ...moving, start: moving.start + delta });
+  const lines = new Map<number, { from: number; to: number }>();
+  targets.forEach(target => {
+    anchorsOf(target).forEach(t => {
+      if (!snappedAnchors.some(m => Math.abs(m - t) < 0.5)) return;
+      const line = lines.get(t);
+      lines.set(t, {
+        from: Math.min(line?.from ?? Infinity, moving.crossStart, target.crossStart),
+        to: Math.max(line?.to ?? -Infinity, moving.crossStart + moving.crossSize, target.crossStart + target.crossSize)
+      });
+    });
+  });
+
+  const guides: SnapGuide[] = Array.from(lines, ([position, { from, to }]) => ({ type: 'line', axis, position, from, to }));
+  return { delta, guides };
+};
+
+// Equal spacing along one axis, among objects that share the moving box's row (or column)
+const snapSpacing = (moving: Span, targets: Span[], axis: 'x' | 'y', threshold: number): AxisSnap | null => {
+  const row = targets
+    .filter(t => t.crossStart < moving.crossStart + moving.crossSize && t.crossStart + t.crossSize > moving.crossStart)
+    .sort((a, b) => a.start - b.start);
+
+  // Where the cross-axis spacing marks are drawn: the middle of the overlap with the moving box
+  const markAt = (a: Span, b: Span) => {
+    const top = Math.max(a.crossStart, b.crossStart);
+    const bottom = Math.min(a.crossStart + a.crossSize, b.crossStart + b.crossSize);
+    return (top + bottom) / 2;
+  };
+
+  // Positions that would repeat an existing gap, with the gaps to mark if chosen
+  const candidates: { start: number; segments: (snapped: Span) => { from: number; to: number; at: number }[] }[] = [];
+  const consider = (start: number, segments: (snapped: Span) => { from: number; to: number; at: number }[]) => {
+    candidates.push({ start, segments });
+  };
+
+  for (let i = 0; i < row.length - 1; i++) {
+    const a = row[i];
+    const b = row[i + 1];
+    const gap = b.start - (a.start + a.size);
+    if (gap <= 0) continue;
+
+    // Continue the gap past b, or before a
+    consider(b.start + b.size + gap, snapped => [
+      { from: a.start + a.size, to: b.start, at: markAt(a, b) },
+      { from: b.start + b.size, to: snapped.start, at: markAt(b, snapped) }
+    ]);
+    consider(a.start - gap - moving.size, snapped => [
+      { from: snapped.start + snapped.size, to: a.start, at: markAt(snapped, a) },
+      { from: a.start + a.size, to: b.start, at: markAt(a, b) }
+    ]);
+
+    // Centered between a and b
+    const free = gap - moving.size;
+    if (free > 0) {
+      consider(a.start + a.size + free / 2, snapped => [
+        { from: a.start + a.size, to: snapped.start, at: markAt(a, snapped) },
+        { from: snapped.start + snapped.size, to: b.start, at: markAt(snapped, b) }
+      ]);
+    }
+  }
+
+  const best = candidates
+    .filter(candidate => Math.abs(candidate.start - moving.start) <= threshold)
+    .sort((a, b) => Math.abs(a.start - moving.start) - Math.abs(b.start - moving.start))[0];
+  if (!best) return null;
+
+  return {
+    delta: best.start - moving.start,
+    guides: [{ type: 'spacing', axis, segments: best.segments({ ...moving, start: best.start }) }]
+  };
+};
+
+// Everything edges can line up with along one axis. A guide becomes a zero-size span across the
+// moving box, so its snap line is drawn over the box rather than the whole guide.
+const alignmentSpans = (moving: Span, targets: SnapTargets, axis: 'x' | 'y'): Span[] => [
+  ...[...targets.objects, ...(targets.page ? [targets.page] : [])].map(b => toSpan(b, axis)),
+  ...targets.guides
+    .filter(guide => guide.axis === axis)
+    .map(guide => ({ start: guide.position, size: 0, crossStart: moving.crossStart, crossSize: moving.crossSize }))
+];
+
+const snapAxis = (moving: Bounds, targets: SnapTargets, axis: 'x' | 'y', threshold: number): AxisSnap | null => {
+  const movingSpan = toSpan(moving, axis);
+  const alignment = snapAlignment(movingSpan, alignmentSpans(movingSpan, targets, axis), axis, threshold);
+  const spacing = snapSpacing(movingSpan, targets.objects.map(b => toSpan(b, axis)), axis, threshold);
+
+  if (alignment && spacing) return Math.abs(spacing.delta) < Math.abs(alignment.delta) ? spacing : alignment;
+  return alignment ?? spacing;
+};
+
+/**
+ * Smart-guide snap for a box being moved: how far to shift it on each axis
+ * and the guides to show. An axis with nothing in range is left unsnapped
+ * (delta 0, no guides).
+ */
+export const snapBoxToGuides = (moving: Bounds, targets: SnapTargets, threshold: number): SnapResult => {
+  const x = snapAxis(moving, targets, 'x', threshold);
+  const y = snapAxis(moving, targets, 'y', threshold);
+  return {
+    dx: x?.delta ?? 0,
+    dy: y?.delta ?? 0,
+    snappedX: !!x,
+    snappedY: !!y,
+    guides: [...(x?.guides ?? []), ...(y?.guides ?? [])]
+  };
+};
+
+/**
+ * Snap a single coordinate (a resized edge) to the edges and centers of other
+ * objects, the page and ruler guides. Returns the snapped value and its guide,
+ * or null.
+ */
+export const snapEdgeToGuides = (
+  value: number,
+  axis: 'x' | 'y',
+  crossStart: number,
+  crossSize: number,
+  targets: SnapTargets,
+  threshold: number
+): { value: number; guides: SnapGuide[] } | null => {
+  const moving: Span = { start: value, size: 0, crossStart, crossSize };
+  const result = snapAlignment(moving, alignmentSpans(moving, targets, axis), axis, threshold);
+  return result ? { value: value + result.delta, guides: result.guides } : null;
+};
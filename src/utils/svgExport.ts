@@ -0,0 +1,176 @@
+import type { CanvasObject } from '../App';
+import {
+  getFlipScale,
+  getPolygonVertices,
+  getStarVertices,
+  getTriangleVertices,
+  type Bounds
+} from './geometry';
+import { subPathsToSvgData } from './pathGeometry';
+import { getLineHeight, getLineOffsets, layoutText, type TextData } from './text';
+
+export interface SvgExportOptions {
+  background: 'transparent' | 'white';
+}
+
+// Keep output compact: at most two decimals, no trailing zeros
+const num = (n: number) => String(Math.round(n * 100) / 100);
+
+const escapeAttr = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+const paint = (color: string) => (color === 'transparent' ? 'none' : escapeAttr(color));
+
+const points = (vertices: { x: number; y: number }[]) =>
+  vertices.map(p => `${num(p.x)},${num(p.y)}`).join(' ');
+
+interface SvgContext {
+  defs: string[];
+  nextId: number;
+}
+
+// Content of a non-merged object in its local box space, mirroring paintObject in drawObject.ts
+const renderShape = (obj: CanvasObject): string => {
+  const { x, y, width, height } = obj.transform;
+  const { strokeColor, fillColor, strokeWidth } = obj.style;
+  const strokeAttrs = `stroke="${paint(strokeColor)}" stroke-width="${num(strokeWidth)}"`;
+  const fillAttr = `fill="${paint(fillColor)}"`;
+
+  switch (obj.type) {
+    case 'drawn': {
+      const path = (obj.data.path || []) as { x: number; y: number }[];
+      const brushType = obj.data.brushType || 'normal';
+
+      if (brushType === 'spray' && obj.data.sprayParticles) {
+        const particles = obj.data.sprayParticles as { x: number; y: number; size: number; alpha: number }[];
+        const dots = particles
+          .map(p => `<circle cx="${num(p.x)}" cy="${num(p.y)}" r="${num(p.size)}" fill-opacity="${num(p.alpha)}"/>`)
+          .join('');
+        return `<g fill="${paint(strokeColor)}">${dots}</g>`;
+      }
+
+      if (path.length === 0) return '';
+      const d = path
+        .map((p, i) => `${i === 0 ? 'M' : 'L'}${num(p.x - x)} ${num(p.y - y)}`)
+        .join(' ');
+      const markerOpacity = brushType === 'marker' ? ' opacity="0.6"' : '';
+      return `<path d="${d}" fill="none" ${strokeAttrs}${markerOpacity}/>`;
+    }
+    case 'rectangle':
+      return `<rect x="0" y="0" width="${num(width)}" height="${num(height)}" ${fillAttr} ${strokeAttrs}/>`;
+    case 'circle': {
+      const r = Math.min(width, height) / 2;
+      return `<ellipse cx="${num(width / 2)}" cy="${num(height / 2)}" rx="${num(r)}" ry="${num(r)}" ${fillAttr} ${strokeAttrs}/>`;
+    }
+    case 'triangle':
+      return `<polygon points="${points(getTriangleVertices(width, height))}" ${fillAttr} ${strokeAttrs}/>`;
+    case 'polygon':
+      return `<polygon points="${points(getPolygonVertices(width, height))}" ${fillAttr} ${strokeAttrs}/>`;
+    case 'star':
+      return `<polygon points="${points(getStarVertices(width, height))}" ${fillAttr} ${strokeAttrs}/>`;
+    case 'path': {
+      const d = subPathsToSvgData(obj.data.subpaths || [], width, height, num);
+      if (!d) return '';
+      const fillRule = obj.data.fillRule === 'evenodd' ? ' fill-rule="evenodd"' : '';
+      return `<path d="${d}" ${fillAttr}${fillRule} ${strokeAttrs}/>`;
+    }
+    case 'line':
+      return `<line x1="0" y1="${num(height / 2)}" x2="${num(width)}" y2="${num(height / 2)}" ${strokeAttrs}/>`;
+    case 'text': {
+      // Lines are broken and aligned the way the canvas sets them, then placed one by one
+      const data = obj.data as TextData;
+      const lines = layoutText(data, width);
+      const offsets = getLineOffsets(data, lines, width);
+      const lineHeight = getLineHeight(data);
+      const tspans = lines
+        .map((line, i) => `<tspan x="${num(offsets[i])}" y="${num((i + 0.5) * lineHeight)}">${escapeAttr(line)}</tspan>`)
+        .join('');
+      const fontStyle = data.italic ? ' font-style="italic"' : '';
+      const spacing = data.letterSpacing !== 0 ? ` letter-spacing="${num(data.letterSpacing)}"` : '';
+      const textStroke = strokeWidth > 0 ? strokeAttrs : 'stroke="none"';
+      return `<text font-family="${escapeAttr(data.fontFamily)}" font-size="${num(data.fontSize)}" font-weight="${data.fontWeight}"${fontStyle}${spacing} dominant-baseline="middle" style="white-space:pre" ${fillAttr} ${textStroke}>${tspans}</text>`;
+    }
+    case 'image':
+      return `<image href="${escapeAttr(obj.data.imageUrl)}" x="0" y="0" width="${num(width)}" height="${num(height)}" preserveAspectRatio="none"/>`;
+    default:
+      return '';
+  }
+};
+
+// Erased areas become a luminance mask over the same padded box the canvas uses for its temp canvas
+const renderEraseMask = (obj: CanvasObject, ctx: SvgContext): string => {
+  const { width, height } = obj.transform;
+  const id = `erase-${ctx.nextId++}`;
+  const holes = (obj.data.erasedAreas as { x: number; y: number; size: number }[][])
+    .flat()
+    .map(point => {
+      // Convert normalized coordinates (0-1) back to actual pixel coordinates
+      const r = (point.size * Math.min(width, height)) / 2;
+      return `<circle cx="${num(point.x * width)}" cy="${num(point.y * height)}" r="${num(r)}" fill="black"/>`;
+    })
+    .join('');
+
+  ctx.defs.push(
+    `<mask id="${id}" maskUnits="userSpaceOnUse" x="-10" y="-10" width="${num(width + 20)}" height="${num(height + 20)}">` +
+    `<rect x="-10" y="-10" width="${num(width + 20)}" height="${num(height + 20)}" fill="white"/>${holes}</mask>`
+  );
+  return id;
+};
+
+const renderObject = (obj: CanvasObject, ctx: SvgContext): string => {
+  if (obj.hidden) return '';
+
+  const { x, y, width, height, rotation } = obj.transform;
+  const flip = getFlipScale(obj.transform);
+
+  if (obj.type === 'merged' && obj.children) {
+    const originalWidth = obj.data.originalWidth || width;
+    const originalHeight = obj.data.originalHeight || height;
+    const scaleX = (width / originalWidth) * flip.x;
+    const scaleY = (height / originalHeight) * flip.y;
+    const transform =
+      `translate(${num(x + width / 2)} ${num(y + height / 2)}) rotate(${num(rotation)}) ` +
+      `scale(${scaleX} ${scaleY}) translate(${num(-originalWidth / 2)} ${num(-originalHeight / 2)})`;
+
+    // Like drawObject, children paint with their own opacity rather than the group's
+    return `<g transform="${transform}">${obj.children.map(child => renderObject(child, ctx)).join('')}</g>`;
+  }
+
+  const content = renderShape(obj);
+  if (!content) return '';
+
+  const flipTransform = flip.x === 1 && flip.y === 1 ? '' : `scale(${flip.x} ${flip.y}) `;
+  const transform =
+    `translate(${num(x + width / 2)} ${num(y + height / 2)}) rotate(${num(rotation)}) ` +
+    `${flipTransform}translate(${num(-width / 2)} ${num(-height / 2)})`;
+  const opacity = obj.style.opacity ?? 1;
+  const opacityAttr = opacity < 1 ? ` opacity="${num(opacity)}"` : '';
+  const maskAttr = obj.data.erasedAreas && obj.data.erasedAreas.length > 0
+    ? ` mask="url(#${renderEraseMask(obj, ctx)})"`
+    : '';
+
+  return `<g transform="${transform}"${opacityAttr}${maskAttr} stroke-linecap="round" stroke-linejoin="round">${content}</g>`;
+};
+
+/**
+ * Serialize objects as a standalone SVG document covering `region` (in canvas
+ * units). Geometry matches drawObject so the file looks like the canvas.
+ */
+export const exportSvg = (objects: CanvasObject[], region: Bounds, options: SvgExportOptions): string => {
+  const ctx: SvgContext = { defs: [], nextId: 0 };
+  const body = objects.map(obj => renderObject(obj, ctx)).join('\n  ');
+  const background = options.background === 'white'
+    ? `<rect x="${num(region.x)}" y="${num(region.y)}" width="${num(region.width)}" height="${num(region.height)}" fill="#ffffff"/>\n  `
+    : '';
+  const defs = ctx.defs.length > 0 ? `<defs>\n    ${ctx.defs.join('\n    ')}\n  </defs>\n  ` : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${num(region.width)}" height="${num(region.height)}" viewBox="${num(region.x)} ${num(region.y)} ${num(region.width)} ${num(region.height)}">
+  ${defs}${background}${body}
+</svg>
+`;
+};
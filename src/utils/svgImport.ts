@@ -0,0 +1,654 @@
+import type { CanvasObject, SubPath } from '../App';
+import { getObjectsBounds, translateObject } from './geometry';
+import { mapSubPaths, normalizeSubPaths, type Point } from './pathGeometry';
+
+/**
+ * SVG importer: turns shapes in an SVG document into native, editable
+ * CanvasObjects. Transforms are flattened down to each shape (so a group's
+ * transform is baked into its children), presentation attributes and inline
+ * `style` declarations are inherited, and every `<g>` becomes a merged object
+ * whose children are relative to it, just like the Merge tool produces.
+ *
+ * Rectangles and circles stay as native rectangle/circle objects when their
+ * transform is a plain rotate + scale; anything skewed, rounded or free-form
+ * becomes a `path` object.
+ */
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+interface InheritedStyle {
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  fillOpacity: number;
+  strokeOpacity: number;
+  fillRule: 'nonzero' | 'evenodd';
+  color: string;
+  opacity: number; // not inherited in SVG; accumulated here because groups are flattened
+}
+
+const DEFAULT_STYLE: InheritedStyle = {
+  fill: '#000000',
+  stroke: 'transparent',
+  strokeWidth: 1,
+  fillOpacity: 1,
+  strokeOpacity: 1,
+  fillRule: 'nonzero',
+  color: '#000000',
+  opacity: 1
+};
+
+const SKIPPED_ELEMENTS = new Set([
+  'defs', 'clipPath', 'mask', 'symbol', 'marker', 'pattern', 'linearGradient',
+  'radialGradient', 'filter', 'style', 'script', 'title', 'desc', 'metadata'
+]);
+
+// Matrix product m × n (n is applied first)
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+const applyMatrix = (m: Matrix, p: Point): Point => ({
+  x: m[0] * p.x + m[2] * p.y + m[4],
+  y: m[1] * p.x + m[3] * p.y + m[5]
+});
+
+const parseNumbers = (value: string | null): number[] =>
+  (value?.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) || []).map(Number);
+
+export const parseTransform = (value: string | null): Matrix => {
+  let result = IDENTITY;
+  if (!value) return result;
+
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value))) {
+    const args = parseNumbers(match[2]);
+    let m: Matrix = IDENTITY;
+
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length === 6) m = args as Matrix;
+        break;
+      case 'translate':
+        m = [1, 0, 0, 1, args[0] || 0, args[1] || 0];
+        break;
+      case 'scale':
+        m = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const rad = ((args[0] || 0) * Math.PI) / 180;
+        const cos = Math.cos(rad);
+        const sin = Math.sin(rad);
+        const [cx = 0, cy = 0] = args.slice(1);
+        m = multiply(multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case 'skewX':
+        m = [1, 0, Math.tan(((args[0] || 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        m = [1, Math.tan(((args[0] || 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+
+    result = multiply(result, m);
+  }
+
+  return result;
+};
+
+// Split a matrix into rotation and scale; `skewed` means it can't be expressed as a rotated box
+const decompose = (m: Matrix) => {
+  const [a, b, c, d] = m;
+  const scaleX = Math.hypot(a, b);
+  const scaleY = Math.abs(a * d - b * c) / (scaleX || 1);
+  const skewed = Math.abs(a * c + b * d) > 1e-6 * Math.max(1, scaleX * scaleY);
+  return {
+    rotation: (Math.atan2(b, a) * 180) / Math.PI,
+    scaleX,
+    scaleY,
+    skewed,
+    // Average scale for stroke widths
+    scale: Math.sqrt(Math.abs(a * d - b * c))
+  };
+};
+
+/* ---------- Style ---------- */
+
+const readDeclarations = (el: Element): Record<string, string> => {
+  const declarations: Record<string, string> = {};
+  const attrs = ['fill', 'stroke', 'stroke-width', 'fill-opacity', 'stroke-opacity', 'opacity', 'fill-rule', 'color', 'display', 'visibility'];
+  attrs.forEach(name => {
+    const value = el.getAttribute(name);
+    if (value !== null) declarations[name] = value.trim();
+  });
+
+  // Inline style wins over presentation attributes
+  (el.getAttribute('style') || '').split(';').forEach(rule => {
+    const [name, ...rest] = rule.split(':');
+    if (name && rest.length > 0) declarations[name.trim()] = rest.join(':').trim();
+  });
+
+  return declarations;
+};
+
+const resolvePaint = (value: string, color: string): string => {
+  if (value === 'none' || value === 'transparent') return 'transparent';
+  if (value === 'currentColor') return color;
+  // Gradients and patterns aren't supported; fall back to SVG's default paint
+  if (value.startsWith('url(')) return '#000000';
+  return value;
+};
+
+const resolveStyle = (el: Element, parent: InheritedStyle): InheritedStyle | null => {
+  const decl = readDeclarations(el);
+  if (decl.display === 'none' || decl.visibility === 'hidden') return null;
+
+  const color = decl.color && decl.color !== 'inherit' ? decl.color : parent.color;
+  const inherit = (name: string) => decl[name] !== undefined && decl[name] !== 'inherit';
+
+  return {
+    color,
+    fill: inherit('fill') ? resolvePaint(decl.fill, color) : parent.fill,
+    stroke: inherit('stroke') ? resolvePaint(decl.stroke, color) : parent.stroke,
+    strokeWidth: inherit('stroke-width') ? parseFloat(decl['stroke-width']) || 0 : parent.strokeWidth,
+    fillOpacity: inherit('fill-opacity') ? Number(decl['fill-opacity']) : parent.fillOpacity,
+    strokeOpacity: inherit('stroke-opacity') ? Number(decl['stroke-opacity']) : parent.strokeOpacity,
+    fillRule: inherit('fill-rule') ? (decl['fill-rule'] === 'evenodd' ? 'evenodd' : 'nonzero') : parent.fillRule,
+    opacity: parent.opacity * (inherit('opacity') ? Number(decl.opacity) : 1)
+  };
+};
+
+// CanvasObject styles have a single opacity, so fold the relevant paint opacity into it
+const toObjectStyle = (style: InheritedStyle, matrix: Matrix, filled: boolean): CanvasObject['style'] => {
+  const hasFill = filled && style.fill !== 'transparent';
+  const hasStroke = style.stroke !== 'transparent';
+  const paintOpacity = hasFill ? style.fillOpacity : hasStroke ? style.strokeOpacity : 1;
+
+  return {
+    strokeColor: style.stroke,
+    fillColor: filled ? style.fill : 'transparent',
+    strokeWidth: hasStroke ? style.strokeWidth * decompose(matrix).scale : 0,
+    opacity: Math.max(0, Math.min(1, style.opacity * paintOpacity))
+  };
+};
+
+/* ---------- Path data ---------- */
+
+// Convert an SVG elliptical arc into cubic Bézier segments ([control1, control2, end] each)
+const arcToCubics = (
+  p0: Point,
+  rx: number,
+  ry: number,
+  angle: number,
+  largeArc: boolean,
+  sweep: boolean,
+  p1: Point
+): [Point, Point, Point][] => {
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return [[p0, p1, p1]];
+  if (p0.x === p1.x && p0.y === p1.y) return [];
+
+  const phi = (angle * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (p0.x - p1.x) / 2;
+  const dy = (p0.y - p1.y) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  // Scale radii up if they are too small to span the endpoints
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  let coef = Math.sqrt(Math.max(0, numerator / denominator));
+  if (largeArc === sweep) coef = -coef;
+
+  const cxp = (coef * rx * y1p) / ry;
+  const cyp = (-coef * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (p0.x + p1.x) / 2;
+  const cy = sin * cxp + cos * cyp + (p0.y + p1.y) / 2;
+
+  const vectorAngle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta1 = vectorAngle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let deltaTheta = vectorAngle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && deltaTheta > 0) deltaTheta -= Math.PI * 2;
+  if (sweep && deltaTheta < 0) deltaTheta += Math.PI * 2;
+
+  const segments = Math.max(1, Math.ceil(Math.abs(deltaTheta) / (Math.PI / 2)));
+  const delta = deltaTheta / segments;
+  const t = (4 / 3) * Math.tan(delta / 4);
+  const toPoint = (ux: number, uy: number): Point => ({
+    x: cx + rx * ux * cos - ry * uy * sin,
+    y: cy + rx * ux * sin + ry * uy * cos
+  });
+
+  const result: [Point, Point, Point][] = [];
+  let theta = theta1;
+  for (let i = 0; i < segments; i++) {
+    const cos1 = Math.cos(theta);
+    const sin1 = Math.sin(theta);
+    const theta2 = theta + delta;
+    const cos2 = Math.cos(theta2);
+    const sin2 = Math.sin(theta2);
+    result.push([
+      toPoint(cos1 - t * sin1, sin1 + t * cos1),
+      toPoint(cos2 + t * sin2, sin2 - t * cos2),
+      i === segments - 1 ? p1 : toPoint(cos2, sin2)
+    ]);
+    theta = theta2;
+  }
+
+  return result;
+};
+
+// Parse SVG path data into subpaths of absolute anchors with cubic handles
+export const parsePathData = (d: string): SubPath[] => {
+  const subpaths: SubPath[] = [];
+  const number = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/y;
+  let pos = 0;
+
+  const skip = () => {
+    while (pos < d.length && /[\s,]/.test(d[pos])) pos++;
+  };
+  const readNumber = () => {
+    skip();
+    number.lastIndex = pos;
+    const match = number.exec(d);
+    if (!match) throw new Error(`Invalid path data near "${d.slice(pos, pos + 10)}"`);
+    pos = number.lastIndex;
+    return parseFloat(match[0]);
+  };
+  // Arc flags may be written without separators ("a1 1 0 01 1 1")
+  const readFlag = () => {
+    skip();
+    const flag = d[pos++];
+    if (flag !== '0' && flag !== '1') throw new Error('Invalid arc flag in path data');
+    return flag === '1';
+  };
+
+  let current: SubPath | null = null;
+  let point: Point = { x: 0, y: 0 };
+  let start: Point = { x: 0, y: 0 };
+  let lastCubic: Point | null = null;
+  let lastQuad: Point | null = null;
+
+  const ensureSubPath = () => {
+    if (!current || current.closed) {
+      current = { nodes: [{ ...point }], closed: false };
+      subpaths.push(current);
+    }
+    return current;
+  };
+  const lineTo = (p: Point) => {
+    ensureSubPath().nodes.push({ ...p });
+    point = p;
+  };
+  const curveTo = (c1: Point, c2: Point, p: Point) => {
+    const subpath = ensureSubPath();
+    subpath.nodes[subpath.nodes.length - 1].handleOut = c1;
+    subpath.nodes.push({ ...p, handleIn: c2 });
+    point = p;
+  };
+
+  let command = '';
+  while (true) {
+    skip();
+    if (pos >= d.length) break;
+
+    if (/[a-zA-Z]/.test(d[pos])) {
+      command = d[pos++];
+    } else if (!command) {
+      throw new Error('Path data must start with a command');
+    }
+
+    const relative = command === command.toLowerCase();
+    const abs = (x: number, y: number): Point =>
+      relative ? { x: point.x + x, y: point.y + y } : { x, y };
+    let nextCubic: Point | null = null;
+    let nextQuad: Point | null = null;
+
+    switch (command.toUpperCase()) {
+      case 'M': {
+        const p = abs(readNumber(), readNumber());
+        current = { nodes: [{ ...p }], closed: false };
+        subpaths.push(current);
+        point = p;
+        start = p;
+        // Extra coordinate pairs after a moveto are implicit linetos
+        command = relative ? 'l' : 'L';
+        break;
+      }
+      case 'L':
+        lineTo(abs(readNumber(), readNumber()));
+        break;
+      case 'H': {
+        const x = readNumber();
+        lineTo({ x: relative ? point.x + x : x, y: point.y });
+        break;
+      }
+      case 'V': {
+        const y = readNumber();
+        lineTo({ x: point.x, y: relative ? point.y + y : y });
+        break;
+      }
+      case 'C': {
+        const c1 = abs(readNumber(), readNumber());
+        const c2 = abs(readNumber(), readNumber());
+        const p = abs(readNumber(), readNumber());
+        curveTo(c1, c2, p);
+        nextCubic = c2;
+        break;
+      }
+      case 'S': {
+        const c1 = lastCubic ? { x: 2 * point.x - lastCubic.x, y: 2 * point.y - lastCubic.y } : point;
+        const c2 = abs(readNumber(), readNumber());
+        const p = abs(readNumber(), readNumber());
+        curveTo(c1, c2, p);
+        nextCubic = c2;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const q: Point = command.toUpperCase() === 'Q'
+          ? abs(readNumber(), readNumber())
+          : lastQuad ? { x: 2 * point.x - lastQuad.x, y: 2 * point.y - lastQuad.y } : point;
+        const p = abs(readNumber(), readNumber());
+        // Elevate the quadratic to an equivalent cubic
+        curveTo(
+          { x: point.x + (2 / 3) * (q.x - point.x), y: point.y + (2 / 3) * (q.y - point.y) },
+          { x: p.x + (2 / 3) * (q.x - p.x), y: p.y + (2 / 3) * (q.y - p.y) },
+          p
+        );
+        nextQuad = q;
+        break;
+      }
+      case 'A': {
+        const rx = readNumber();
+        const ry = readNumber();
+        const angle = readNumber();
+        const largeArc = readFlag();
+        const sweep = readFlag();
+        const p = abs(readNumber(), readNumber());
+        arcToCubics(point, rx, ry, angle, largeArc, sweep, p).forEach(([c1, c2, end]) => {
+          if (c1 === point && c2 === end) lineTo(end);
+          else curveTo(c1, c2, end);
+        });
+        point = p;
+        break;
+      }
+      case 'Z': {
+        if (current) {
+          const nodes = current.nodes;
+          const first = nodes[0];
+          const last = nodes[nodes.length - 1];
+          // A closing segment that lands on the start is redundant; keep its incoming handle
+          if (nodes.length > 1 && Math.abs(first.x - last.x) < 1e-9 && Math.abs(first.y - last.y) < 1e-9) {
+            first.handleIn = last.handleIn;
+            nodes.pop();
+          }
+          current.closed = true;
+        }
+        point = start;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported path command "${command}"`);
+    }
+
+    lastCubic = nextCubic;
+    lastQuad = nextQuad;
+
+    // Z takes no arguments; any other command repeats while numbers follow
+    if (command.toUpperCase() === 'Z') command = '';
+  }
+
+  return subpaths.filter(subpath => subpath.nodes.length > 1);
+};
+
+/* ---------- Elements ---------- */
+
+let idCounter = 0;
+const nextId = (type: string) => `${type}-${Date.now()}-${idCounter++}`;
+
+const length = (el: Element, name: string) => parseFloat(el.getAttribute(name) || '0') || 0;
+
+const createPathObject = (
+  subpaths: SubPath[],
+  matrix: Matrix,
+  style: InheritedStyle,
+  filled = true
+): CanvasObject | null => {
+  const normalized = normalizeSubPaths(mapSubPaths(subpaths, p => applyMatrix(matrix, p)));
+  if (!normalized) return null;
+
+  return {
+    id: nextId('path'),
+    type: 'path',
+    transform: { ...normalized.bounds, rotation: 0 },
+    style: toObjectStyle(style, matrix, filled),
+    data: {
+      subpaths: normalized.subpaths,
+      fillRule: style.fillRule,
+      erasedAreas: []
+    }
+  };
+};
+
+// A local-space box mapped through a rotate + scale matrix becomes a rotated transform box
+const createBoxObject = (
+  type: 'rectangle' | 'circle',
+  box: { x: number; y: number; width: number; height: number },
+  matrix: Matrix,
+  style: InheritedStyle
+): CanvasObject => {
+  const { rotation, scaleX, scaleY } = decompose(matrix);
+  const center = applyMatrix(matrix, { x: box.x + box.width / 2, y: box.y + box.height / 2 });
+  const width = box.width * scaleX;
+  const height = box.height * scaleY;
+
+  return {
+    id: nextId(type),
+    type,
+    transform: { x: center.x - width / 2, y: center.y - height / 2, width, height, rotation },
+    style: toObjectStyle(style, matrix, true),
+    data: { erasedAreas: [] }
+  };
+};
+
+const ellipseSubPaths = (cx: number, cy: number, rx: number, ry: number) =>
+  parsePathData(`M${cx - rx} ${cy} A${rx} ${ry} 0 1 0 ${cx + rx} ${cy} A${rx} ${ry} 0 1 0 ${cx - rx} ${cy} Z`);
+
+const pointsSubPath = (el: Element, closed: boolean): SubPath[] => {
+  const values = parseNumbers(el.getAttribute('points'));
+  const nodes = [];
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    nodes.push({ x: values[i], y: values[i + 1] });
+  }
+  return nodes.length > 1 ? [{ nodes, closed }] : [];
+};
+
+const convertShape = (el: Element, matrix: Matrix, style: InheritedStyle): CanvasObject | null => {
+  const { skewed, scaleX, scaleY } = decompose(matrix);
+
+  switch (el.localName) {
+    case 'rect': {
+      const x = length(el, 'x');
+      const y = length(el, 'y');
+      const width = length(el, 'width');
+      const height = length(el, 'height');
+      if (width <= 0 || height <= 0) return null;
+
+      let rx = el.hasAttribute('rx') ? length(el, 'rx') : length(el, 'ry');
+      let ry = el.hasAttribute('ry') ? length(el, 'ry') : rx;
+      rx = Math.min(rx, width / 2);
+      ry = Math.min(ry, height / 2);
+
+      if (rx > 0 && ry > 0) {
+        const d =
+          `M${x + rx} ${y} H${x + width - rx} A${rx} ${ry} 0 0 1 ${x + width} ${y + ry} ` +
+          `V${y + height - ry} A${rx} ${ry} 0 0 1 ${x + width - rx} ${y + height} ` +
+          `H${x + rx} A${rx} ${ry} 0 0 1 ${x} ${y + height - ry} ` +
+          `V${y + ry} A${rx} ${ry} 0 0 1 ${x + rx} ${y} Z`;
+        return createPathObject(parsePathData(d), matrix, style);
+      }
+      if (skewed) {
+        return createPathObject(
+          [{ nodes: [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }], closed: true }],
+          matrix,
+          style
+        );
+      }
+      return createBoxObject('rectangle', { x, y, width, height }, matrix, style);
+    }
+    case 'circle':
+    case 'ellipse': {
+      const cx = length(el, 'cx');
+      const cy = length(el, 'cy');
+      const rx = el.localName === 'circle' ? length(el, 'r') : length(el, 'rx');
+      const ry = el.localName === 'circle' ? rx : length(el, 'ry');
+      if (rx <= 0 || ry <= 0) return null;
+
+      // The canvas circle is round, so only uniformly scaled circles stay native
+      if (!skewed && Math.abs(rx * scaleX - ry * scaleY) < 1e-6 * Math.max(rx, ry)) {
+        return createBoxObject('circle', { x: cx - rx, y: cy - ry, width: rx * 2, height: ry * 2 }, matrix, style);
+      }
+      return createPathObject(ellipseSubPaths(cx, cy, rx, ry), matrix, style);
+    }
+    case 'line': {
+      const p1 = applyMatrix(matrix, { x: length(el, 'x1'), y: length(el, 'y1') });
+      const p2 = applyMatrix(matrix, { x: length(el, 'x2'), y: length(el, 'y2') });
+      const lineLength = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+      if (lineLength < 1) return null;
+
+      // Line objects draw horizontally through the middle of their box, then rotate
+      const height = 10;
+      return {
+        id: nextId('line'),
+        type: 'line',
+        transform: {
+          x: (p1.x + p2.x) / 2 - lineLength / 2,
+          y: (p1.y + p2.y) / 2 - height / 2,
+          width: lineLength,
+          height,
+          rotation: (Math.atan2(p2.y - p1.y, p2.x - p1.x) * 180) / Math.PI
+        },
+        style: toObjectStyle(style, matrix, false),
+        data: { erasedAreas: [] }
+      };
+    }
+    case 'polygon':
+      return createPathObject(pointsSubPath(el, true), matrix, style);
+    case 'polyline':
+      return createPathObject(pointsSubPath(el, false), matrix, style);
+    case 'path':
+      return createPathObject(parsePathData(el.getAttribute('d') || ''), matrix, style);
+    default:
+      return null;
+  }
+};
+
+// Wrap converted children into a merged object, with children relative to its box
+const createGroupObject = (children: CanvasObject[]): CanvasObject | null => {
+  if (children.length === 0) return null;
+  // A group around a single shape adds nothing once its transform is baked in
+  if (children.length === 1) return children[0];
+
+  const bounds = getObjectsBounds(children)!;
+
+  return {
+    id: nextId('merged'),
+    type: 'merged',
+    transform: { ...bounds, rotation: 0 },
+    style: {
+      strokeColor: '#000000',
+      fillColor: 'transparent',
+      strokeWidth: 2
+    },
+    data: {
+      originalWidth: bounds.width,
+      originalHeight: bounds.height
+    },
+    children: children.map(child => translateObject(child, -bounds.x, -bounds.y))
+  };
+};
+
+const convertChildren = (parent: Element, matrix: Matrix, style: InheritedStyle): CanvasObject[] => {
+  const objects: CanvasObject[] = [];
+
+  Array.from(parent.children).forEach(el => {
+    if (SKIPPED_ELEMENTS.has(el.localName)) return;
+
+    const elementStyle = resolveStyle(el, style);
+    if (!elementStyle) return;
+
+    const elementMatrix = multiply(matrix, parseTransform(el.getAttribute('transform')));
+
+    if (el.localName === 'g' || el.localName === 'a' || el.localName === 'svg') {
+      const nestedMatrix = el.localName === 'svg' ? multiply(elementMatrix, viewBoxMatrix(el)) : elementMatrix;
+      const group = createGroupObject(convertChildren(el, nestedMatrix, elementStyle));
+      if (group) objects.push(group);
+      return;
+    }
+
+    const obj = convertShape(el, elementMatrix, elementStyle);
+    if (obj) objects.push(obj);
+  });
+
+  return objects;
+};
+
+// Map an <svg>'s viewBox onto its width/height (uniform scale, centered, like the default preserveAspectRatio)
+const viewBoxMatrix = (svg: Element): Matrix => {
+  const viewBox = parseNumbers(svg.getAttribute('viewBox'));
+  if (viewBox.length !== 4 || viewBox[2] <= 0 || viewBox[3] <= 0) return IDENTITY;
+
+  const [minX, minY, vbWidth, vbHeight] = viewBox;
+  const width = parseFloat(svg.getAttribute('width') || '') || vbWidth;
+  const height = parseFloat(svg.getAttribute('height') || '') || vbHeight;
+  const scale = Math.min(width / vbWidth, height / vbHeight);
+
+  return [
+    scale, 0, 0, scale,
+    (width - vbWidth * scale) / 2 - minX * scale,
+    (height - vbHeight * scale) / 2 - minY * scale
+  ];
+};
+
+/**
+ * Parse SVG markup into CanvasObjects positioned in SVG user space.
+ * Throws if the markup can't be parsed or contains nothing importable.
+ */
+export const importSvg = (markup: string): CanvasObject[] => {
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'svg') {
+    throw new Error('File is not a valid SVG document');
+  }
+
+  const rootStyle = resolveStyle(root, DEFAULT_STYLE) || DEFAULT_STYLE;
+  const objects = convertChildren(root, viewBoxMatrix(root), rootStyle);
+  if (objects.length === 0) {
+    throw new Error('No supported shapes found in SVG');
+  }
+
+  return objects;
+};
+
+export const isSvgFile = (file: File): boolean =>
+  file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg');
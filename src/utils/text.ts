@@ -0,0 +1,211 @@
+import type { CanvasObject, Transform } from '../App';
+
+/**
+ * Text objects: their typography lives in `data`, their colors in `style`
+ * like any other object (fill paints the glyphs, stroke outlines them). Lines
+ * are laid out here for drawing, exporting and sizing the box, so all three
+ * break text in the same places.
+ */
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextData {
+  text: string;
+  fontFamily: string; // CSS font-family list
+  fontSize: number;
+  fontWeight: number;
+  italic: boolean;
+  align: TextAlign;
+  lineHeight: number; // multiple of the font size
+  letterSpacing: number; // extra space after each character
+  wrap: boolean; // wrap lines to the box width; otherwise the box grows to fit the longest line
+}
+
+export const TEXT_FONTS: { label: string; family: string }[] = [
+  { label: 'Sans Serif', family: 'Arial, Helvetica, sans-serif' },
+  { label: 'Serif', family: 'Georgia, "Times New Roman", serif' },
+  { label: 'Monospace', family: '"Courier New", Courier, monospace' },
+  { label: 'Verdana', family: 'Verdana, Geneva, sans-serif' },
+  { label: 'Trebuchet', family: '"Trebuchet MS", sans-serif' },
+  { label: 'Impact', family: 'Impact, "Arial Black", sans-serif' }
+];
+
+export const FONT_WEIGHTS: Record<number, string> = {
+  300: 'Light',
+  400: 'Regular',
+  500: 'Medium',
+  600: 'Semibold',
+  700: 'Bold',
+  900: 'Black'
+};
+
+export const DEFAULT_TEXT_DATA: TextData = {
+  text: '',
+  fontFamily: TEXT_FONTS[0].family,
+  fontSize: 24,
+  fontWeight: 400,
+  italic: false,
+  align: 'left',
+  lineHeight: 1.2,
+  letterSpacing: 0,
+  wrap: false
+};
+
+// Value for the canvas `font` property (and the CSS `font` shorthand)
+export const getTextFont = (data: TextData) =>
+  `${data.italic ? 'italic ' : ''}${data.fontWeight} ${data.fontSize}px ${data.fontFamily}`;
+
+export const getLineHeight = (data: TextData) => data.fontSize * data.lineHeight;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+const getMeasureContext = () => {
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  return measureContext!;
+};
+
+// Width of a line as drawn; letter spacing follows every character, as in CSS
+const measureLine = (ctx: CanvasRenderingContext2D, line: string, letterSpacing: number) =>
+  ctx.measureText(line).width + letterSpacing * Array.from(line).length;
+
+// Break one paragraph into lines no wider than `width`, at spaces where possible
+const wrapParagraph = (
+  ctx: CanvasRenderingContext2D,
+  paragraph: string,
+  width: number,
+  letterSpacing: number
+): string[] => {
+  const fits = (line: string) => measureLine(ctx, line.trimEnd(), letterSpacing) <= width;
+  const lines: string[] = [];
+  let line = '';
+
+  (paragraph.match(/\S+\s*|\s+/g) ?? ['']).forEach(word => {
+    if (fits(line + word)) {
+      line += word;
+      return;
+    }
+    if (line) lines.push(line.trimEnd());
+    line = '';
+
+    // A word longer than the box is broken between characters
+    Array.from(word).forEach(char => {
+      if (line && !fits(line + char)) {
+        lines.push(line.trimEnd());
+        line = '';
+      }
+      line += char;
+    });
+  });
+  lines.push(line.trimEnd());
+  return lines;
+};
+
+// The lines the text is drawn in, for a box `width` wide
+export const layoutText = (data: TextData, width: number): string[] => {
+  const ctx = getMeasureContext();
+  ctx.font = getTextFont(data);
+  const paragraphs = data.text.split('\n');
+  return data.wrap
+    ? paragraphs.flatMap(paragraph => wrapParagraph(ctx, paragraph, width, data.letterSpacing))
+    : paragraphs;
+};
+
+// Size of the box the text needs: its own width unless it wraps, and the height of its lines
+export const measureText = (data: TextData, width: number) => {
+  const ctx = getMeasureContext();
+  const lines = layoutText(data, width);
+  ctx.font = getTextFont(data);
+  const longest = Math.max(...lines.map(line => measureLine(ctx, line, data.letterSpacing)));
+
+  return {
+    width: data.wrap ? width : Math.max(1, Math.ceil(longest)),
+    height: Math.max(1, lines.length) * getLineHeight(data)
+  };
+};
+
+/**
+ * Resize a text object's box to its text, keeping the box's top-left corner
+ * where it is on the page (a rotated box turns about its center, so the
+ * center has to move with the new size).
+ */
+export const fitTextBox = (obj: CanvasObject): CanvasObject => {
+  const { x, y, width, height, rotation } = obj.transform;
+  const size = measureText(obj.data as TextData, width);
+  if (size.width === width && size.height === height) return obj;
+
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dw = (size.width - width) / 2;
+  const dh = (size.height - height) / 2;
+  const transform: Transform = {
+    ...obj.transform,
+    x: x + dw * cos - dh * sin - dw,
+    y: y + dw * sin + dh * cos - dh,
+    width: size.width,
+    height: size.height
+  };
+  return { ...obj, transform };
+};
+
+// A new, empty text object with its top-left corner at `x`, `y`; a `width` makes it wrap
+export const createTextObject = (x: number, y: number, width?: number): CanvasObject =>
+  fitTextBox({
+    id: `text-${Date.now()}`,
+    type: 'text',
+    transform: { x, y, width: width ?? 0, height: 0, rotation: 0 },
+    style: {
+      strokeColor: 'transparent',
+      fillColor: '#000000',
+      strokeWidth: 0
+    },
+    data: {
+      ...DEFAULT_TEXT_DATA,
+      wrap: width !== undefined,
+      erasedAreas: []
+    }
+  });
+
+// Where each line starts along the box, for its alignment
+export const getLineOffsets = (data: TextData, lines: string[], width: number): number[] => {
+  const ctx = getMeasureContext();
+  ctx.font = getTextFont(data);
+  return lines.map(line => {
+    if (data.align === 'left') return 0;
+    const free = width - measureLine(ctx, line, data.letterSpacing);
+    return data.align === 'center' ? free / 2 : free;
+  });
+};
+
+// Paint a text object's lines in its local box space, with the context's fill and stroke already set
+export const paintText = (
+  ctx: CanvasRenderingContext2D,
+  data: TextData,
+  width: number,
+  fill: boolean,
+  stroke: boolean
+) => {
+  const lines = layoutText(data, width);
+  const offsets = getLineOffsets(data, lines, width);
+  const lineHeight = getLineHeight(data);
+
+  ctx.font = getTextFont(data);
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+
+  lines.forEach((line, i) => {
+    const y = (i + 0.5) * lineHeight;
+    if (data.letterSpacing === 0) {
+      if (fill) ctx.fillText(line, offsets[i], y);
+      if (stroke) ctx.strokeText(line, offsets[i], y);
+      return;
+    }
+
+    // Canvas letter spacing isn't available everywhere, so spaced text is set a character at a time
+    let x = offsets[i];
+    Array.from(line).forEach(char => {
+      if (fill) ctx.fillText(char, x, y);
+      if (stroke) ctx.strokeText(char, x, y);
+      x += ctx.measureText(char).width + data.letterSpacing;
+    });
+  });
+};
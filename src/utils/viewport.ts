@@ -0,0 +1,89 @@
+import type { Bounds } from './geometry';
+import type { PageSize } from './pageSize';
+
+/**
+ * The editor's view onto the document. A canvas point is shown on screen at
+ * `point * zoom / 100 + (x, y)`, where (x, y) is the pan offset in screen
+ * pixels from the top-left of the viewport.
+ */
+
+export interface ViewState {
+  x: number;
+  y: number;
+  zoom: number; // percent
+}
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+export const MIN_ZOOM = 5;
+export const MAX_ZOOM = 3200;
+
+// Levels the zoom in/out buttons step through
+const ZOOM_STEPS = [5, 10, 25, 50, 75, 100, 150, 200, 300, 400, 600, 800, 1200, 1600, 2400, 3200];
+
+// Levels offered as commands to jump straight to
+export const ZOOM_PRESETS = [25, 50, 100, 200, 400] as const;
+export type ZoomPreset = typeof ZOOM_PRESETS[number];
+
+// Screen pixels kept free around content when zooming to fit it
+const FIT_PADDING = 40;
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const screenToWorld = (view: ViewState, point: { x: number; y: number }) => ({
+  x: (point.x - view.x) / (view.zoom / 100),
+  y: (point.y - view.y) / (view.zoom / 100)
+});
+
+export const worldToScreen = (view: ViewState, point: { x: number; y: number }) => ({
+  x: point.x * (view.zoom / 100) + view.x,
+  y: point.y * (view.zoom / 100) + view.y
+});
+
+// The part of the document visible in the viewport
+export const getVisibleBounds = (view: ViewState, viewport: ViewportSize): Bounds => {
+  const topLeft = screenToWorld(view, { x: 0, y: 0 });
+  const scale = view.zoom / 100;
+  return { x: topLeft.x, y: topLeft.y, width: viewport.width / scale, height: viewport.height / scale };
+};
+
+// Change the zoom while keeping the document point under `anchor` (a screen point) in place
+export const zoomAt = (view: ViewState, zoom: number, anchor: { x: number; y: number }): ViewState => {
+  const nextZoom = clampZoom(zoom);
+  const world = screenToWorld(view, anchor);
+  return {
+    x: anchor.x - world.x * (nextZoom / 100),
+    y: anchor.y - world.y * (nextZoom / 100),
+    zoom: nextZoom
+  };
+};
+
+// The next preset level above (direction 1) or below (-1) the current zoom
+export const stepZoom = (zoom: number, direction: 1 | -1) => {
+  if (direction > 0) return ZOOM_STEPS.find(step => step > zoom + 0.01) ?? MAX_ZOOM;
+  return [...ZOOM_STEPS].reverse().find(step => step < zoom - 0.01) ?? MIN_ZOOM;
+};
+
+// Center `bounds` in the viewport, zoomed so it fits (never beyond `maxZoom`)
+export const fitBounds = (bounds: Bounds, viewport: ViewportSize, maxZoom = MAX_ZOOM): ViewState => {
+  const availableWidth = Math.max(1, viewport.width - FIT_PADDING * 2);
+  const availableHeight = Math.max(1, viewport.height - FIT_PADDING * 2);
+  const fitZoom = Math.min(
+    (availableWidth / Math.max(1, bounds.width)) * 100,
+    (availableHeight / Math.max(1, bounds.height)) * 100
+  );
+  const zoom = clampZoom(Math.min(fitZoom, maxZoom));
+
+  return {
+    x: viewport.width / 2 - (bounds.x + bounds.width / 2) * (zoom / 100),
+    y: viewport.height / 2 - (bounds.y + bounds.height / 2) * (zoom / 100),
+    zoom
+  };
+};
+
+// The page centered at 100%, or smaller if it doesn't fit
+export const getPageView = (page: PageSize, viewport: ViewportSize): ViewState =>
+  fitBounds({ x: 0, y: 0, width: page.width, height: page.height }, viewport, 100);